@@ -0,0 +1,115 @@
+/**
+ * Development stand-in for the photo storage endpoint.
+ *
+ * Implements the same contract as the backend's `/api/uploads`:
+ * - POST /api/uploads        raw image body (Content-Type image/webp|jpeg|png)
+ *                            -> 201 { success, id, url }
+ * - GET  /api/uploads/:file  serves the stored image
+ * - DELETE /api/uploads/:id  removes the stored image -> 200 { success }
+ *
+ * Files are written to `.uploads/` in the project root. The middleware runs
+ * before the `/api` proxy, so only uploads stay local; every other API call
+ * still reaches the configured backend. It is only active under `vite dev`
+ * and only used when the app talks to the default same-origin `/api`.
+ */
+import { createReadStream, createWriteStream, existsSync, mkdirSync, unlink, unlinkSync } from 'node:fs';
+import type { ServerResponse } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import path from 'node:path';
+import type { Plugin } from 'vite';
+
+const ROUTE = '/api/uploads';
+const MAX_BYTES = 5 * 1024 * 1024;
+
+const EXTENSIONS: Record<string, string> = {
+  'image/webp': 'webp',
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+};
+
+const sendJson = (res: ServerResponse, status: number, body: object) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+};
+
+export default function devUploadStorage(dir = '.uploads'): Plugin {
+  return {
+    name: 'dev-upload-storage',
+    apply: 'serve',
+    configureServer(server) {
+      const root = path.resolve(server.config.root, dir);
+      mkdirSync(root, { recursive: true });
+
+      server.middlewares.use(ROUTE, (req, res, next) => {
+        const url = (req.url || '/').split('?')[0];
+
+        if (req.method === 'POST' && url === '/') {
+          const contentType = (req.headers['content-type'] || '').split(';')[0].trim();
+          const extension = EXTENSIONS[contentType];
+          if (!extension) {
+            sendJson(res, 415, { success: false, code: 'BAD_REQUEST', error: `Unsupported image type "${contentType}"` });
+            return;
+          }
+
+          const id = randomUUID();
+          const fileName = `${id}.${extension}`;
+          const filePath = path.join(root, fileName);
+          const file = createWriteStream(filePath);
+          let bytes = 0;
+          let rejected = false;
+
+          req.on('data', (chunk: Buffer) => {
+            bytes += chunk.length;
+            if (bytes > MAX_BYTES && !rejected) {
+              rejected = true;
+              req.unpipe(file);
+              file.destroy();
+              unlink(filePath, () => undefined);
+              sendJson(res, 413, { success: false, code: 'BAD_REQUEST', error: 'Image is larger than 5 MB' });
+            }
+          });
+          req.pipe(file);
+          file.on('finish', () => {
+            if (!rejected) sendJson(res, 201, { success: true, id, url: `${ROUTE}/${fileName}` });
+          });
+          file.on('error', (error) => {
+            if (!rejected) sendJson(res, 500, { success: false, code: 'SERVER_ERROR', error: error.message });
+          });
+          return;
+        }
+
+        if (req.method === 'GET') {
+          const fileName = path.basename(decodeURIComponent(url));
+          const filePath = path.join(root, fileName);
+          const extension = path.extname(fileName).slice(1);
+          const contentType = Object.keys(EXTENSIONS).find((type) => EXTENSIONS[type] === extension);
+          if (!contentType || !existsSync(filePath)) {
+            sendJson(res, 404, { success: false, code: 'NOT_FOUND', error: 'Image not found' });
+            return;
+          }
+          res.setHeader('Content-Type', contentType);
+          res.setHeader('Cache-Control', 'public, max-age=31536000, immutable');
+          createReadStream(filePath).pipe(res);
+          return;
+        }
+
+        if (req.method === 'DELETE') {
+          const id = path.basename(decodeURIComponent(url));
+          const files = Object.values(EXTENSIONS)
+            .map((extension) => path.join(root, `${id}.${extension}`))
+            .filter((filePath) => existsSync(filePath));
+          if (files.length === 0) {
+            sendJson(res, 404, { success: false, code: 'NOT_FOUND', error: 'Image not found' });
+            return;
+          }
+          files.forEach((filePath) => unlinkSync(filePath));
+          sendJson(res, 200, { success: true });
+          return;
+        }
+
+        next();
+      });
+    },
+  };
+}
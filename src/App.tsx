@@ -6,20 +6,43 @@ import MalikDashboard from './pages/MalikDashboard';
 import BhadotDashboard from './pages/BhadotDashboard';
 import MalikRegister from './pages/MalikRegister';
 import BhadotRegister from './pages/BhadotRegister';
+import BhadotRooms from './pages/BhadotRooms';
+import RoomDetail from './pages/RoomDetail';
+import RequireRole from './components/RequireRole';
+import { AuthProvider } from './contexts/AuthContext';
 
 function App() {
   return (
     <Router>
-      <Routes>
-        <Route path="/" element={<RoleSwitcher />} />
-        <Route path="/admin/login" element={<AdminLogin />} />
-        <Route path="/admin/dashboard" element={<AdminDashboard />} />
-        <Route path="/malik/register" element={<MalikRegister />} />
-        <Route path="/malik/dashboard/:id" element={<MalikDashboard />} />
-        <Route path="/bhadot/register" element={<BhadotRegister />} />
-        <Route path="/bhadot/dashboard/:id" element={<BhadotDashboard />} />
-        <Route path="*" element={<Navigate to="/" replace />} />
-      </Routes>
+      <AuthProvider>
+        <Routes>
+          <Route path="/" element={<RoleSwitcher />} />
+          <Route path="/admin/login" element={<AdminLogin />} />
+          <Route
+            path="/admin/dashboard"
+            element={<RequireRole role="Admin"><AdminDashboard /></RequireRole>}
+          />
+          <Route path="/malik/register" element={<MalikRegister />} />
+          <Route
+            path="/malik/dashboard/:id"
+            element={<RequireRole role="Malik" matchParam="id"><MalikDashboard /></RequireRole>}
+          />
+          <Route path="/bhadot/register" element={<BhadotRegister />} />
+          <Route
+            path="/bhadot/dashboard/:id"
+            element={<RequireRole role="Bhadot" matchParam="id"><BhadotDashboard /></RequireRole>}
+          />
+          <Route
+            path="/bhadot/dashboard/:id/rooms"
+            element={<RequireRole role="Bhadot" matchParam="id"><BhadotRooms /></RequireRole>}
+          />
+          <Route
+            path="/bhadot/dashboard/:id/rooms/:roomId"
+            element={<RequireRole role="Bhadot" matchParam="id"><RoomDetail /></RequireRole>}
+          />
+          <Route path="*" element={<Navigate to="/" replace />} />
+        </Routes>
+      </AuthProvider>
     </Router>
   );
 }
@@ -1,30 +1,12 @@
 import { useState, useEffect, useRef } from 'react';
 import { messageApi } from '../services/api';
+import type { ChatMessage, Conversation } from '../types';
 import LoadingSpinner from './LoadingSpinner';
 
-interface Message {
-    _id: string;
-    senderId: string;
-    senderRole: string;
-    content: string;
-    timestamp: string;
-    isRead: boolean;
-}
-
-interface Conversation {
-    _id: string;
-    role: string;
-    name: string;
-    contact: string;
-    unreadCount: number;
-    lastMessage: string;
-    timestamp: string;
-}
-
 export default function AdminChat() {
     const [conversations, setConversations] = useState<Conversation[]>([]);
     const [selectedUser, setSelectedUser] = useState<{ id: string; role: string } | null>(null);
-    const [messages, setMessages] = useState<Message[]>([]);
+    const [messages, setMessages] = useState<ChatMessage[]>([]);
     const [newMessage, setNewMessage] = useState('');
     const [loading, setLoading] = useState(false);
     const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -1,10 +1,14 @@
 import { useState } from 'react';
 import LoadingSpinner from './LoadingSpinner';
+import TenantPreferencesFields from './TenantPreferencesFields';
 import { useLanguage } from '../contexts/LanguageContext';
+import { fromPreferencesDraft, isBudgetRangeValid, toPreferencesDraft } from '../utils/preferences';
+import type { TenantPreferences, TenantPreferencesUpdate } from '../types';
 
 interface BhadotProfileModalProps {
   bhadotName: string;
-  onSubmit: (data: { cast: string; totalFamilyMembers: number }) => Promise<void>;
+  preferences?: TenantPreferences; // Prefilled when the tenant set some during registration
+  onSubmit: (data: { cast: string; totalFamilyMembers: number; preferences: TenantPreferencesUpdate }) => Promise<void>;
 }
 
 const CAST_OPTIONS = [
@@ -16,11 +20,12 @@ const CAST_OPTIONS = [
   'Other'
 ];
 
-export default function BhadotProfileModal({ bhadotName, onSubmit }: BhadotProfileModalProps) {
+export default function BhadotProfileModal({ bhadotName, preferences, onSubmit }: BhadotProfileModalProps) {
   const { t } = useLanguage();
   const [cast, setCast] = useState('');
   const [customCast, setCustomCast] = useState('');
   const [totalFamilyMembers, setTotalFamilyMembers] = useState('');
+  const [preferencesDraft, setPreferencesDraft] = useState(() => toPreferencesDraft(preferences));
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
 
@@ -44,12 +49,18 @@ export default function BhadotProfileModal({ bhadotName, onSubmit }: BhadotProfi
       return;
     }
 
+    if (!isBudgetRangeValid(preferencesDraft)) {
+      setError(t('invalidBudgetRange'));
+      return;
+    }
+
     setLoading(true);
     try {
       const finalCast = cast === 'Other' ? customCast.trim() : cast;
       await onSubmit({
         cast: finalCast,
-        totalFamilyMembers: parseInt(totalFamilyMembers)
+        totalFamilyMembers: parseInt(totalFamilyMembers),
+        preferences: fromPreferencesDraft(preferencesDraft)
       });
     } catch (err: any) {
       setError(err.message || 'Failed to save profile information');
@@ -64,7 +75,7 @@ export default function BhadotProfileModal({ bhadotName, onSubmit }: BhadotProfi
       onClick={(e) => e.stopPropagation()}
     >
       <div 
-        className="bg-white rounded-3xl shadow-2xl max-w-md w-full p-8 relative"
+        className="bg-white rounded-3xl shadow-2xl max-w-md w-full p-8 relative max-h-[90vh] overflow-y-auto"
         onClick={(e) => e.stopPropagation()}
       >
         <div className="text-center mb-6">
@@ -135,6 +146,11 @@ export default function BhadotProfileModal({ bhadotName, onSubmit }: BhadotProfi
             />
           </div>
 
+          <div className="border-t border-gray-200 pt-6">
+            <h3 className="text-sm font-semibold text-gray-900 mb-4">{t('lookingFor')}</h3>
+            <TenantPreferencesFields value={preferencesDraft} onChange={setPreferencesDraft} />
+          </div>
+
           {error && (
             <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-xl">
               {error}
@@ -0,0 +1,115 @@
+import { useEffect, useState } from 'react';
+import LoadingSpinner from './LoadingSpinner';
+import { bhadotApi } from '../services/api';
+import { useLanguage } from '../contexts/LanguageContext';
+import { formatSlot } from '../utils/calendar';
+import type { VisitSlot } from '../types';
+
+interface BookVisitModalProps {
+  requestId: string; // Accepted request the visit belongs to
+  currentSlotId?: string; // Set when rescheduling
+  onBook: (slotId: string) => Promise<void>;
+  onClose: () => void;
+}
+
+/** Pick one of the owner's free visit slots */
+export default function BookVisitModal({ requestId, currentSlotId, onBook, onClose }: BookVisitModalProps) {
+  const { t, tError } = useLanguage();
+  const [slots, setSlots] = useState<VisitSlot[] | null>(null); // null while loading
+  const [selected, setSelected] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    bhadotApi.getVisitSlots(requestId)
+      .then((response) => setSlots(response.data))
+      .catch((err) => {
+        setSlots([]);
+        setError(tError(err));
+      });
+  }, [requestId]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected) return;
+    setError('');
+    setLoading(true);
+    try {
+      await onBook(selected);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('errorUnknown'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const free = (slots ?? [])
+    .filter((slot) => !slot.bookedBy && slot.id !== currentSlotId && new Date(slot.start) > new Date())
+    .sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime());
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-3xl shadow-2xl max-w-lg w-full p-8 relative max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold text-gray-900">{currentSlotId ? t('rescheduleVisit') : t('bookVisit')}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-2xl leading-none">×</button>
+        </div>
+
+        {!slots ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : free.length === 0 ? (
+          <>
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-xl mb-4">
+                {error}
+              </div>
+            )}
+            <p className="text-gray-600 text-center py-8">{t('noFreeSlots')}</p>
+          </>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              {free.map((slot) => (
+                <label
+                  key={slot.id}
+                  className={`flex items-center gap-3 px-4 py-3 rounded-xl border cursor-pointer transition ${selected === slot.id ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'}`}
+                >
+                  <input
+                    type="radio"
+                    name="slot"
+                    value={slot.id}
+                    checked={selected === slot.id}
+                    onChange={() => setSelected(slot.id)}
+                  />
+                  <span className="font-medium text-gray-900">{formatSlot(slot.start, slot.end)}</span>
+                </label>
+              ))}
+            </div>
+
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-xl">
+                {error}
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={loading || !selected}
+              className="w-full bg-gradient-to-r from-blue-600 to-blue-700 text-white py-3 rounded-xl font-semibold hover:from-blue-700 hover:to-blue-800 transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+            >
+              {loading ? <LoadingSpinner size="sm" /> : t('confirmVisit')}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,19 +1,11 @@
 import { useState, useEffect, useRef } from 'react';
 import { messageApi } from '../services/api';
+import type { ChatMessage } from '../types';
 import { useLanguage } from '../contexts/LanguageContext';
 
-interface Message {
-    _id: string;
-    senderId: string;
-    senderRole: string;
-    content: string;
-    timestamp: string;
-    isRead: boolean;
-}
-
 export default function ChatWidget({ userId, role }: { userId: string; role: string }) {
     const [isOpen, setIsOpen] = useState(false);
-    const [messages, setMessages] = useState<Message[]>([]);
+    const [messages, setMessages] = useState<ChatMessage[]>([]);
     const [newMessage, setNewMessage] = useState('');
     const [unreadCount, setUnreadCount] = useState(0);
     const [loading, setLoading] = useState(false);
@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import LoadingSpinner from './LoadingSpinner';
+import { useLanguage } from '../contexts/LanguageContext';
+import type { OfferPayload, OfferTerms } from '../types';
+
+interface CounterOfferModalProps {
+  initial: OfferTerms; // Terms currently on the table, used to prefill the form
+  accent: 'green' | 'blue'; // Malik or Bhadot colours
+  onSubmit: (data: OfferPayload) => Promise<void>;
+  onClose: () => void;
+}
+
+const ACCENTS = {
+  green: {
+    ring: 'focus:ring-green-500',
+    button: 'from-green-600 to-green-700 hover:from-green-700 hover:to-green-800',
+  },
+  blue: {
+    ring: 'focus:ring-blue-500',
+    button: 'from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800',
+  },
+};
+
+/** Propose different rent, move-in date or occupant count */
+export default function CounterOfferModal({ initial, accent, onSubmit, onClose }: CounterOfferModalProps) {
+  const { t } = useLanguage();
+  const [rent, setRent] = useState(initial.rent !== undefined ? String(initial.rent) : '');
+  const [moveInDate, setMoveInDate] = useState(initial.moveInDate?.slice(0, 10) ?? '');
+  const [occupants, setOccupants] = useState(initial.occupants !== undefined ? String(initial.occupants) : '');
+  const [note, setNote] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    // Only send what differs from the current terms
+    const terms: OfferTerms = {};
+    if (rent && Number(rent) !== initial.rent) terms.rent = Number(rent);
+    if (moveInDate && moveInDate !== initial.moveInDate?.slice(0, 10)) terms.moveInDate = moveInDate;
+    if (occupants && Number(occupants) !== initial.occupants) terms.occupants = Number(occupants);
+
+    if (Object.keys(terms).length === 0) {
+      setError(t('offerNoChanges'));
+      return;
+    }
+    if ((terms.rent !== undefined && terms.rent <= 0) || (terms.occupants !== undefined && terms.occupants < 1)) {
+      setError(t('offerInvalid'));
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await onSubmit({ terms, note: note.trim() || undefined });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('errorUnknown'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const inputClass = `w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 ${ACCENTS[accent].ring} focus:border-transparent outline-none transition`;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-3xl shadow-2xl max-w-lg w-full p-8 relative max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-2xl font-bold text-gray-900">{t('counterOffer')}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-2xl leading-none">×</button>
+        </div>
+        <p className="text-gray-600 mb-6">{t('counterOfferHint')}</p>
+
+        <form onSubmit={handleSubmit} className="space-y-5">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">{t('monthlyRent')}</label>
+            <input type="number" min={1} value={rent} onChange={(e) => setRent(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">{t('moveInDate')}</label>
+            <input type="date" value={moveInDate} onChange={(e) => setMoveInDate(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">{t('occupants')}</label>
+            <input type="number" min={1} value={occupants} onChange={(e) => setOccupants(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">{t('messageOptional')}</label>
+            <textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value.slice(0, 300))}
+              rows={3}
+              className={inputClass}
+            />
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-xl">
+              {error}
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={loading}
+            className={`w-full bg-gradient-to-r ${ACCENTS[accent].button} text-white py-3 rounded-xl font-semibold transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2`}
+          >
+            {loading ? <LoadingSpinner size="sm" /> : t('sendCounterOffer')}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useEffect, useState } from 'react';
-import { dbService } from '../services/dbService';
+import { healthApi } from '../services/api';
 import LanguageSwitcher from './LanguageSwitcher';
 import { useLanguage } from '../contexts/LanguageContext';
 
@@ -7,9 +7,10 @@ interface HeaderProps {
   title: string;
   showLanguageSwitcher?: boolean;
   onLogout?: () => void;
+  actions?: React.ReactNode; // Page-specific controls shown before the language switcher (e.g. alerts)
 }
 
-export default function Header({ title, showLanguageSwitcher = true, onLogout }: HeaderProps) {
+export default function Header({ title, showLanguageSwitcher = true, onLogout, actions }: HeaderProps) {
   const { t } = useLanguage();
   const [dbStatus, setDbStatus] = useState<'connected' | 'disconnected'>('disconnected');
   const [cloudSync, setCloudSync] = useState<'synced' | 'syncing' | 'offline'>('offline');
@@ -17,7 +18,7 @@ export default function Header({ title, showLanguageSwitcher = true, onLogout }:
   useEffect(() => {
     const checkStatus = async () => {
       try {
-        const health = await dbService.checkHealth();
+        const { data: health } = await healthApi.check();
         setDbStatus(health.database === 'connected' ? 'connected' : 'disconnected');
         setCloudSync(health.database === 'connected' ? 'synced' : 'offline');
       } catch {
@@ -38,6 +39,7 @@ export default function Header({ title, showLanguageSwitcher = true, onLogout }:
         <div className="flex items-center justify-between">
           <h1 className="text-2xl font-bold text-gray-900">{title}</h1>
           <div className="flex items-center gap-4">
+            {actions}
             {showLanguageSwitcher && <LanguageSwitcher />}
             {onLogout && (
               <button
@@ -0,0 +1,54 @@
+import { useLanguage } from '../contexts/LanguageContext';
+import { ContractViolationError } from '../services/errors';
+
+interface LoadErrorStateProps {
+  error: unknown;
+  onRetry: () => void;
+  onHome?: () => void;
+}
+
+/**
+ * Full-page, recoverable error state shown when dashboard data could not be
+ * loaded or did not match the expected contract.
+ */
+export default function LoadErrorState({ error, onRetry, onHome }: LoadErrorStateProps) {
+  const { t } = useLanguage();
+  const isContractViolation = error instanceof ContractViolationError;
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <div className="bg-white rounded-3xl shadow-lg p-8 border border-gray-200 max-w-md w-full text-center">
+        <div className="w-14 h-14 rounded-full bg-red-100 text-red-600 flex items-center justify-center mx-auto mb-4">
+          <svg className="w-7 h-7" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+          </svg>
+        </div>
+        <h2 className="text-xl font-bold text-gray-900 mb-2">{t('loadFailed')}</h2>
+        <p className="text-gray-600 mb-4">
+          {isContractViolation ? t('loadFailedContract') : t('loadFailedNetwork')}
+        </p>
+        {isContractViolation && (
+          <p className="text-xs text-gray-400 font-mono mb-4 break-words">
+            {error.endpoint} · {error.field}
+          </p>
+        )}
+        <div className="flex gap-3">
+          <button
+            onClick={onRetry}
+            className="flex-1 bg-green-600 text-white rounded-xl py-3 font-semibold hover:bg-green-700 transition"
+          >
+            {t('retry')}
+          </button>
+          {onHome && (
+            <button
+              onClick={onHome}
+              className="flex-1 bg-gray-200 text-gray-700 rounded-xl py-3 font-semibold hover:bg-gray-300 transition"
+            >
+              {t('goHome')}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { useState } from 'react';
+import { useLanguage } from '../contexts/LanguageContext';
+import type { MatchFactorKey, MatchScore } from '../utils/matching';
+
+interface MatchScoreBreakdownProps {
+  score: MatchScore;
+}
+
+const FACTOR_LABELS: Record<MatchFactorKey, string> = {
+  area: 'matchFactorArea',
+  budget: 'matchFactorBudget',
+  occupancy: 'matchFactorFamily',
+  moveIn: 'matchFactorMoveIn',
+};
+
+const scoreStyle = (total: number) =>
+  total >= 75 ? 'bg-green-100 text-green-800' : total >= 50 ? 'bg-yellow-100 text-yellow-800' : 'bg-gray-100 text-gray-700';
+
+/** Match percentage badge that expands into the per-factor explanation */
+export default function MatchScoreBreakdown({ score }: MatchScoreBreakdownProps) {
+  const { t } = useLanguage();
+  const [open, setOpen] = useState(false); // Show the factor breakdown
+
+  return (
+    <div className="mt-2">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className={`px-3 py-1 rounded-full text-sm font-semibold ${scoreStyle(score.total)}`}
+      >
+        {t('matchPercent').replace('{score}', String(score.total))} {open ? '▲' : '▼'}
+      </button>
+      {open && (
+        <ul className="mt-2 space-y-1 text-sm">
+          {score.factors.map((factor) => (
+            <li key={factor.key} className="flex items-center gap-3">
+              <span className="w-24 text-gray-500 flex-shrink-0">{t(FACTOR_LABELS[factor.key])}</span>
+              <span className="w-14 font-semibold text-gray-900 flex-shrink-0">{factor.points}/{factor.max}</span>
+              <span className="text-gray-600">{t(factor.reason)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
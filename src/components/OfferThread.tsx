@@ -0,0 +1,50 @@
+import { useLanguage } from '../contexts/LanguageContext';
+import { describeTerms } from '../utils/offers';
+import type { RequestOffer } from '../types';
+
+interface OfferThreadProps {
+  offers: RequestOffer[];
+}
+
+const STATUS_STYLES: Record<RequestOffer['status'], string> = {
+  Open: 'bg-yellow-100 text-yellow-800',
+  Accepted: 'bg-green-100 text-green-800',
+  Declined: 'bg-red-100 text-red-800',
+  Countered: 'bg-gray-100 text-gray-700',
+};
+
+const STATUS_LABELS: Record<RequestOffer['status'], string> = {
+  Open: 'offerOpen',
+  Accepted: 'offerAccepted',
+  Declined: 'offerDeclined',
+  Countered: 'offerCountered',
+};
+
+/** Offers and counter-offers on a request, oldest first */
+export default function OfferThread({ offers }: OfferThreadProps) {
+  const { t } = useLanguage();
+
+  if (offers.length === 0) return null;
+
+  return (
+    <div className="mt-3 space-y-2">
+      <p className="text-xs font-semibold text-gray-500 uppercase tracking-wider">{t('negotiation')}</p>
+      {offers.map((offer) => (
+        <div
+          key={offer.id}
+          className={`rounded-xl px-4 py-3 text-sm ${offer.from === 'Bhadot' ? 'bg-blue-50' : 'bg-green-50'}`}
+        >
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-semibold text-gray-900">{t(offer.from === 'Bhadot' ? 'actorBhadot' : 'actorMalik')}</span>
+            <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${STATUS_STYLES[offer.status]}`}>
+              {t(STATUS_LABELS[offer.status])}
+            </span>
+          </div>
+          <p className="text-gray-800 mt-1">{describeTerms(offer.terms, t)}</p>
+          {offer.note && <p className="text-gray-600 italic mt-1">“{offer.note}”</p>}
+          <p className="text-xs text-gray-400 mt-1">{new Date(offer.createdAt).toLocaleString()}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
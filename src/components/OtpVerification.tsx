@@ -0,0 +1,204 @@
+/**
+ * OtpVerification Component
+ *
+ * Phone verification step shared by Malik and Bhadot login/registration:
+ * - Requests a one-time code on mount (WhatsApp or SMS)
+ * - Verifies the 6-digit code and hands a verification token to the parent
+ * - Resend with server-driven cooldown
+ * - Shows remaining attempts; locks input once the server's limit is hit
+ */
+import { useEffect, useRef, useState } from 'react';
+import LoadingSpinner from './LoadingSpinner';
+import { authApi } from '../services/api';
+import { ApiError } from '../services/errors';
+import { useLanguage } from '../contexts/LanguageContext';
+import type { OtpChannel } from '../types';
+
+interface OtpVerificationProps {
+  phone: string;
+  role: 'Malik' | 'Bhadot';
+  defaultChannel?: OtpChannel;
+  onVerified: (verificationToken: string) => void | Promise<void>;
+  onBack: () => void;
+}
+
+const OTP_LENGTH = 6;
+
+export default function OtpVerification({ phone, role, defaultChannel = 'sms', onVerified, onBack }: OtpVerificationProps) {
+  const { t, tError } = useLanguage();
+  const accent = role === 'Malik' ? 'green' : 'blue';
+
+  const [channel, setChannel] = useState<OtpChannel>(defaultChannel);
+  const [code, setCode] = useState('');
+  const [sending, setSending] = useState(false);
+  const [verifying, setVerifying] = useState(false);
+  const [error, setError] = useState('');
+  const [attemptsRemaining, setAttemptsRemaining] = useState<number | null>(null);
+  const [resendAt, setResendAt] = useState<number>(0); // Epoch ms when resend becomes available
+  const [expiresAt, setExpiresAt] = useState<number>(0); // Epoch ms when the current code expires
+  const [now, setNow] = useState(Date.now());
+  const initialCodeSent = useRef(false); // Guards against StrictMode's double effect run
+
+  // Send the first code as soon as the step opens
+  useEffect(() => {
+    if (initialCodeSent.current) return;
+    initialCodeSent.current = true;
+    sendCode(defaultChannel);
+  }, []);
+
+  // Tick every second for the resend and expiry countdowns
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const sendCode = async (via: OtpChannel) => {
+    setSending(true);
+    setError('');
+    setCode('');
+    try {
+      const response = await authApi.requestOtp({ phone, role, channel: via });
+      const sentAt = Date.now();
+      setResendAt(sentAt + response.data.resendAfterSeconds * 1000);
+      setExpiresAt(sentAt + response.data.expiresInSeconds * 1000);
+      setAttemptsRemaining(response.data.attemptsRemaining);
+      setNow(sentAt);
+    } catch (err) {
+      const apiError = ApiError.from(err);
+      if (apiError.details.retryAfterSeconds) {
+        setResendAt(Date.now() + apiError.details.retryAfterSeconds * 1000);
+      }
+      setError(tError(apiError));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (code.length !== OTP_LENGTH) return;
+    setVerifying(true);
+    setError('');
+    try {
+      const response = await authApi.verifyOtp({ phone, role, code });
+      await onVerified(response.data.verificationToken);
+    } catch (err) {
+      const apiError = ApiError.from(err);
+      if (apiError.details.attemptsRemaining !== undefined) {
+        setAttemptsRemaining(apiError.details.attemptsRemaining);
+      }
+      if (apiError.code === 'OTP_ATTEMPTS_EXCEEDED' || apiError.code === 'OTP_EXPIRED') {
+        setAttemptsRemaining(0);
+      }
+      setCode('');
+      setError(tError(apiError));
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const resendSeconds = Math.max(0, Math.ceil((resendAt - now) / 1000));
+  const expirySeconds = Math.max(0, Math.ceil((expiresAt - now) / 1000));
+  const locked = attemptsRemaining === 0 || (expiresAt > 0 && expirySeconds === 0);
+
+  const channelButton = (value: OtpChannel) => (
+    <button
+      type="button"
+      onClick={() => setChannel(value)}
+      className={`flex-1 py-2 rounded-lg text-sm font-semibold transition ${channel === value
+        ? accent === 'green' ? 'bg-green-600 text-white' : 'bg-blue-600 text-white'
+        : 'text-gray-600 hover:bg-gray-100'
+        }`}
+    >
+      {t(value)}
+    </button>
+  );
+
+  return (
+    <form onSubmit={handleVerify} className="space-y-6">
+      <div className="text-center">
+        <h2 className="text-xl font-bold text-gray-900 mb-1">{t('verifyYourNumber')}</h2>
+        <p className="text-sm text-gray-600">{t('otpSentTo').replace('{phone}', phone)}</p>
+      </div>
+
+      <div>
+        <input
+          type="text"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          value={code}
+          onChange={(e) => {
+            setCode(e.target.value.replace(/\D/g, '').slice(0, OTP_LENGTH));
+            setError('');
+          }}
+          disabled={locked || sending}
+          className={`w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 ${accent === 'green' ? 'focus:ring-green-500' : 'focus:ring-blue-500'} focus:border-transparent outline-none transition text-2xl tracking-[0.5em] text-center disabled:bg-gray-50`}
+          placeholder={t('enterOtp')}
+          maxLength={OTP_LENGTH}
+          autoFocus
+        />
+        <div className="flex justify-between mt-2 text-xs text-gray-500">
+          <span>
+            {attemptsRemaining !== null && attemptsRemaining > 0 && t('attemptsLeft').replace('{count}', String(attemptsRemaining))}
+          </span>
+          <span>
+            {expirySeconds > 0 && t('codeExpiresIn').replace('{time}', `${Math.floor(expirySeconds / 60)}:${String(expirySeconds % 60).padStart(2, '0')}`)}
+          </span>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-xl">
+          {error}
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={verifying || sending || locked || code.length !== OTP_LENGTH}
+        className={`w-full bg-gradient-to-r ${accent === 'green'
+          ? 'from-green-600 to-green-700 hover:from-green-700 hover:to-green-800'
+          : 'from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800'
+          } text-white py-3 rounded-xl font-semibold transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2`}
+      >
+        {verifying ? (
+          <>
+            <LoadingSpinner size="sm" />
+            <span>{t('verifying')}</span>
+          </>
+        ) : (
+          t('verify')
+        )}
+      </button>
+
+      {/* Resend with channel choice */}
+      <div className="bg-gray-50 rounded-xl p-3 space-y-2">
+        <div className="text-xs font-medium text-gray-500 text-center">{t('sendCodeVia')}</div>
+        <div className="flex gap-2 bg-white rounded-lg p-1 border border-gray-200">
+          {channelButton('whatsapp')}
+          {channelButton('sms')}
+        </div>
+        <button
+          type="button"
+          onClick={() => sendCode(channel)}
+          disabled={sending || resendSeconds > 0}
+          className={`w-full text-sm font-semibold py-2 ${accent === 'green' ? 'text-green-700 hover:text-green-900' : 'text-blue-700 hover:text-blue-900'} disabled:text-gray-400 disabled:cursor-not-allowed transition`}
+        >
+          {sending
+            ? t('sendingCode')
+            : resendSeconds > 0
+              ? t('resendIn').replace('{seconds}', String(resendSeconds))
+              : t('resendCode')}
+        </button>
+      </div>
+
+      <button
+        type="button"
+        onClick={onBack}
+        className="w-full text-gray-600 hover:text-gray-900 transition"
+      >
+        ← {t('changeNumber')}
+      </button>
+    </form>
+  );
+}
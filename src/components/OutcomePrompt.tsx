@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import LoadingSpinner from './LoadingSpinner';
+import { useLanguage } from '../contexts/LanguageContext';
+import type { OutcomeReason, RequestOutcomePayload } from '../types';
+
+interface OutcomePromptProps {
+  question: string; // e.g. "Did Ramesh move in?"
+  accent: 'green' | 'blue'; // Malik or Bhadot colours
+  onSubmit: (data: RequestOutcomePayload) => Promise<void>;
+}
+
+const REASONS: { value: OutcomeReason; key: string }[] = [
+  { value: 'RentTooHigh', key: 'reasonRentTooHigh' },
+  { value: 'RoomNotAsDescribed', key: 'reasonRoomNotAsDescribed' },
+  { value: 'FoundAnother', key: 'reasonFoundAnother' },
+  { value: 'NoResponse', key: 'reasonNoResponse' },
+  { value: 'Other', key: 'reasonOther' },
+];
+
+/** Ask one side whether an accepted contact became a tenancy */
+export default function OutcomePrompt({ question, accent, onSubmit }: OutcomePromptProps) {
+  const { t } = useLanguage();
+  const [showReasons, setShowReasons] = useState(false); // "Didn't work out" picked, asking why
+  const [reason, setReason] = useState<OutcomeReason | ''>('');
+  const [note, setNote] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const submit = async (data: RequestOutcomePayload) => {
+    setError('');
+    setLoading(true);
+    try {
+      await onSubmit(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('errorUnknown'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const primary = accent === 'green' ? 'bg-green-600 hover:bg-green-700' : 'bg-blue-600 hover:bg-blue-700';
+
+  return (
+    <div className="mt-3 rounded-2xl border border-amber-200 bg-amber-50 p-4">
+      <p className="font-semibold text-gray-900 mb-3">{question}</p>
+      {!showReasons ? (
+        <div className="flex gap-3">
+          <button
+            onClick={() => submit({ result: 'MovedIn' })}
+            disabled={loading}
+            className={`flex-1 ${primary} text-white rounded-xl py-2 font-semibold transition disabled:opacity-50 flex items-center justify-center`}
+          >
+            {loading ? <LoadingSpinner size="sm" /> : t('outcomeMovedIn')}
+          </button>
+          <button
+            onClick={() => setShowReasons(true)}
+            disabled={loading}
+            className="flex-1 bg-white border border-gray-300 text-gray-700 rounded-xl py-2 font-semibold hover:bg-gray-50 transition disabled:opacity-50"
+          >
+            {t('outcomeDidNotWork')}
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <select
+            value={reason}
+            onChange={(e) => setReason(e.target.value as OutcomeReason | '')}
+            className="w-full px-4 py-2 border border-gray-300 rounded-xl bg-white outline-none"
+          >
+            <option value="">{t('outcomePickReason')}</option>
+            {REASONS.map(({ value, key }) => (
+              <option key={value} value={value}>{t(key)}</option>
+            ))}
+          </select>
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value.slice(0, 300))}
+            rows={2}
+            placeholder={t('outcomeNotePlaceholder')}
+            className="w-full px-4 py-2 border border-gray-300 rounded-xl bg-white outline-none"
+          />
+          <div className="flex gap-3">
+            <button
+              onClick={() => submit({ result: 'DidNotWork', reason: reason || undefined, note: note.trim() || undefined })}
+              disabled={loading || !reason}
+              className={`flex-1 ${primary} text-white rounded-xl py-2 font-semibold transition disabled:opacity-50 flex items-center justify-center`}
+            >
+              {loading ? <LoadingSpinner size="sm" /> : t('submit')}
+            </button>
+            <button
+              onClick={() => setShowReasons(false)}
+              disabled={loading}
+              className="px-4 text-gray-600 hover:text-gray-900 transition"
+            >
+              {t('back')}
+            </button>
+          </div>
+        </div>
+      )}
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface PaginationProps {
+  page: number;
+  totalPages: number;
+  onChange: (page: number) => void;
+}
+
+export default function Pagination({ page, totalPages, onChange }: PaginationProps) {
+  const { t } = useLanguage();
+
+  if (totalPages <= 1) return null;
+
+  return (
+    <div className="flex items-center justify-center gap-4 mt-8">
+      <button
+        onClick={() => onChange(page - 1)}
+        disabled={page <= 1}
+        className="px-4 py-2 rounded-xl bg-white border border-gray-200 font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
+      >
+        ← {t('previous')}
+      </button>
+      <span className="text-sm text-gray-600">
+        {t('pageOf').replace('{page}', String(page)).replace('{total}', String(totalPages))}
+      </span>
+      <button
+        onClick={() => onChange(page + 1)}
+        disabled={page >= totalPages}
+        className="px-4 py-2 rounded-xl bg-white border border-gray-200 font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
+      >
+        {t('next')} →
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import LoadingSpinner from './LoadingSpinner';
+import { useLanguage } from '../contexts/LanguageContext';
+import { formatMonth, type LedgerMonth } from '../utils/ledger';
+import { formatRupees } from '../utils/rooms';
+import { toLocalDateString } from '../utils/time';
+import type { RentPayment, RentPaymentPayload } from '../types';
+
+interface RecordPaymentModalProps {
+  tenantName: string;
+  months: LedgerMonth[]; // Ledger rows; unpaid ones are offered first
+  onSubmit: (data: RentPaymentPayload) => Promise<void>;
+  onClose: () => void;
+}
+
+/** Note down rent received in cash or over UPI */
+export default function RecordPaymentModal({ tenantName, months, onSubmit, onClose }: RecordPaymentModalProps) {
+  const { t } = useLanguage();
+  const unpaid = months.filter((row) => row.balance > 0);
+  const [month, setMonth] = useState(unpaid[0]?.month ?? months[months.length - 1]?.month ?? ''); // Month the payment counts towards
+  const [amount, setAmount] = useState(unpaid[0] ? String(unpaid[0].balance) : '');
+  const [method, setMethod] = useState<RentPayment['method']>('Cash');
+  const [reference, setReference] = useState(''); // UPI transaction ID
+  const [paidOn, setPaidOn] = useState(toLocalDateString());
+  const [note, setNote] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const handlePickMonth = (value: string) => {
+    setMonth(value);
+    const row = months.find((r) => r.month === value);
+    if (row && row.balance > 0) setAmount(String(row.balance));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!month || !(Number(amount) > 0)) {
+      setError(t('paymentInvalid'));
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await onSubmit({
+        month,
+        amount: Number(amount),
+        method,
+        paidOn,
+        reference: method === 'UPI' ? reference.trim() || undefined : undefined,
+        note: note.trim() || undefined,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('errorUnknown'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const inputClass = 'w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent outline-none transition';
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-3xl shadow-2xl max-w-lg w-full p-8 relative max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-2xl font-bold text-gray-900">{t('recordPayment')}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-2xl leading-none">×</button>
+        </div>
+        <p className="text-gray-600 mb-6">{t('recordPaymentFrom').replace('{name}', tenantName)}</p>
+
+        <form onSubmit={handleSubmit} className="space-y-5">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">{t('rentForMonth')}</label>
+            <select value={month} onChange={(e) => handlePickMonth(e.target.value)} className={inputClass}>
+              {months.map((row) => (
+                <option key={row.month} value={row.month}>
+                  {formatMonth(row.month)}
+                  {row.balance > 0 ? ` · ${t('balanceDue').replace('{amount}', formatRupees(row.balance))}` : ` · ${t('ledgerPaid')}`}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">{t('amount')}</label>
+              <input type="number" min={1} value={amount} onChange={(e) => setAmount(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">{t('paidOn')}</label>
+              <input type="date" value={paidOn} onChange={(e) => setPaidOn(e.target.value)} className={inputClass} required />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">{t('paymentMethod')}</label>
+            <div className="flex gap-3">
+              {(['Cash', 'UPI'] as const).map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setMethod(option)}
+                  className={`flex-1 py-2 rounded-xl font-semibold border transition ${method === option
+                    ? 'bg-green-600 text-white border-green-600'
+                    : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                    }`}
+                >
+                  {option === 'Cash' ? t('cash') : 'UPI'}
+                </button>
+              ))}
+            </div>
+          </div>
+          {method === 'UPI' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">{t('upiReferenceOptional')}</label>
+              <input type="text" value={reference} onChange={(e) => setReference(e.target.value)} className={inputClass} />
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">{t('noteOptional')}</label>
+            <input type="text" maxLength={200} value={note} onChange={(e) => setNote(e.target.value)} className={inputClass} />
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-xl">
+              {error}
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={loading}
+            className="w-full bg-gradient-to-r from-green-600 to-green-700 text-white py-3 rounded-xl font-semibold hover:from-green-700 hover:to-green-800 transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+          >
+            {loading ? <LoadingSpinner size="sm" /> : t('recordPayment')}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import { useState } from 'react';
+import { useLanguage } from '../contexts/LanguageContext';
+import { downloadStatementCsv, formatMonth, ledgerMonths, summarizeLedger, type LedgerMonthStatus } from '../utils/ledger';
+import { formatRupees } from '../utils/rooms';
+import { parseLocalDate } from '../utils/time';
+import type { TenancyStatement } from '../types';
+
+interface RentLedgerProps {
+  statement: TenancyStatement;
+  viewer: 'Malik' | 'Bhadot';
+  defaultOpen?: boolean;
+  onRecordPayment?: () => void; // Omitted for the tenant's read-only view
+  onEnd?: () => void;
+}
+
+const STATUS_STYLES: Record<LedgerMonthStatus, string> = {
+  Paid: 'bg-green-100 text-green-800',
+  Overdue: 'bg-red-100 text-red-700',
+  Upcoming: 'bg-gray-100 text-gray-700',
+};
+
+const STATUS_KEYS: Record<LedgerMonthStatus, string> = {
+  Paid: 'ledgerPaid',
+  Overdue: 'ledgerOverdue',
+  Upcoming: 'ledgerUpcoming',
+};
+
+/** A tenancy's month-by-month rent, payments and dues; doubles as the tenant's statement */
+export default function RentLedger({ statement, viewer, defaultOpen = false, onRecordPayment, onEnd }: RentLedgerProps) {
+  const { t } = useLanguage();
+  const [open, setOpen] = useState(defaultOpen); // Month table shown
+  const { tenancy, payments } = statement;
+  const months = ledgerMonths(tenancy, payments);
+  const summary = summarizeLedger(months);
+  const otherName = viewer === 'Malik' ? tenancy.bhadotName : tenancy.malikName;
+
+  const handleDownload = () => {
+    downloadStatementCsv(tenancy, months, [
+      t('rentForMonth'),
+      t('monthlyRent'),
+      t('amount'),
+      t('paymentMethod'),
+      t('paidOn'),
+      t('upiReference'),
+      t('status'),
+    ]);
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-2xl p-4">
+      <div className="flex items-start justify-between gap-4 flex-wrap">
+        <div>
+          <div className="flex items-center gap-2 flex-wrap">
+            <h4 className="font-bold text-gray-900 text-lg">{otherName || tenancy.roomTitle}</h4>
+            {tenancy.status === 'Ended' && (
+              <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-700 text-xs font-semibold">{t('tenancyEnded')}</span>
+            )}
+            {summary.overdueMonths > 0 && (
+              <span className="px-2 py-0.5 rounded-full bg-red-100 text-red-700 text-xs font-semibold">
+                {t('overdueMonths').replace('{count}', String(summary.overdueMonths))}
+              </span>
+            )}
+          </div>
+          <p className="text-sm text-gray-600 mt-1">
+            {[tenancy.roomTitle, viewer === 'Malik' ? tenancy.bhadotMobile : undefined].filter(Boolean).join(' · ')}
+          </p>
+          <p className="text-sm text-gray-600">
+            {formatRupees(tenancy.monthlyRent)}{t('perMonth')}
+            {' · '}
+            {t('dueOnDay').replace('{day}', String(tenancy.dueDay))}
+            {' · '}
+            {t('deposit')}: {formatRupees(tenancy.deposit)}
+          </p>
+          <p className="text-xs text-gray-400 mt-1">
+            {t('tenancySince').replace('{date}', parseLocalDate(tenancy.startDate).toLocaleDateString())}
+            {tenancy.endDate && ` – ${parseLocalDate(tenancy.endDate).toLocaleDateString()}`}
+          </p>
+        </div>
+        <div className="flex flex-col items-end gap-2 text-sm font-semibold">
+          {onRecordPayment && tenancy.status === 'Active' && (
+            <button
+              onClick={onRecordPayment}
+              className="px-4 py-1.5 rounded-xl text-white bg-green-600 hover:bg-green-700 transition"
+            >
+              {t('recordPayment')}
+            </button>
+          )}
+          <button onClick={handleDownload} className="text-gray-700 hover:text-gray-900">
+            ⬇ {t('downloadStatement')}
+          </button>
+          {onEnd && tenancy.status === 'Active' && (
+            <button onClick={onEnd} className="text-red-600 hover:text-red-800">
+              {t('endTenancy')}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 mt-4">
+        <div className="rounded-xl bg-gray-50 p-3">
+          <p className="text-xs text-gray-500">{t('totalPaid')}</p>
+          <p className="font-bold text-gray-900">{formatRupees(summary.totalPaid)}</p>
+        </div>
+        <div className={`rounded-xl p-3 ${summary.outstanding > 0 ? 'bg-red-50' : 'bg-gray-50'}`}>
+          <p className="text-xs text-gray-500">{t('outstanding')}</p>
+          <p className={`font-bold ${summary.outstanding > 0 ? 'text-red-700' : 'text-gray-900'}`}>{formatRupees(summary.outstanding)}</p>
+        </div>
+        <div className="rounded-xl bg-gray-50 p-3">
+          <p className="text-xs text-gray-500">{t('nextDue')}</p>
+          <p className="font-bold text-gray-900">
+            {summary.nextDue ? `${formatRupees(summary.nextDue.balance)} · ${summary.nextDue.dueDate.toLocaleDateString()}` : '—'}
+          </p>
+        </div>
+      </div>
+
+      {summary.credit > 0 && (
+        <p className="text-sm text-green-700 mt-3">
+          {t('creditCarried').replace('{amount}', formatRupees(summary.credit))}
+        </p>
+      )}
+
+      <button
+        onClick={() => setOpen(!open)}
+        className={`mt-3 text-sm font-semibold ${viewer === 'Malik' ? 'text-green-700 hover:text-green-900' : 'text-blue-700 hover:text-blue-900'}`}
+      >
+        {open ? t('hideLedger') : t('showLedger')}
+      </button>
+
+      {open && (
+        <div className="mt-3 divide-y divide-gray-100">
+          {months.length === 0 && <p className="text-sm text-gray-500 py-2">{t('ledgerEmpty')}</p>}
+          {[...months].reverse().map((row) => (
+            <div key={row.month} className="py-2">
+              <div className="flex items-center justify-between gap-3">
+                <div>
+                  <p className="font-medium text-gray-900">{formatMonth(row.month)}</p>
+                  <p className="text-xs text-gray-500">{t('dueBy').replace('{date}', row.dueDate.toLocaleDateString())}</p>
+                </div>
+                <div className="text-right">
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${STATUS_STYLES[row.status]}`}>
+                    {t(STATUS_KEYS[row.status])}
+                  </span>
+                  <p className="text-sm text-gray-700 mt-1">
+                    {formatRupees(row.paid)} / {formatRupees(row.rent)}
+                  </p>
+                </div>
+              </div>
+              {row.carriedIn > 0 && (
+                <p className="text-xs text-green-700 mt-1 pl-3">
+                  {t('creditApplied').replace('{amount}', formatRupees(Math.min(row.carriedIn, row.rent)))}
+                </p>
+              )}
+              {row.payments.map((payment) => (
+                <p key={payment.id} className="text-xs text-gray-500 mt-1 pl-3">
+                  {parseLocalDate(payment.paidOn).toLocaleDateString()} · {formatRupees(payment.amount)} · {payment.method === 'Cash' ? t('cash') : 'UPI'}
+                  {payment.reference && ` · ${payment.reference}`}
+                  {payment.note && ` · ${payment.note}`}
+                </p>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
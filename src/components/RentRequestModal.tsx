@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import LoadingSpinner from './LoadingSpinner';
+import { useLanguage } from '../contexts/LanguageContext';
+import { formatRupees } from '../utils/rooms';
+import type { Room } from '../types';
+
+interface RentRequestModalProps {
+  bhadotName: string;
+  malikName: string;
+  rooms: Room[]; // Listings the request can be linked to
+  onSubmit: (data: { message?: string; roomId?: string }) => Promise<void>;
+  onClose: () => void;
+}
+
+// Translation keys of the message templates; {tenant}, {malik} and {room} are filled in
+const TEMPLATES = [
+  { labelKey: 'templateIntroLabel', textKey: 'templateIntro' },
+  { labelKey: 'templateRoomLabel', textKey: 'templateRoom' },
+  { labelKey: 'templateVisitLabel', textKey: 'templateVisit' },
+];
+
+const MAX_MESSAGE_LENGTH = 300;
+
+/** Compose a rental request: optional personal message and linked room */
+export default function RentRequestModal({ bhadotName, malikName, rooms, onSubmit, onClose }: RentRequestModalProps) {
+  const { t } = useLanguage();
+  const [roomId, setRoomId] = useState(''); // Linked room, empty for none
+  const [message, setMessage] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const linkedRoom = rooms.find((room) => room.id === roomId);
+
+  const applyTemplate = (textKey: string) => {
+    setMessage(
+      t(textKey)
+        .replace('{tenant}', bhadotName)
+        .replace('{malik}', malikName)
+        .replace('{room}', linkedRoom ? linkedRoom.title : t('aRoom'))
+        .slice(0, MAX_MESSAGE_LENGTH)
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+    try {
+      await onSubmit({ message: message.trim() || undefined, roomId: roomId || undefined });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('errorUnknown'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const inputClass = 'w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent outline-none transition';
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-3xl shadow-2xl max-w-lg w-full p-8 relative max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-2xl font-bold text-gray-900">{t('sendRequest')}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-2xl leading-none">×</button>
+        </div>
+        <p className="text-gray-600 mb-6">{t('requestTo').replace('{name}', bhadotName)}</p>
+
+        <form onSubmit={handleSubmit} className="space-y-5">
+          {rooms.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">{t('linkRoomOptional')}</label>
+              <select value={roomId} onChange={(e) => setRoomId(e.target.value)} className={inputClass}>
+                <option value="">{t('noRoomLinked')}</option>
+                {rooms.map((room) => (
+                  <option key={room.id} value={room.id}>
+                    {room.title} · {room.area} · {formatRupees(room.rent)}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-medium text-gray-700">{t('messageOptional')}</label>
+              <span className="text-xs text-gray-400">{message.length}/{MAX_MESSAGE_LENGTH}</span>
+            </div>
+            <div className="flex flex-wrap gap-2 mb-2">
+              {TEMPLATES.map((template) => (
+                <button
+                  key={template.textKey}
+                  type="button"
+                  onClick={() => applyTemplate(template.textKey)}
+                  className="px-3 py-1 rounded-full text-xs font-medium border border-gray-300 text-gray-700 hover:bg-gray-50 transition"
+                >
+                  {t(template.labelKey)}
+                </button>
+              ))}
+            </div>
+            <textarea
+              value={message}
+              onChange={(e) => setMessage(e.target.value.slice(0, MAX_MESSAGE_LENGTH))}
+              className={inputClass}
+              rows={4}
+              placeholder={t('messagePlaceholder')}
+            />
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-xl">
+              {error}
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={loading}
+            className="w-full bg-gradient-to-r from-green-600 to-green-700 text-white py-3 rounded-xl font-semibold hover:from-green-700 hover:to-green-800 transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+          >
+            {loading ? <LoadingSpinner size="sm" /> : t('sendRequest')}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
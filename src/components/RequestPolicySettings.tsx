@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import LoadingSpinner from './LoadingSpinner';
+import type { RequestPolicy } from '../types';
+
+interface RequestPolicySettingsProps {
+  policy: RequestPolicy;
+  onSave: (policy: RequestPolicy) => Promise<void>;
+}
+
+const FIELDS: { key: keyof RequestPolicy; label: string; hint: string; unit: string }[] = [
+  { key: 'maxPending', label: 'Max pending requests', hint: 'Pending requests a Malik can have open at once', unit: 'requests' },
+  { key: 'pendingWindowHours', label: 'Pending window', hint: 'How long a pending request counts towards the limit', unit: 'hours' },
+  { key: 'tenantCooldownHours', label: 'Per-tenant cooldown', hint: 'Wait before a Malik can contact the same tenant again', unit: 'hours' },
+  { key: 'acceptedExpiryDays', label: 'Accepted request expiry', hint: 'Days after acceptance before the tenant profile goes inactive', unit: 'days' },
+  { key: 'nudgeAfterHours', label: 'Reminder after', hint: 'How long a request must stay unseen before the Malik can send one reminder', unit: 'hours' },
+  { key: 'maxInterestsPerDay', label: 'Tenant interests per day', hint: 'Interest requests a tenant can send to owners in any 24 hours', unit: 'requests' },
+];
+
+/** Admin form for the request-limit policy */
+export default function RequestPolicySettings({ policy, onSave }: RequestPolicySettingsProps) {
+  const [form, setForm] = useState<Record<keyof RequestPolicy, string>>({
+    maxPending: String(policy.maxPending),
+    pendingWindowHours: String(policy.pendingWindowHours),
+    tenantCooldownHours: String(policy.tenantCooldownHours),
+    acceptedExpiryDays: String(policy.acceptedExpiryDays),
+    nudgeAfterHours: String(policy.nudgeAfterHours),
+    maxInterestsPerDay: String(policy.maxInterestsPerDay),
+  }); // Raw input values
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const invalid = FIELDS.find(({ key }) => !/^\d+$/.test(form[key].trim()) || Number(form[key]) < 1);
+    if (invalid) {
+      setError(`${invalid.label} must be a whole number of at least 1`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSave({
+        maxPending: Number(form.maxPending),
+        pendingWindowHours: Number(form.pendingWindowHours),
+        tenantCooldownHours: Number(form.tenantCooldownHours),
+        acceptedExpiryDays: Number(form.acceptedExpiryDays),
+        nudgeAfterHours: Number(form.nudgeAfterHours),
+        maxInterestsPerDay: Number(form.maxInterestsPerDay),
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-3xl shadow-lg p-6 border border-gray-200 max-w-2xl">
+      <h2 className="text-2xl font-bold text-gray-900 mb-1">Request Limits</h2>
+      <p className="text-sm text-gray-500 mb-6">
+        Changes apply to new requests right away; requests already sent keep their original timing.
+      </p>
+
+      <div className="space-y-5">
+        {FIELDS.map(({ key, label, hint, unit }) => (
+          <div key={key}>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+            <div className="flex items-center gap-3">
+              <input
+                type="number"
+                min={1}
+                step={1}
+                value={form[key]}
+                onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+                className="w-32 px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none transition"
+              />
+              <span className="text-sm text-gray-500">{unit}</span>
+            </div>
+            <p className="text-xs text-gray-400 mt-1">{hint}</p>
+          </div>
+        ))}
+      </div>
+
+      {error && (
+        <div className="mt-5 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-xl">
+          {error}
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={saving}
+        className="mt-6 px-6 py-3 bg-purple-600 text-white rounded-xl font-semibold hover:bg-purple-700 transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+      >
+        {saving ? <LoadingSpinner size="sm" /> : 'Save Settings'}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,72 @@
+import { useState } from 'react';
+import { useLanguage } from '../contexts/LanguageContext';
+import { requestHistory } from '../utils/requestHistory';
+import type { RentRequest, RequestEvent } from '../types';
+
+interface RequestTimelineProps {
+  request: Pick<RentRequest, 'timestamp' | 'initiatedBy' | 'withdrawnAt' | 'history'>;
+  defaultOpen?: boolean;
+}
+
+const EVENT_LABELS: Record<RequestEvent['type'], string> = {
+  Created: 'eventCreated',
+  Viewed: 'eventViewed',
+  Nudged: 'eventNudged',
+  Countered: 'eventCountered',
+  Accepted: 'eventAccepted',
+  Rejected: 'eventRejected',
+  Expired: 'eventExpired',
+  Withdrawn: 'eventWithdrawn',
+};
+
+const EVENT_DOTS: Record<RequestEvent['type'], string> = {
+  Created: 'bg-blue-500',
+  Viewed: 'bg-indigo-400',
+  Nudged: 'bg-yellow-400',
+  Countered: 'bg-purple-500',
+  Accepted: 'bg-green-500',
+  Rejected: 'bg-red-500',
+  Expired: 'bg-gray-400',
+  Withdrawn: 'bg-gray-400',
+};
+
+const ACTOR_LABELS: Record<RequestEvent['actor'], string> = {
+  Malik: 'actorMalik',
+  Bhadot: 'actorBhadot',
+  Admin: 'admin',
+  System: 'actorSystem',
+};
+
+/** Collapsible status history of a rental request */
+export default function RequestTimeline({ request, defaultOpen = false }: RequestTimelineProps) {
+  const { t } = useLanguage();
+  const [open, setOpen] = useState(defaultOpen); // Show the event list
+  const events = requestHistory(request);
+
+  return (
+    <div className="mt-2">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="text-xs font-semibold text-gray-500 hover:text-gray-800 transition"
+      >
+        {t(open ? 'hideHistory' : 'showHistory').replace('{count}', String(events.length))} {open ? '▲' : '▼'}
+      </button>
+      {open && (
+        <ol className="mt-2 ml-1 border-l-2 border-gray-200 space-y-3">
+          {events.map((event, index) => (
+            <li key={`${event.type}-${index}`} className="relative pl-4">
+              <span className={`absolute -left-[5px] top-1.5 w-2 h-2 rounded-full ${EVENT_DOTS[event.type]}`} />
+              <p className="text-sm font-medium text-gray-900">{t(EVENT_LABELS[event.type])}</p>
+              <p className="text-xs text-gray-500">
+                {new Date(event.at).toLocaleString()} · {event.actor === 'System'
+                  ? t('actorSystem')
+                  : t('eventBy').replace('{name}', event.actorName || t(ACTOR_LABELS[event.actor]))}
+              </p>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { ReactNode } from 'react';
+import { Navigate, useLocation, useNavigate, useParams } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { LOGIN_PATHS, dashboardPath, type SessionRole } from '../services/session';
+
+interface RequireRoleProps {
+  role: SessionRole;
+  /** Route param that must equal the session's user id (e.g. "id") */
+  matchParam?: string;
+  children: ReactNode;
+}
+
+/**
+ * Route guard: renders children only for a signed-in user of the given role.
+ * Without a session (or with another role's session) it redirects to that
+ * role's login page; when the URL id belongs to someone else it refuses to
+ * render the page at all.
+ */
+export default function RequireRole({ role, matchParam, children }: RequireRoleProps) {
+  const { session } = useAuth();
+  const { t } = useLanguage();
+  const params = useParams();
+  const location = useLocation();
+  const navigate = useNavigate();
+
+  if (!session || session.role !== role) {
+    return <Navigate to={LOGIN_PATHS[role]} replace state={{ from: location.pathname }} />;
+  }
+
+  if (matchParam && params[matchParam] !== session.id) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+        <div className="bg-white rounded-3xl shadow-lg p-8 border border-gray-200 max-w-md w-full text-center">
+          <div className="w-14 h-14 rounded-full bg-red-100 text-red-600 flex items-center justify-center mx-auto mb-4">
+            <svg className="w-7 h-7" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+            </svg>
+          </div>
+          <h2 className="text-xl font-bold text-gray-900 mb-2">{t('accessDenied')}</h2>
+          <p className="text-gray-600 mb-6">{t('accessDeniedMessage')}</p>
+          <div className="flex gap-3">
+            <button
+              onClick={() => navigate(dashboardPath(session), { replace: true })}
+              className="flex-1 bg-green-600 text-white rounded-xl py-3 font-semibold hover:bg-green-700 transition"
+            >
+              {t('goToMyDashboard')}
+            </button>
+            <button
+              onClick={() => navigate('/')}
+              className="flex-1 bg-gray-200 text-gray-700 rounded-xl py-3 font-semibold hover:bg-gray-300 transition"
+            >
+              {t('goHome')}
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+}
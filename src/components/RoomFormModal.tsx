@@ -0,0 +1,236 @@
+import { useState } from 'react';
+import LoadingSpinner from './LoadingSpinner';
+import { useLanguage } from '../contexts/LanguageContext';
+import { AMENITIES, ROOM_TYPES } from '../utils/rooms';
+import type { Room, RoomPayload, RoomType } from '../types';
+
+interface RoomFormModalProps {
+  room?: Room; // Listing being edited; omitted when creating a new one
+  defaultAddress?: string;
+  onSubmit: (data: RoomPayload) => Promise<void>;
+  onClose: () => void;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export default function RoomFormModal({ room, defaultAddress = '', onSubmit, onClose }: RoomFormModalProps) {
+  const { t } = useLanguage();
+  const [title, setTitle] = useState(room?.title ?? '');
+  const [area, setArea] = useState(room?.area ?? '');
+  const [address, setAddress] = useState(room?.address ?? defaultAddress);
+  const [roomType, setRoomType] = useState<RoomType>(room?.roomType ?? '1RK');
+  const [rent, setRent] = useState(room ? String(room.rent) : '');
+  const [deposit, setDeposit] = useState(room ? String(room.deposit) : '');
+  const [maxOccupants, setMaxOccupants] = useState(room ? String(room.maxOccupants) : '');
+  const [availableFrom, setAvailableFrom] = useState(room?.availableFrom.slice(0, 10) ?? today());
+  const [amenities, setAmenities] = useState<string[]>(room?.amenities ?? []);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const toggleAmenity = (amenity: string) => {
+    setAmenities((current) =>
+      current.includes(amenity) ? current.filter((a) => a !== amenity) : [...current, amenity]
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    // Validation
+    if (!title.trim() || !area.trim() || !rent || parseInt(rent) <= 0 || !availableFrom) {
+      setError(t('pleaseFillRoomDetails'));
+      return;
+    }
+
+    if (!maxOccupants || parseInt(maxOccupants) < 1) {
+      setError(t('invalidOccupants'));
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await onSubmit({
+        title: title.trim(),
+        area: area.trim(),
+        address: address.trim() || undefined,
+        roomType,
+        rent: parseInt(rent),
+        deposit: parseInt(deposit || '0'),
+        maxOccupants: parseInt(maxOccupants),
+        amenities,
+        availableFrom,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('errorUnknown'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const inputClass = 'w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent outline-none transition';
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-3xl shadow-2xl max-w-lg w-full p-8 relative max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold text-gray-900">{room ? t('editRoom') : t('addRoom')}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-2xl leading-none">×</button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-5">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              {t('roomTitle')} <span className="text-red-500">*</span>
+            </label>
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className={inputClass}
+              placeholder={t('roomTitlePlaceholder')}
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                {t('roomArea')} <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="text"
+                value={area}
+                onChange={(e) => setArea(e.target.value)}
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">{t('roomType')}</label>
+              <select
+                value={roomType}
+                onChange={(e) => setRoomType(e.target.value as RoomType)}
+                className={inputClass}
+              >
+                {ROOM_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {type === 'Shared' ? t('sharedRoom') : type}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">{t('roomAddressOptional')}</label>
+            <textarea
+              value={address}
+              onChange={(e) => setAddress(e.target.value)}
+              className={inputClass}
+              rows={2}
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                {t('monthlyRent')} <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="number"
+                value={rent}
+                onChange={(e) => setRent(e.target.value.replace(/\D/g, ''))}
+                min="1"
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">{t('deposit')}</label>
+              <input
+                type="number"
+                value={deposit}
+                onChange={(e) => setDeposit(e.target.value.replace(/\D/g, ''))}
+                min="0"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                {t('maxOccupants')} <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="number"
+                value={maxOccupants}
+                onChange={(e) => setMaxOccupants(e.target.value.replace(/\D/g, ''))}
+                min="1"
+                className={inputClass}
+                required
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              {t('availableFrom')} <span className="text-red-500">*</span>
+            </label>
+            <input
+              type="date"
+              value={availableFrom}
+              onChange={(e) => setAvailableFrom(e.target.value)}
+              className={inputClass}
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">{t('amenities')}</label>
+            <div className="flex flex-wrap gap-2">
+              {AMENITIES.map((amenity) => (
+                <button
+                  key={amenity}
+                  type="button"
+                  onClick={() => toggleAmenity(amenity)}
+                  className={`px-3 py-1.5 rounded-full text-sm font-medium border transition ${amenities.includes(amenity)
+                    ? 'bg-green-600 text-white border-green-600'
+                    : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                    }`}
+                >
+                  {t(amenity)}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-xl">
+              {error}
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={loading}
+            className="w-full bg-gradient-to-r from-green-600 to-green-700 text-white py-3 rounded-xl font-semibold hover:from-green-700 hover:to-green-800 transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+          >
+            {loading ? (
+              <>
+                <LoadingSpinner size="sm" />
+                <span>{t('saving')}</span>
+              </>
+            ) : (
+              t('saveRoom')
+            )}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,299 @@
+/**
+ * RoomPhotosModal Component
+ *
+ * Photo manager for a single room listing:
+ * - Pick several images at once; each is compressed in the browser and
+ *   uploaded with its own progress bar
+ * - Reorder photos and choose the cover image
+ * - Changes to the listing are saved together with "Save Photos"; photos
+ *   removed on save, and uploads abandoned by closing without saving, are
+ *   deleted from storage
+ */
+import { useEffect, useRef, useState } from 'react';
+import LoadingSpinner from './LoadingSpinner';
+import { uploadApi } from '../services/api';
+import { useLanguage } from '../contexts/LanguageContext';
+import { compressImage } from '../utils/image';
+import { coverPhoto } from '../utils/rooms';
+import type { Room, RoomPhoto, RoomPhotosPayload } from '../types';
+
+interface RoomPhotosModalProps {
+  room: Room;
+  onSubmit: (data: RoomPhotosPayload) => Promise<void>;
+  onClose: () => void;
+}
+
+interface PendingUpload {
+  key: string;
+  preview: string; // Object URL of the compressed image
+  progress: number; // 0-100
+  error?: string;
+}
+
+const MAX_PHOTOS = 10;
+
+// Storage cleanup is best effort; a leftover file must not block the Malik
+const deleteImages = (imageIds: string[]) => {
+  imageIds.forEach((imageId) => {
+    uploadApi.deleteImage(imageId).catch((error) => console.error('Failed to delete photo:', error));
+  });
+};
+
+export default function RoomPhotosModal({ room, onSubmit, onClose }: RoomPhotosModalProps) {
+  const { t, tError } = useLanguage();
+  const [photos, setPhotos] = useState<RoomPhoto[]>(room.photos ?? []); // Uploaded photos in display order
+  const [coverPhotoId, setCoverPhotoId] = useState(coverPhoto(room)?.id);
+  const [uploads, setUploads] = useState<PendingUpload[]>([]); // Photos still compressing/uploading
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const fileInput = useRef<HTMLInputElement>(null);
+  const previews = useRef<string[]>([]); // Object URLs to revoke on close
+  const uploaded = useRef<string[]>([]); // Images uploaded since the last save
+  const closed = useRef(false); // Uploads finishing after close are deleted straight away
+  const saveInFlight = useRef(false); // The parent may close the modal before handleSave resumes
+
+  useEffect(() => {
+    closed.current = false;
+    return () => {
+      closed.current = true;
+      previews.current.forEach((url) => URL.revokeObjectURL(url));
+      if (!saveInFlight.current) deleteImages(uploaded.current);
+    };
+  }, []);
+
+  const updateUpload = (key: string, changes: Partial<PendingUpload>) => {
+    setUploads((current) => current.map((u) => (u.key === key ? { ...u, ...changes } : u)));
+  };
+
+  const uploadFile = async (file: File, key: string) => {
+    try {
+      const image = await compressImage(file);
+      const preview = URL.createObjectURL(image);
+      previews.current.push(preview);
+      updateUpload(key, { preview });
+
+      const response = await uploadApi.uploadImage(image, (progress) => updateUpload(key, { progress }));
+      if (closed.current) {
+        deleteImages([response.data.id]);
+        return;
+      }
+      uploaded.current.push(response.data.id);
+      const photo = { id: response.data.id, url: response.data.url };
+      setUploads((current) => current.filter((u) => u.key !== key));
+      setPhotos((current) => [...current, photo]);
+      setCoverPhotoId((current) => current ?? photo.id);
+    } catch (err) {
+      updateUpload(key, { error: tError(err) });
+    }
+  };
+
+  const handleFiles = (files: FileList | null) => {
+    if (!files) return;
+    setError('');
+    const slots = MAX_PHOTOS - photos.length - uploads.filter((u) => !u.error).length;
+    const selected = Array.from(files).filter((file) => file.type.startsWith('image/'));
+    if (selected.length > slots) {
+      setError(t('maxPhotosReached').replace('{count}', String(MAX_PHOTOS)));
+    }
+    selected.slice(0, Math.max(0, slots)).forEach((file, index) => {
+      const key = `${Date.now()}-${index}-${file.name}`;
+      setUploads((current) => [...current, { key, preview: '', progress: 0 }]);
+      uploadFile(file, key);
+    });
+    if (fileInput.current) fileInput.current.value = '';
+  };
+
+  const movePhoto = (index: number, offset: -1 | 1) => {
+    setPhotos((current) => {
+      const next = [...current];
+      const [photo] = next.splice(index, 1);
+      next.splice(index + offset, 0, photo);
+      return next;
+    });
+  };
+
+  const removePhoto = (photoId: string) => {
+    const remaining = photos.filter((photo) => photo.id !== photoId);
+    setPhotos(remaining);
+    if (coverPhotoId === photoId) setCoverPhotoId(remaining[0]?.id);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError('');
+    saveInFlight.current = true;
+    try {
+      await onSubmit({ photos, coverPhotoId });
+      const kept = new Set(photos.map((photo) => photo.id));
+      const previous = [...(room.photos ?? []).map((photo) => photo.id), ...uploaded.current];
+      deleteImages(previous.filter((photoId) => !kept.has(photoId)));
+      uploaded.current = [];
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('errorUnknown'));
+    } finally {
+      saveInFlight.current = false;
+      // Closed while saving: the unmount cleanup left unsaved uploads to us
+      if (closed.current) deleteImages(uploaded.current);
+      setSaving(false);
+    }
+  };
+
+  const uploading = uploads.some((u) => !u.error);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-3xl shadow-2xl max-w-2xl w-full p-8 relative max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-2xl font-bold text-gray-900">{t('roomPhotos')}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-2xl leading-none">×</button>
+        </div>
+        <p className="text-gray-600 mb-6">{room.title}</p>
+
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 mb-4">
+          {photos.map((photo, index) => (
+            <div
+              key={photo.id}
+              className={`relative rounded-2xl overflow-hidden border-2 ${photo.id === coverPhotoId ? 'border-green-500' : 'border-gray-200'}`}
+            >
+              <img src={photo.url} alt="" className="w-full h-32 object-cover" />
+              {photo.id === coverPhotoId && (
+                <span className="absolute top-2 left-2 px-2 py-0.5 rounded-full bg-green-600 text-white text-xs font-semibold">
+                  {t('cover')}
+                </span>
+              )}
+              <div className="flex items-center justify-between bg-white px-2 py-1.5 text-xs">
+                <div className="flex gap-1">
+                  <button
+                    type="button"
+                    onClick={() => movePhoto(index, -1)}
+                    disabled={index === 0}
+                    title={t('moveEarlier')}
+                    className="px-2 py-1 rounded-lg hover:bg-gray-100 disabled:opacity-30"
+                  >
+                    ←
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => movePhoto(index, 1)}
+                    disabled={index === photos.length - 1}
+                    title={t('moveLater')}
+                    className="px-2 py-1 rounded-lg hover:bg-gray-100 disabled:opacity-30"
+                  >
+                    →
+                  </button>
+                </div>
+                <div className="flex gap-1">
+                  {photo.id !== coverPhotoId && (
+                    <button
+                      type="button"
+                      onClick={() => setCoverPhotoId(photo.id)}
+                      className="px-2 py-1 rounded-lg text-green-700 hover:bg-green-50 font-medium"
+                    >
+                      {t('setAsCover')}
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => removePhoto(photo.id)}
+                    title={t('removePhoto')}
+                    className="px-2 py-1 rounded-lg text-red-600 hover:bg-red-50"
+                  >
+                    ✕
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+
+          {uploads.map((upload) => (
+            <div key={upload.key} className="relative rounded-2xl overflow-hidden border-2 border-dashed border-gray-300">
+              {upload.preview ? (
+                <img src={upload.preview} alt="" className="w-full h-32 object-cover opacity-60" />
+              ) : (
+                <div className="w-full h-32 flex items-center justify-center bg-gray-50 text-xs text-gray-500 gap-2">
+                  <LoadingSpinner size="sm" />
+                  <span>{t('compressingPhoto')}</span>
+                </div>
+              )}
+              <div className="px-2 py-2 bg-white">
+                {upload.error ? (
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-xs text-red-600 truncate">{upload.error}</p>
+                    <button
+                      type="button"
+                      onClick={() => setUploads((current) => current.filter((u) => u.key !== upload.key))}
+                      className="text-xs text-gray-500 hover:text-gray-800"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                ) : (
+                  <div className="w-full bg-gray-200 rounded-full h-2">
+                    <div
+                      className="h-2 rounded-full bg-green-500 transition-all duration-300"
+                      style={{ width: `${upload.progress}%` }}
+                    ></div>
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+
+          {photos.length + uploads.length < MAX_PHOTOS && (
+            <button
+              type="button"
+              onClick={() => fileInput.current?.click()}
+              className="h-[10.5rem] rounded-2xl border-2 border-dashed border-green-300 text-green-700 hover:bg-green-50 transition flex flex-col items-center justify-center gap-1 font-semibold"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+              </svg>
+              {t('addPhotos')}
+            </button>
+          )}
+        </div>
+
+        <input
+          ref={fileInput}
+          type="file"
+          accept="image/*"
+          multiple
+          className="hidden"
+          onChange={(e) => handleFiles(e.target.files)}
+        />
+
+        {photos.length === 0 && uploads.length === 0 && (
+          <p className="text-gray-500 text-sm text-center mb-4">{t('noPhotosYet')}</p>
+        )}
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-xl mb-4">
+            {error}
+          </div>
+        )}
+
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving || uploading}
+          className="w-full bg-gradient-to-r from-green-600 to-green-700 text-white py-3 rounded-xl font-semibold hover:from-green-700 hover:to-green-800 transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+        >
+          {saving ? (
+            <>
+              <LoadingSpinner size="sm" />
+              <span>{t('saving')}</span>
+            </>
+          ) : (
+            t('savePhotos')
+          )}
+        </button>
+      </div>
+    </div>
+  );
+}
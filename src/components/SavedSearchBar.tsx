@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import LoadingSpinner from './LoadingSpinner';
+import { useLanguage } from '../contexts/LanguageContext';
+import { sameFilters, toParamEntries } from '../utils/searchParams';
+import type { SavedSearch, SavedSearchFilters } from '../types';
+
+interface SavedSearchBarProps {
+  searches: SavedSearch[];
+  currentFilters: SavedSearchFilters; // Filters applied to the tenant list right now
+  onOpen: (search: SavedSearch) => void;
+  onSave: (name: string) => Promise<void>; // Rejects with a translated message when saving failed
+  onRename: (search: SavedSearch, name: string) => Promise<void>;
+  onDelete: (search: SavedSearch) => Promise<void>;
+}
+
+/**
+ * Saved tenant searches as chips above the Malik's tenant list. Each chip
+ * shows how many tenants are new since the search was last opened.
+ */
+export default function SavedSearchBar({ searches, currentFilters, onOpen, onSave, onRename, onDelete }: SavedSearchBarProps) {
+  const { t } = useLanguage();
+  const [naming, setNaming] = useState<{ search?: SavedSearch; name: string } | null>(null); // Saving a new search or renaming one
+  const [busy, setBusy] = useState(false); // Save, rename or delete in progress
+  const [error, setError] = useState(''); // Why the last save or rename failed
+
+  const hasFilters = toParamEntries(currentFilters).length > 0;
+  const alreadySaved = searches.some((search) => sameFilters(search.filters, currentFilters));
+
+  const startNaming = (next: { search?: SavedSearch; name: string } | null) => {
+    setNaming(next);
+    setError('');
+  };
+
+  const handleNameSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!naming || !naming.name.trim()) return;
+    setError('');
+    setBusy(true);
+    try {
+      if (naming.search) {
+        await onRename(naming.search, naming.name.trim());
+      } else {
+        await onSave(naming.name.trim());
+      }
+      setNaming(null);
+    } catch (err) {
+      // Keep the form open so the typed name is not lost
+      setError(err instanceof Error ? err.message : t('errorUnknown'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async (search: SavedSearch) => {
+    if (!window.confirm(t('confirmDeleteSavedSearch').replace('{name}', search.name))) return;
+    setBusy(true);
+    try {
+      await onDelete(search);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (searches.length === 0 && (!hasFilters || alreadySaved) && !naming) return null;
+
+  return (
+    <div className="mb-4 space-y-3">
+      {searches.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm font-medium text-gray-700">{t('savedSearches')}:</span>
+          {searches.map((search) => {
+            const active = sameFilters(search.filters, currentFilters);
+            return (
+              <div
+                key={search.id}
+                className={`flex items-center rounded-full border text-sm ${active ? 'bg-green-600 border-green-600 text-white' : 'bg-white border-gray-300 text-gray-700'}`}
+              >
+                <button type="button" onClick={() => onOpen(search)} className="pl-3 pr-2 py-1 font-medium flex items-center gap-2">
+                  {search.name}
+                  {search.newMatchCount > 0 && (
+                    <span className="px-2 py-0.5 rounded-full bg-red-500 text-white text-xs font-bold">
+                      {t('newCount').replace('{count}', String(search.newMatchCount))}
+                    </span>
+                  )}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => startNaming({ search, name: search.name })}
+                  disabled={busy}
+                  title={t('rename')}
+                  className="px-1.5 py-1 opacity-70 hover:opacity-100"
+                >
+                  ✎
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(search)}
+                  disabled={busy}
+                  title={t('delete')}
+                  className="pl-1 pr-3 py-1 opacity-70 hover:opacity-100"
+                >
+                  ✕
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {naming ? (
+        <div className="space-y-2">
+          <form onSubmit={handleNameSubmit} className="flex gap-2">
+            <input
+              type="text"
+              value={naming.name}
+              onChange={(e) => setNaming({ ...naming, name: e.target.value })}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent outline-none transition"
+              placeholder={t('savedSearchName')}
+              maxLength={60}
+              autoFocus
+            />
+            <button
+              type="submit"
+              disabled={busy || !naming.name.trim()}
+              className="px-4 py-2 bg-green-600 text-white rounded-xl font-semibold hover:bg-green-700 transition disabled:opacity-50 flex items-center gap-2"
+            >
+              {busy ? <LoadingSpinner size="sm" /> : t('save')}
+            </button>
+            <button
+              type="button"
+              onClick={() => startNaming(null)}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-xl font-semibold hover:bg-gray-300 transition"
+            >
+              {t('cancel')}
+            </button>
+          </form>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+      ) : (
+        hasFilters && !alreadySaved && (
+          <button
+            type="button"
+            onClick={() => startNaming({ name: '' })}
+            className="text-sm font-semibold text-green-700 hover:text-green-900"
+          >
+            ☆ {t('saveThisSearch')}
+          </button>
+        )
+      )}
+    </div>
+  );
+}
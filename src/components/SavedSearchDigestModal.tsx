@@ -0,0 +1,70 @@
+import LoadingSpinner from './LoadingSpinner';
+import { useLanguage } from '../contexts/LanguageContext';
+import type { SavedSearch, SavedSearchDigest } from '../types';
+
+interface SavedSearchDigestModalProps {
+  digest: SavedSearchDigest[] | null; // null while loading
+  onOpenSearch: (search: SavedSearch) => void;
+  onClose: () => void;
+}
+
+/** New tenants per saved search since each search was last opened */
+export default function SavedSearchDigestModal({ digest, onOpenSearch, onClose }: SavedSearchDigestModalProps) {
+  const { t } = useLanguage();
+  const withMatches = digest?.filter((entry) => entry.matches.length > 0) ?? [];
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-3xl shadow-2xl max-w-lg w-full p-8 relative max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold text-gray-900">{t('newTenantMatches')}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-2xl leading-none">×</button>
+        </div>
+
+        {!digest ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : withMatches.length === 0 ? (
+          <p className="text-gray-600 text-center py-8">{t('noNewMatches')}</p>
+        ) : (
+          <div className="space-y-6">
+            {withMatches.map(({ search, matches }) => (
+              <div key={search.id}>
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="font-bold text-gray-900">
+                    {search.name} <span className="text-sm font-normal text-gray-500">({matches.length})</span>
+                  </h3>
+                  <button
+                    onClick={() => onOpenSearch(search)}
+                    className="text-sm font-semibold text-green-700 hover:text-green-900"
+                  >
+                    {t('viewSearch')} →
+                  </button>
+                </div>
+                <ul className="divide-y divide-gray-100 border border-gray-200 rounded-2xl">
+                  {matches.map((bhadot) => (
+                    <li key={bhadot.id} className="px-4 py-2 flex items-center justify-between text-sm">
+                      <span className="font-medium text-gray-900">{bhadot.name}</span>
+                      <span className="text-gray-500">
+                        {[bhadot.area, bhadot.totalFamilyMembers && `${t('totalFamilyMembers')}: ${bhadot.totalFamilyMembers}`]
+                          .filter(Boolean)
+                          .join(' · ')}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import { useState } from 'react';
+import LoadingSpinner from './LoadingSpinner';
+import TenantPreferenceSummary from './TenantPreferenceSummary';
+import { useLanguage } from '../contexts/LanguageContext';
+import type { ShortlistEntry } from '../types';
+
+interface ShortlistCardProps {
+  entry: ShortlistEntry;
+  maskedMobile: string;
+  onSaveNote: (note: string) => Promise<void>;
+  onRemove: () => void;
+  children?: React.ReactNode; // Actions such as the send-request button
+}
+
+/** A shortlisted tenant with the Malik's private note */
+export default function ShortlistCard({ entry, maskedMobile, onSaveNote, onRemove, children }: ShortlistCardProps) {
+  const { t } = useLanguage();
+  const { bhadot } = entry;
+  const [note, setNote] = useState(entry.note ?? ''); // Note being edited
+  const [savingNote, setSavingNote] = useState(false);
+
+  const noteChanged = note.trim() !== (entry.note ?? '');
+
+  const handleSaveNote = async () => {
+    setSavingNote(true);
+    try {
+      await onSaveNote(note.trim());
+    } finally {
+      setSavingNote(false);
+    }
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-2xl p-4 hover:shadow-md transition">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex-1">
+          <div className="flex items-center gap-2 flex-wrap">
+            <h4 className="font-bold text-gray-900 text-lg">{bhadot.name}</h4>
+            {bhadot.isActive === false && (
+              <span className="px-2 py-0.5 rounded-full bg-red-100 text-red-700 text-xs font-semibold">
+                {t('bhadotStatusInactive')}
+              </span>
+            )}
+          </div>
+          <p className="text-gray-600 mt-1">{t('mobile')}: {maskedMobile}</p>
+          {bhadot.area && <p className="text-gray-600">{t('roomArea')}: {bhadot.area}</p>}
+          {typeof bhadot.totalFamilyMembers === 'number' && bhadot.totalFamilyMembers > 0 && (
+            <p className="text-gray-600">{t('totalFamilyMembers')}: {bhadot.totalFamilyMembers}</p>
+          )}
+          <div className="mt-2">
+            <TenantPreferenceSummary preferences={bhadot.preferences} />
+          </div>
+          <p className="text-xs text-gray-400 mt-2">
+            {t('shortlistedOn').replace('{date}', new Date(entry.addedAt).toLocaleDateString())}
+          </p>
+        </div>
+        <div className="flex flex-col items-end gap-2">
+          {children}
+          <button
+            onClick={onRemove}
+            className="text-sm text-gray-500 hover:text-red-600 transition"
+          >
+            {t('removeFromShortlist')}
+          </button>
+        </div>
+      </div>
+
+      <div className="mt-3">
+        <label className="block text-xs font-medium text-gray-600 mb-1">{t('privateNote')}</label>
+        <div className="flex gap-2">
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            rows={2}
+            maxLength={500}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent outline-none transition text-sm"
+            placeholder={t('privateNotePlaceholder')}
+          />
+          {noteChanged && (
+            <button
+              onClick={handleSaveNote}
+              disabled={savingNote}
+              className="px-4 bg-green-600 text-white rounded-xl font-semibold hover:bg-green-700 transition disabled:opacity-50 flex items-center"
+            >
+              {savingNote ? <LoadingSpinner size="sm" /> : t('save')}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
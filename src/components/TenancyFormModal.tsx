@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import LoadingSpinner from './LoadingSpinner';
+import { useLanguage } from '../contexts/LanguageContext';
+import { currentTerms } from '../utils/offers';
+import { toLocalDateString } from '../utils/time';
+import type { RentRequestWithDetails, Room, TenancyPayload } from '../types';
+
+interface TenancyFormModalProps {
+  candidates: RentRequestWithDetails[]; // Contacts either side reported as moved in, without a tenancy yet
+  rooms: Room[];
+  onSubmit: (data: TenancyPayload) => Promise<void>;
+  onClose: () => void;
+}
+
+/** Start a rent ledger for a tenant who moved in, prefilled from the agreed terms */
+export default function TenancyFormModal({ candidates, rooms, onSubmit, onClose }: TenancyFormModalProps) {
+  const { t } = useLanguage();
+  const [requestId, setRequestId] = useState(''); // Request the tenancy is created from
+  const [roomId, setRoomId] = useState('');
+  const [monthlyRent, setMonthlyRent] = useState('');
+  const [dueDay, setDueDay] = useState('5');
+  const [deposit, setDeposit] = useState('');
+  const [startDate, setStartDate] = useState(toLocalDateString());
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  // Fill the form from what the two sides agreed on
+  const handlePickTenant = (id: string) => {
+    setRequestId(id);
+    const request = candidates.find((req) => req.id === id);
+    if (!request) return;
+    const terms = currentTerms(request.offers, { rent: request.roomRent });
+    const room = rooms.find((r) => r.id === request.roomId);
+    setRoomId(request.roomId ?? '');
+    setMonthlyRent(terms.rent !== undefined ? String(terms.rent) : '');
+    setDeposit(room ? String(room.deposit) : '');
+    if (terms.moveInDate) setStartDate(terms.moveInDate.slice(0, 10));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const request = candidates.find((req) => req.id === requestId);
+    if (!request || !roomId) {
+      setError(t('tenancyPickTenantAndRoom'));
+      return;
+    }
+    const day = Number(dueDay);
+    if (!(Number(monthlyRent) > 0) || !Number.isInteger(day) || day < 1 || day > 28 || Number(deposit) < 0) {
+      setError(t('tenancyInvalid'));
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await onSubmit({
+        roomId,
+        bhadotId: request.bhadotId,
+        requestId: request.id,
+        monthlyRent: Number(monthlyRent),
+        dueDay: day,
+        deposit: Number(deposit) || 0,
+        startDate,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('errorUnknown'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const inputClass = 'w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent outline-none transition';
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-3xl shadow-2xl max-w-lg w-full p-8 relative max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-2xl font-bold text-gray-900">{t('addTenancy')}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-2xl leading-none">×</button>
+        </div>
+        <p className="text-gray-600 mb-6">{t('addTenancyHint')}</p>
+
+        <form onSubmit={handleSubmit} className="space-y-5">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">{t('tenant')}</label>
+            <select value={requestId} onChange={(e) => handlePickTenant(e.target.value)} className={inputClass}>
+              <option value="">{t('selectTenant')}</option>
+              {candidates.map((request) => (
+                <option key={request.id} value={request.id}>
+                  {request.bhadotName}{request.roomTitle ? ` · ${request.roomTitle}` : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">{t('room')}</label>
+            <select value={roomId} onChange={(e) => setRoomId(e.target.value)} className={inputClass}>
+              <option value="">{t('selectRoom')}</option>
+              {rooms.map((room) => (
+                <option key={room.id} value={room.id}>{room.title} · {room.area}</option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">{t('monthlyRent')}</label>
+              <input type="number" min={1} value={monthlyRent} onChange={(e) => setMonthlyRent(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">{t('deposit')}</label>
+              <input type="number" min={0} value={deposit} onChange={(e) => setDeposit(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">{t('moveInDate')}</label>
+              <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={inputClass} required />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">{t('rentDueDay')}</label>
+              <input type="number" min={1} max={28} value={dueDay} onChange={(e) => setDueDay(e.target.value)} className={inputClass} />
+            </div>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-xl">
+              {error}
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={loading}
+            className="w-full bg-gradient-to-r from-green-600 to-green-700 text-white py-3 rounded-xl font-semibold hover:from-green-700 hover:to-green-800 transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+          >
+            {loading ? <LoadingSpinner size="sm" /> : t('addTenancy')}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import { useEffect, useState } from 'react';
+import { useLanguage } from '../contexts/LanguageContext';
+import type { Bhadot, BhadotSearchParams } from '../types';
+
+interface TenantFiltersProps {
+  value: BhadotSearchParams; // Filters currently applied (from the URL)
+  onApply: (filters: BhadotSearchParams) => void;
+  onClear: () => void;
+}
+
+type Draft = Record<'q' | 'area' | 'cast' | 'minFamily' | 'maxFamily' | 'status' | 'registeredFrom' | 'registeredTo', string>;
+
+const toDraft = (value: BhadotSearchParams): Draft => ({
+  q: value.q ?? '',
+  area: value.area ?? '',
+  cast: value.cast ?? '',
+  minFamily: value.minFamily?.toString() ?? '',
+  maxFamily: value.maxFamily?.toString() ?? '',
+  status: value.status ?? '',
+  registeredFrom: value.registeredFrom ?? '',
+  registeredTo: value.registeredTo ?? '',
+});
+
+/**
+ * Search and filter form for the Malik's tenant list. Edits stay local until
+ * "Apply", so typing does not trigger a server request per keystroke.
+ */
+export default function TenantFilters({ value, onApply, onClear }: TenantFiltersProps) {
+  const { t } = useLanguage();
+  const [draft, setDraft] = useState<Draft>(() => toDraft(value));
+  const [expanded, setExpanded] = useState( // Show the advanced filters; open when any is applied
+    () => Object.entries(value).some(([key, v]) => key !== 'q' && v !== undefined)
+  );
+
+  // Follow URL changes made elsewhere (back button, clear)
+  useEffect(() => {
+    setDraft(toDraft(value));
+  }, [JSON.stringify(value)]);
+
+  const update = (key: keyof Draft, next: string) => setDraft((current) => ({ ...current, [key]: next }));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const number = (text: string) => (text ? parseInt(text) : undefined);
+    onApply({
+      q: draft.q.trim() || undefined,
+      area: draft.area.trim() || undefined,
+      cast: draft.cast.trim() || undefined,
+      minFamily: number(draft.minFamily),
+      maxFamily: number(draft.maxFamily),
+      status: (draft.status || undefined) as Bhadot['status'] | undefined,
+      registeredFrom: draft.registeredFrom || undefined,
+      registeredTo: draft.registeredTo || undefined,
+    });
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent outline-none transition';
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-gray-50 rounded-2xl p-4 mb-4 border border-gray-200 space-y-3">
+      <div className="flex gap-3">
+        <input
+          type="search"
+          value={draft.q}
+          onChange={(e) => update('q', e.target.value)}
+          className={inputClass}
+          placeholder={t('searchTenantsByName')}
+        />
+        <button
+          type="submit"
+          className="px-5 py-2 bg-green-600 text-white rounded-xl font-semibold hover:bg-green-700 transition"
+        >
+          {t('search')}
+        </button>
+        <button
+          type="button"
+          onClick={() => setExpanded(!expanded)}
+          className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-xl font-semibold hover:bg-gray-100 transition whitespace-nowrap"
+        >
+          {t('filters')} {expanded ? '▲' : '▼'}
+        </button>
+      </div>
+
+      {expanded && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">{t('roomArea')}</label>
+              <input type="text" value={draft.area} onChange={(e) => update('area', e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">{t('cast')}</label>
+              <input type="text" value={draft.cast} onChange={(e) => update('cast', e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">{t('familySizeRange')}</label>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  min="1"
+                  value={draft.minFamily}
+                  onChange={(e) => update('minFamily', e.target.value.replace(/\D/g, ''))}
+                  className={inputClass}
+                  placeholder={t('min')}
+                />
+                <span className="text-gray-400">–</span>
+                <input
+                  type="number"
+                  min="1"
+                  value={draft.maxFamily}
+                  onChange={(e) => update('maxFamily', e.target.value.replace(/\D/g, ''))}
+                  className={inputClass}
+                  placeholder={t('max')}
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">{t('status')}</label>
+              <select value={draft.status} onChange={(e) => update('status', e.target.value)} className={inputClass}>
+                <option value="">{t('anyStatus')}</option>
+                <option value="Waiting">{t('waiting')}</option>
+                <option value="Approved">{t('approved')}</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">{t('registeredFrom')}</label>
+              <input type="date" value={draft.registeredFrom} onChange={(e) => update('registeredFrom', e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">{t('registeredTo')}</label>
+              <input type="date" value={draft.registeredTo} onChange={(e) => update('registeredTo', e.target.value)} className={inputClass} />
+            </div>
+          </div>
+          <div className="flex gap-3">
+            <button
+              type="submit"
+              className="px-5 py-2 bg-green-600 text-white rounded-xl font-semibold hover:bg-green-700 transition"
+            >
+              {t('applyFilters')}
+            </button>
+            <button
+              type="button"
+              onClick={onClear}
+              className="px-5 py-2 bg-gray-200 text-gray-700 rounded-xl font-semibold hover:bg-gray-300 transition"
+            >
+              {t('clearFilters')}
+            </button>
+          </div>
+        </>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,48 @@
+import { useLanguage } from '../contexts/LanguageContext';
+import { formatRupees } from '../utils/rooms';
+import { hasPreferences } from '../utils/preferences';
+import { parseLocalDate } from '../utils/time';
+import type { TenantPreferences } from '../types';
+
+interface TenantPreferenceSummaryProps {
+  preferences?: TenantPreferences;
+  emptyText?: string; // Shown when nothing is filled in; renders nothing if omitted
+}
+
+/** Compact read-only view of a tenant's preferences as labelled chips */
+export default function TenantPreferenceSummary({ preferences, emptyText }: TenantPreferenceSummaryProps) {
+  const { t } = useLanguage();
+
+  if (!preferences || !hasPreferences(preferences)) {
+    return emptyText ? <p className="text-sm text-gray-500">{emptyText}</p> : null;
+  }
+
+  const { budgetMin, budgetMax, preferredAreas, moveInDate, roomTypeWanted, occupation, hasPets, vegetarian } = preferences;
+  const budget =
+    budgetMin !== undefined && budgetMax !== undefined
+      ? `${formatRupees(budgetMin)} – ${formatRupees(budgetMax)}`
+      : budgetMin !== undefined
+        ? `${formatRupees(budgetMin)}+`
+        : budgetMax !== undefined
+          ? `≤ ${formatRupees(budgetMax)}`
+          : undefined;
+
+  const items: { label: string; value: string }[] = [];
+  if (budget) items.push({ label: t('budget'), value: budget });
+  if (preferredAreas?.length) items.push({ label: t('preferredAreas'), value: preferredAreas.join(', ') });
+  if (moveInDate) items.push({ label: t('moveInDate'), value: parseLocalDate(moveInDate).toLocaleDateString() });
+  if (roomTypeWanted) items.push({ label: t('roomType'), value: roomTypeWanted === 'Shared' ? t('sharedRoom') : roomTypeWanted });
+  if (occupation) items.push({ label: t('occupation'), value: occupation });
+  if (hasPets !== undefined) items.push({ label: t('hasPets'), value: hasPets ? t('yes') : t('no') });
+  if (vegetarian !== undefined) items.push({ label: t('vegetarian'), value: vegetarian ? t('yes') : t('no') });
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {items.map((item) => (
+        <span key={item.label} className="px-2.5 py-1 rounded-lg bg-gray-100 text-xs text-gray-700">
+          <span className="text-gray-500">{item.label}:</span> <span className="font-semibold">{item.value}</span>
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import { useState } from 'react';
+import { useLanguage } from '../contexts/LanguageContext';
+import { ROOM_TYPES } from '../utils/rooms';
+import type { PreferencesDraft } from '../utils/preferences';
+import type { RoomType } from '../types';
+
+interface TenantPreferencesFieldsProps {
+  value: PreferencesDraft;
+  onChange: (value: PreferencesDraft) => void;
+}
+
+/**
+ * Optional "what I'm looking for" inputs shared by registration, the profile
+ * modal and the dashboard preferences card. The parent owns the draft.
+ */
+export default function TenantPreferencesFields({ value, onChange }: TenantPreferencesFieldsProps) {
+  const { t } = useLanguage();
+  const [areaInput, setAreaInput] = useState(''); // Area being typed before it becomes a chip
+
+  const update = <K extends keyof PreferencesDraft>(key: K, next: PreferencesDraft[K]) => {
+    onChange({ ...value, [key]: next });
+  };
+
+  const addArea = () => {
+    const area = areaInput.trim();
+    if (area && !value.preferredAreas.some((a) => a.toLowerCase() === area.toLowerCase())) {
+      update('preferredAreas', [...value.preferredAreas, area]);
+    }
+    setAreaInput('');
+  };
+
+  const inputClass = 'w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition';
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">{t('budgetRange')}</label>
+        <div className="flex items-center gap-2">
+          <input
+            type="number"
+            min="0"
+            value={value.budgetMin}
+            onChange={(e) => update('budgetMin', e.target.value.replace(/\D/g, ''))}
+            className={inputClass}
+            placeholder={t('min')}
+          />
+          <span className="text-gray-400">–</span>
+          <input
+            type="number"
+            min="0"
+            value={value.budgetMax}
+            onChange={(e) => update('budgetMax', e.target.value.replace(/\D/g, ''))}
+            className={inputClass}
+            placeholder={t('max')}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">{t('preferredAreas')}</label>
+        {value.preferredAreas.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-2">
+            {value.preferredAreas.map((area) => (
+              <span key={area} className="flex items-center gap-1 px-3 py-1 rounded-full bg-blue-50 text-blue-700 text-sm">
+                {area}
+                <button
+                  type="button"
+                  onClick={() => update('preferredAreas', value.preferredAreas.filter((a) => a !== area))}
+                  className="text-blue-400 hover:text-blue-700"
+                >
+                  ✕
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={areaInput}
+            onChange={(e) => setAreaInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                addArea();
+              }
+            }}
+            className={inputClass}
+            placeholder={t('addAreaPlaceholder')}
+          />
+          <button
+            type="button"
+            onClick={addArea}
+            className="px-4 bg-gray-100 text-gray-700 rounded-xl font-semibold hover:bg-gray-200 transition"
+          >
+            {t('add')}
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">{t('moveInDate')}</label>
+          <input
+            type="date"
+            value={value.moveInDate}
+            onChange={(e) => update('moveInDate', e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">{t('roomTypeWanted')}</label>
+          <select
+            value={value.roomTypeWanted}
+            onChange={(e) => update('roomTypeWanted', e.target.value as RoomType | '')}
+            className={inputClass}
+          >
+            <option value="">{t('anyRoomType')}</option>
+            {ROOM_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {type === 'Shared' ? t('sharedRoom') : type}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">{t('occupation')}</label>
+        <input
+          type="text"
+          value={value.occupation}
+          onChange={(e) => update('occupation', e.target.value)}
+          className={inputClass}
+          placeholder={t('occupationPlaceholder')}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">{t('hasPets')}</label>
+          <select
+            value={value.hasPets}
+            onChange={(e) => update('hasPets', e.target.value as PreferencesDraft['hasPets'])}
+            className={inputClass}
+          >
+            <option value="">{t('preferNotToSay')}</option>
+            <option value="yes">{t('yes')}</option>
+            <option value="no">{t('no')}</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">{t('vegetarian')}</label>
+          <select
+            value={value.vegetarian}
+            onChange={(e) => update('vegetarian', e.target.value as PreferencesDraft['vegetarian'])}
+            className={inputClass}
+          >
+            <option value="">{t('preferNotToSay')}</option>
+            <option value="yes">{t('yes')}</option>
+            <option value="no">{t('no')}</option>
+          </select>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import LoadingSpinner from './LoadingSpinner';
+import { useLanguage } from '../contexts/LanguageContext';
+import { downloadVisitIcs, formatSlot, upcomingVisits } from '../utils/calendar';
+import type { Visit } from '../types';
+
+interface UpcomingVisitsProps {
+  visits: Visit[];
+  viewer: 'Malik' | 'Bhadot';
+  busyVisitId?: string | null; // Visit being rescheduled or cancelled
+  onReschedule?: (visit: Visit) => void;
+  onCancel?: (visit: Visit) => void;
+}
+
+/** Booked visits that have not happened yet, with calendar export */
+export default function UpcomingVisits({ visits, viewer, busyVisitId, onReschedule, onCancel }: UpcomingVisitsProps) {
+  const { t } = useLanguage();
+  const upcoming = upcomingVisits(visits);
+
+  if (upcoming.length === 0) return null;
+
+  const handleAddToCalendar = (visit: Visit) => {
+    const other = viewer === 'Malik' ? visit.bhadotName : visit.malikName;
+    downloadVisitIcs(
+      visit,
+      visit.roomTitle ? t('visitCalendarTitle').replace('{room}', visit.roomTitle) : t('roomVisit'),
+      t('visitCalendarWith').replace('{name}', other || '')
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-3xl shadow-lg p-6 mb-6 border border-gray-200">
+      <h3 className="text-xl font-bold text-gray-900 mb-4">{t('upcomingVisits')}</h3>
+      <div className="space-y-3">
+        {upcoming.map((visit) => (
+          <div key={visit.id} className="border border-gray-200 rounded-2xl p-4 flex items-start justify-between gap-4 flex-wrap">
+            <div>
+              <p className="font-semibold text-gray-900">{formatSlot(visit.start, visit.end)}</p>
+              <p className="text-sm text-gray-600">
+                {[visit.roomTitle, viewer === 'Malik' ? visit.bhadotName : visit.malikName].filter(Boolean).join(' · ')}
+              </p>
+              {visit.roomAddress && <p className="text-sm text-gray-500">{visit.roomAddress}</p>}
+            </div>
+            <div className="flex items-center gap-3 text-sm font-semibold">
+              <button onClick={() => handleAddToCalendar(visit)} className="text-gray-700 hover:text-gray-900">
+                📅 {t('addToCalendar')}
+              </button>
+              {busyVisitId === visit.id ? (
+                <LoadingSpinner size="sm" />
+              ) : (
+                <>
+                  {onReschedule && (
+                    <button onClick={() => onReschedule(visit)} className="text-blue-700 hover:text-blue-900">
+                      {t('reschedule')}
+                    </button>
+                  )}
+                  {onCancel && (
+                    <button onClick={() => onCancel(visit)} className="text-red-600 hover:text-red-800">
+                      {t('cancelVisit')}
+                    </button>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
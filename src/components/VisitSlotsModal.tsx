@@ -0,0 +1,157 @@
+import { useEffect, useState } from 'react';
+import LoadingSpinner from './LoadingSpinner';
+import { malikApi } from '../services/api';
+import { useLanguage } from '../contexts/LanguageContext';
+import { formatSlot } from '../utils/calendar';
+import type { Room, VisitSlot } from '../types';
+
+interface VisitSlotsModalProps {
+  malikId: string;
+  room: Room;
+  onClose: () => void;
+}
+
+const DURATIONS = [30, 45, 60]; // Minutes
+
+/** Publish and remove the times a room can be visited */
+export default function VisitSlotsModal({ malikId, room, onClose }: VisitSlotsModalProps) {
+  const { t, tError } = useLanguage();
+  const [slots, setSlots] = useState<VisitSlot[] | null>(null); // null while loading
+  const [date, setDate] = useState('');
+  const [time, setTime] = useState('');
+  const [duration, setDuration] = useState(30);
+  const [saving, setSaving] = useState(false);
+  const [deletingSlot, setDeletingSlot] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    malikApi.getVisitSlots(malikId, room.id)
+      .then((response) => setSlots(response.data))
+      .catch((err) => {
+        setSlots([]);
+        setError(tError(err));
+      });
+  }, [malikId, room.id]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    const start = new Date(`${date}T${time}`);
+    if (!date || !time || isNaN(start.getTime()) || start <= new Date()) {
+      setError(t('slotMustBeFuture'));
+      return;
+    }
+    setSaving(true);
+    try {
+      const response = await malikApi.createVisitSlot(malikId, room.id, {
+        start: start.toISOString(),
+        end: new Date(start.getTime() + duration * 60 * 1000).toISOString(),
+      });
+      setSlots((current) => [...(current ?? []), response.data.slot]);
+      setTime('');
+    } catch (err) {
+      setError(tError(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (slot: VisitSlot) => {
+    setError('');
+    setDeletingSlot(slot.id);
+    try {
+      await malikApi.deleteVisitSlot(malikId, room.id, slot.id);
+      setSlots((current) => (current ?? []).filter((s) => s.id !== slot.id));
+    } catch (err) {
+      setError(tError(err));
+    } finally {
+      setDeletingSlot(null);
+    }
+  };
+
+  const upcoming = (slots ?? [])
+    .filter((slot) => new Date(slot.end) > new Date())
+    .sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime());
+
+  const inputClass = 'w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent outline-none transition';
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-3xl shadow-2xl max-w-lg w-full p-8 relative max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-2xl font-bold text-gray-900">{t('visitSlots')}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-2xl leading-none">×</button>
+        </div>
+        <p className="text-gray-600 mb-6">{room.title}</p>
+
+        <form onSubmit={handleAdd} className="grid grid-cols-3 gap-3 mb-6">
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className={inputClass}
+          />
+          <input
+            type="time"
+            value={time}
+            onChange={(e) => setTime(e.target.value)}
+            className={inputClass}
+          />
+          <select value={duration} onChange={(e) => setDuration(Number(e.target.value))} className={inputClass}>
+            {DURATIONS.map((minutes) => (
+              <option key={minutes} value={minutes}>{t('minutesDuration').replace('{count}', String(minutes))}</option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={saving}
+            className="col-span-3 bg-green-600 text-white py-3 rounded-xl font-semibold hover:bg-green-700 transition disabled:opacity-50 flex items-center justify-center"
+          >
+            {saving ? <LoadingSpinner size="sm" /> : t('addSlot')}
+          </button>
+        </form>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-xl mb-4">
+            {error}
+          </div>
+        )}
+
+        {!slots ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : upcoming.length === 0 ? (
+          <p className="text-gray-600 text-center py-4">{t('noSlotsYet')}</p>
+        ) : (
+          <ul className="divide-y divide-gray-100 border border-gray-200 rounded-2xl">
+            {upcoming.map((slot) => (
+              <li key={slot.id} className="px-4 py-3 flex items-center justify-between gap-3 text-sm">
+                <span className="font-medium text-gray-900">{formatSlot(slot.start, slot.end)}</span>
+                {slot.bookedBy ? (
+                  <span className="px-2 py-0.5 rounded-full bg-blue-100 text-blue-800 text-xs font-semibold">
+                    {t('bookedBy').replace('{name}', slot.bookedByName || '')}
+                  </span>
+                ) : (
+                  <button
+                    onClick={() => handleDelete(slot)}
+                    disabled={deletingSlot === slot.id}
+                    className="text-gray-500 hover:text-red-600 transition disabled:opacity-50"
+                  >
+                    {deletingSlot === slot.id ? <LoadingSpinner size="sm" /> : t('delete')}
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
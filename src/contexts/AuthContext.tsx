@@ -0,0 +1,113 @@
+import { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react';
+import { useNavigate } from 'react-router-dom';
+import Toast from '../components/Toast';
+import { authApi } from '../services/api';
+import { useLanguage } from './LanguageContext';
+import {
+  LOGIN_PATHS,
+  clearStoredToken,
+  decodeToken,
+  onSessionExpired,
+  onSessionRefreshed,
+  readSession,
+  storeToken,
+  type Session,
+} from '../services/session';
+
+interface AuthContextType {
+  session: Session | null;
+  login: (token: string) => Session | null;
+  logout: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+/** Cross-tab channel: a logout in one tab signs every open tab out */
+const AUTH_CHANNEL = 'roomrent-auth';
+
+type AuthChannelMessage = { type: 'logout' };
+
+export const useAuth = () => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within AuthProvider');
+  }
+  return context;
+};
+
+interface AuthProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Must be mounted inside the Router: when the API client gives up on a
+ * session (refresh failed) this provider sends the user to their role's
+ * login screen with a "session expired" toast. Logging out in any tab
+ * returns every open tab to the role selection screen.
+ */
+export const AuthProvider = ({ children }: AuthProviderProps) => {
+  const navigate = useNavigate();
+  const { t } = useLanguage();
+  const [session, setSession] = useState<Session | null>(() => readSession());
+  const [expiredNotice, setExpiredNotice] = useState(false);
+
+  useEffect(() => onSessionExpired((role) => {
+    setSession(null);
+    setExpiredNotice(true);
+    navigate(role ? LOGIN_PATHS[role] : '/', { replace: true });
+  }), [navigate]);
+
+  // A silent refresh may carry updated claims; keep guards and pages on the new token
+  useEffect(() => onSessionRefreshed(setSession), []);
+
+  const closeExpiredNotice = useCallback(() => setExpiredNotice(false), []);
+
+  // Leaving the dashboard routes unmounts them, dropping their loaded data
+  const endSession = useCallback(() => {
+    clearStoredToken();
+    setSession(null);
+    navigate('/', { replace: true });
+  }, [navigate]);
+
+  useEffect(() => {
+    if (typeof BroadcastChannel === 'undefined') return;
+    const channel = new BroadcastChannel(AUTH_CHANNEL);
+    channel.onmessage = (event: MessageEvent<AuthChannelMessage>) => {
+      if (event.data?.type === 'logout') endSession();
+    };
+    return () => channel.close();
+  }, [endSession]);
+
+  /** Store a freshly issued token and return the decoded session */
+  const login = (token: string) => {
+    storeToken(token);
+    const next = decodeToken(token);
+    setSession(next);
+    return next;
+  };
+
+  /** Revoke the session on the server, then sign out this tab and all others */
+  const logout = async () => {
+    try {
+      await authApi.logout();
+    } catch (error) {
+      // The local session ends regardless; the server token expires on its own
+      console.error('Failed to revoke session:', error);
+    }
+    endSession();
+    if (typeof BroadcastChannel !== 'undefined') {
+      const channel = new BroadcastChannel(AUTH_CHANNEL);
+      channel.postMessage({ type: 'logout' } satisfies AuthChannelMessage);
+      channel.close();
+    }
+  };
+
+  return (
+    <AuthContext.Provider value={{ session, login, logout }}>
+      {expiredNotice && (
+        <Toast message={t('sessionExpired')} type="info" onClose={closeExpiredNotice} />
+      )}
+      {children}
+    </AuthContext.Provider>
+  );
+};
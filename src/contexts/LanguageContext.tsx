@@ -1,4 +1,5 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { ApiError } from '../services/errors';
 
 type Language = 'en' | 'hi';
 
@@ -6,6 +7,7 @@ interface LanguageContextType {
   language: Language;
   setLanguage: (lang: Language) => void;
   t: (key: string) => string;
+  tError: (error: unknown, fallback?: object) => string;
 }
 
 const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
@@ -41,8 +43,24 @@ export const LanguageProvider = ({ children }: LanguageProviderProps) => {
     return translations[language][key] || translations['en'][key] || key;
   };
 
+  /**
+   * Translate any error thrown by an API call.
+   * `{placeholders}` in the message are filled from the error's details.
+   */
+  /**
+   * Translated message for an error, with `{placeholders}` filled from its details
+   * Placeholders the response left out are taken from `fallback`, e.g. the loaded request policy.
+   */
+  const tError = (error: unknown, fallback: object = {}): string => {
+    const apiError = ApiError.from(error);
+    return Object.entries({ ...fallback, ...apiError.details }).reduce(
+      (message, [name, value]) => (value === undefined ? message : message.split(`{${name}}`).join(String(value))),
+      t(apiError.messageKey)
+    );
+  };
+
   return (
-    <LanguageContext.Provider value={{ language, setLanguage, t }}>
+    <LanguageContext.Provider value={{ language, setLanguage, t, tError }}>
       {children}
     </LanguageContext.Provider>
   );
@@ -61,6 +79,37 @@ const translations: Record<Language, Record<string, string>> = {
     'loading': 'Loading...',
     'error': 'Error',
     'success': 'Success',
+    'retry': 'Try again',
+    'goHome': 'Go to Home',
+    'loadFailed': 'Could not load your dashboard',
+    'loadFailedNetwork': 'Please check your connection and try again.',
+    'loadFailedContract': 'The server sent data we could not read. Please try again in a moment.',
+    'accessDenied': 'Access denied',
+    'accessDeniedMessage': 'You are signed in to a different account. You can only view your own dashboard.',
+    'goToMyDashboard': 'Go to my dashboard',
+    'sessionExpired': 'Your session has expired. Please log in again.',
+
+    // API errors
+    'errorNetwork': 'Cannot reach the server. Please check your internet connection.',
+    'errorBadRequest': 'Some details are invalid. Please check and try again.',
+    'errorUnauthorized': 'Your session has ended. Please log in again.',
+    'errorForbidden': 'You are not allowed to do this.',
+    'errorNotFound': 'The requested record was not found.',
+    'errorConflict': 'This record already exists.',
+    'errorRequestLimit': 'Maximum {maxPending} pending requests allowed. Please wait {pendingWindowHours} hours after your oldest pending request to send more.',
+    'errorTenantCooldown': 'You can send a new request to this tenant after {hoursRemaining} hour(s).',
+    'errorRequestWithdrawn': 'The owner withdrew this offer.',
+    'errorNudgeNotAllowed': 'A reminder can no longer be sent for this request.',
+    'errorInterestLimit': 'You can send up to {maxInterestsPerDay} interest requests a day. Please try again later.',
+    'errorOfferClosed': 'This offer was already answered. Refresh to see the latest terms.',
+    'errorSlotTaken': 'Someone just booked that slot. Please pick another one.',
+    'errorRateLimited': 'Too many attempts. Please wait a moment and try again.',
+    'errorOtpInvalid': 'Incorrect code. {attemptsRemaining} attempt(s) left.',
+    'errorOtpExpired': 'This code has expired. Please request a new one.',
+    'errorOtpAttemptsExceeded': 'Too many wrong attempts. Please request a new code.',
+    'errorContractViolation': 'The server sent data we could not read. Please try again in a moment.',
+    'errorServer': 'Something went wrong on our side. Please try again.',
+    'errorUnknown': 'Something went wrong. Please try again.',
 
     // Role Switcher
     'roomRentConnect': 'Room Rent Connect',
@@ -96,17 +145,33 @@ const translations: Record<Language, Record<string, string>> = {
     'register': 'Register',
     'registering': 'Registering...',
 
+    // OTP Verification
+    'verifyYourNumber': 'Verify your number',
+    'otpSentTo': 'Enter the 6-digit code sent to {phone}',
+    'sendCodeVia': 'Send code via',
+    'whatsapp': 'WhatsApp',
+    'sms': 'SMS',
+    'sendingCode': 'Sending code...',
+    'enterOtp': 'Enter 6-digit code',
+    'verify': 'Verify',
+    'verifying': 'Verifying...',
+    'resendCode': 'Resend code',
+    'resendIn': 'Resend in {seconds}s',
+    'attemptsLeft': '{count} attempt(s) left',
+    'codeExpiresIn': 'Code expires in {time}',
+    'changeNumber': 'Change number',
+
     // Malik Dashboard
     'searchAvailableTenants': 'Search for available tenants and send rental requests',
     'allTenants': 'All Tenants',
     'pendingRequests': 'Pending Requests',
-    'limitReached': 'Limit reached - wait 24h',
+    'limitReached': 'Limit reached - wait {pendingWindowHours}h',
     'sendRequest': 'Send Request',
     'requestSent': 'Request Sent',
     'limitReachedBtn': 'Limit Reached',
     'nextRequestAvailable': 'Next request available in',
     'canSendMoreRequests': 'You can send {count} more request(s)',
-    'waitFor24Hours': 'Wait 24 hours after your oldest pending request to send more',
+    'waitForPendingWindow': 'Wait {pendingWindowHours} hours after your oldest pending request to send more',
     'availableIn': 'Available in',
     'sendRequestToAll': 'Send Request to All',
     'sendingToAll': 'Sending to All...',
@@ -126,6 +191,15 @@ const translations: Record<Language, Record<string, string>> = {
     'disconnected': 'Disconnected',
     'saving': 'Saving...',
     'noTenantsFound': 'No available tenants found',
+    'search': 'Search',
+    'searchTenantsByName': 'Search tenants by name',
+    'filters': 'Filters',
+    'familySizeRange': 'Family size',
+    'min': 'Min',
+    'max': 'Max',
+    'anyStatus': 'Any status',
+    'registeredFrom': 'Registered from',
+    'registeredTo': 'Registered to',
 
     // Bhadot Registration
     'roomBhadotRegistration': 'Room Bhadot Registration',
@@ -173,13 +247,345 @@ const translations: Record<Language, Record<string, string>> = {
     'bhadotStatusInactive': 'Inactive',
     'bhadotStatusHint': 'To show your details to Maliks keep this ON. To hide your details from Maliks turn this OFF.',
     'accountInactiveWarning': 'Your account will become inactive in',
-    'accountInactiveMessage': 'After 5 days of accepting a request, your account will automatically become inactive. You can reactivate it anytime using the toggle above.',
+    'accountInactiveMessage': 'After {acceptedExpiryDays} days of accepting a request, your account will automatically become inactive. You can reactivate it anytime using the toggle above.',
 
     // Chat Widget
     'supportChat': 'Support Chat',
     'startConversation': 'Start a conversation with Admin',
     'typeMessage': 'Type a message...',
     'chatWithAdmin': 'Chat with Admin',
+
+    // Room listings
+    'myRooms': 'My Rooms',
+    'addRoom': 'Add Room',
+    'editRoom': 'Edit Room',
+    'saveRoom': 'Save Room',
+    'roomTitle': 'Listing Title',
+    'roomTitlePlaceholder': 'e.g. Sunny 1BHK near station',
+    'roomArea': 'Area / Locality',
+    'roomAddressOptional': 'Full Address (optional)',
+    'roomType': 'Room Type',
+    'sharedRoom': 'Shared',
+    'monthlyRent': 'Monthly Rent (₹)',
+    'deposit': 'Deposit (₹)',
+    'maxOccupants': 'Max Occupants',
+    'availableFrom': 'Available From',
+    'amenities': 'Amenities',
+    'perMonth': '/month',
+    'upToOccupants': 'Up to {count} people',
+    'water': '24h Water',
+    'electricity': 'Electricity',
+    'parking': 'Parking',
+    'wifi': 'Wi-Fi',
+    'furnished': 'Furnished',
+    'attachedBathroom': 'Attached Bathroom',
+    'kitchen': 'Kitchen',
+    'available': 'Available',
+    'paused': 'Paused',
+    'occupied': 'Occupied',
+    'pauseListing': 'Pause',
+    'resumeListing': 'Resume',
+    'confirmDeleteRoom': 'Delete this listing? This cannot be undone.',
+    'roomCreated': 'Room listed successfully!',
+    'roomUpdated': 'Room updated successfully!',
+    'roomDeleted': 'Room deleted',
+    'roomPausedToast': 'Listing paused. Tenants will not see it.',
+    'roomResumedToast': 'Listing is live again.',
+    'noRoomsYet': 'You have not listed any rooms yet.',
+    'pleaseFillRoomDetails': 'Please fill in the title, area, rent and availability date.',
+    'invalidOccupants': 'Max occupants must be at least 1.',
+    'photos': 'Photos',
+    'roomPhotos': 'Room Photos',
+    'addPhotos': 'Add Photos',
+    'compressingPhoto': 'Compressing…',
+    'cover': 'Cover',
+    'setAsCover': 'Set as cover',
+    'moveEarlier': 'Move earlier',
+    'moveLater': 'Move later',
+    'removePhoto': 'Remove photo',
+    'savePhotos': 'Save Photos',
+    'photosSaved': 'Photos updated!',
+    'noPhotosYet': 'No photos yet. Listings with photos get more interest.',
+    'maxPhotosReached': 'You can add up to {count} photos per room.',
+
+    // Room browsing
+    'browseRooms': 'Browse Rooms',
+    'backToDashboard': 'Back to dashboard',
+    'backToRooms': 'Back to rooms',
+    'minRent': 'Min Rent (₹)',
+    'maxRent': 'Max Rent (₹)',
+    'anyRoomType': 'Any type',
+    'occupants': 'Occupants',
+    'applyFilters': 'Apply',
+    'clearFilters': 'Clear',
+    'sortBy': 'Sort by',
+    'sortNewest': 'Newest first',
+    'sortRentLowHigh': 'Rent: low to high',
+    'sortRentHighLow': 'Rent: high to low',
+    'sortAvailableSoonest': 'Available soonest',
+    'roomsFound': '{count} rooms found',
+    'noRoomsMatch': 'No rooms match these filters.',
+    'previous': 'Previous',
+    'next': 'Next',
+    'pageOf': 'Page {page} of {total}',
+    'listedBy': 'Listed by',
+    'noPhotosAvailable': 'No photos available',
+    'imInterested': 'I\'m interested',
+    'expressInterestHint': 'Let the owner know you are interested. Contact details are shared once they accept.',
+    'interestSent': 'Your interest has been sent to the owner!',
+    'interestPending': 'Interest sent. Waiting for the owner to respond.',
+    'interestAccepted': 'The owner accepted. Find their contact under Secured Contacts.',
+
+    // Tenant preferences
+    'myPreferences': 'My Preferences',
+    'lookingFor': 'What are you looking for? (optional)',
+    'budget': 'Budget',
+    'budgetRange': 'Monthly budget (₹)',
+    'preferredAreas': 'Preferred areas',
+    'addAreaPlaceholder': 'Type an area and press Enter',
+    'add': 'Add',
+    'moveInDate': 'Move-in date',
+    'roomTypeWanted': 'Room type wanted',
+    'occupation': 'Occupation',
+    'occupationPlaceholder': 'e.g. Student, Factory worker, Teacher',
+    'hasPets': 'Pets',
+    'vegetarian': 'Vegetarian',
+    'preferNotToSay': 'Not specified',
+    'yes': 'Yes',
+    'no': 'No',
+    'invalidBudgetRange': 'Minimum budget cannot be more than the maximum',
+    'noPreferencesYet': 'Add your budget, areas and move-in date so landlords know what you need.',
+    'preferencesSaved': 'Preferences saved',
+
+    // Tenant match scoring
+    'defaultOrder': 'Default order',
+    'bestMatchesFor': 'Best matches for {room}',
+    'bestMatchesHint': 'All tenants matching your filters, best fit first',
+    'matchPercent': '{score}% match',
+    'matchFactorArea': 'Area',
+    'matchFactorBudget': 'Budget',
+    'matchFactorFamily': 'Family size',
+    'matchFactorMoveIn': 'Move-in',
+    'matchAreaPreferred': 'Room is in one of their preferred areas',
+    'matchAreaCurrent': 'Room is in the area they live in now',
+    'matchAreaElsewhere': 'They prefer other areas',
+    'matchAreaUnknown': 'No area preference given',
+    'matchBudgetWithin': 'Rent is within their budget',
+    'matchBudgetUnder': 'Rent is below their budget',
+    'matchBudgetOver': 'Rent is above their budget',
+    'matchBudgetUnknown': 'No budget given',
+    'matchFamilyFits': 'Family fits the room\'s occupancy',
+    'matchFamilyTooLarge': 'Family is larger than the room allows',
+    'matchFamilyUnknown': 'Family size not given',
+    'matchMoveInReady': 'Room is free by their move-in date',
+    'matchMoveInLater': 'Room is free after their move-in date',
+    'matchMoveInUnknown': 'No move-in date given',
+
+    // Saved tenant searches
+    'savedSearches': 'Saved searches',
+    'saveThisSearch': 'Save this search',
+    'savedSearchName': 'Name this search, e.g. Small families in Kothrud',
+    'searchSaved': 'Search saved. We\'ll alert you when new tenants match it.',
+    'rename': 'Rename',
+    'confirmDeleteSavedSearch': 'Delete the saved search "{name}"?',
+    'newCount': '{count} new',
+    'newTenantMatches': 'New tenant matches',
+    'noNewMatches': 'No new tenants match your saved searches yet.',
+    'viewSearch': 'View search',
+
+    // Tenant shortlist
+    'shortlisted': 'Shortlisted',
+    'addToShortlist': 'Add to shortlist',
+    'removeFromShortlist': 'Remove from shortlist',
+    'shortlistHint': 'Tenants you starred. Shortlisting does not use one of your request slots.',
+    'noShortlistedTenants': 'No shortlisted tenants yet. Tap ☆ on a tenant card to remember them.',
+    'shortlistedOn': 'Shortlisted on {date}',
+    'privateNote': 'Private note',
+    'privateNotePlaceholder': 'Only you can see this note',
+    'shortlistTenantInactive': '{name} from your shortlist is no longer looking for a room.',
+    'shortlistTenantActive': '{name} from your shortlist is looking for a room again.',
+    'dismiss': 'Dismiss',
+
+    // Rental request message
+    'requestTo': 'To {name}',
+    'linkRoomOptional': 'Link one of your rooms (optional)',
+    'noRoomLinked': 'No room linked',
+    'linkedRoom': 'Room',
+    'messageOptional': 'Message (optional)',
+    'messagePlaceholder': 'Introduce yourself or tell the tenant about the room',
+    'templateIntroLabel': 'Introduce myself',
+    'templateIntro': 'Namaste {tenant}, I am {malik}. I have a room that may suit your family. Please accept so we can talk.',
+    'templateRoomLabel': 'About the room',
+    'templateRoom': 'Hello {tenant}, {room} is available now. It is clean, with water and electricity. Accept this request to get my contact.',
+    'templateVisitLabel': 'Invite for a visit',
+    'templateVisit': 'Hello {tenant}, you are welcome to come and see {room} this week. Accept and call me to fix a time.',
+    'aRoom': 'my room',
+
+    // Withdrawing requests
+    'withdraw': 'Withdraw',
+    'withdrawn': 'Withdrawn',
+    'confirmWithdrawRequest': 'Withdraw your request to {name}? This frees a request slot right away, but you still have to wait out the {tenantCooldownHours}-hour cooldown before contacting this tenant again.',
+    'requestWithdrawn': 'Request withdrawn. The slot is free again.',
+    'withdrawnCooldownNote': 'You can contact this tenant again in {hoursRemaining}h.',
+
+    // Request timeline
+    'showHistory': 'Show history ({count})',
+    'hideHistory': 'Hide history',
+    'eventCreated': 'Request sent',
+    'eventViewed': 'Seen by tenant',
+    'eventAccepted': 'Accepted',
+    'eventRejected': 'Rejected',
+    'eventExpired': 'Expired',
+    'eventWithdrawn': 'Withdrawn',
+    'eventBy': 'by {name}',
+    'actorMalik': 'Landlord',
+    'actorBhadot': 'Tenant',
+    'actorSystem': 'Automatically',
+
+    // Seen receipts and reminders
+    'justNow': 'just now',
+    'minutesAgo': '{count}m ago',
+    'hoursAgo': '{count}h ago',
+    'daysAgo': '{count}d ago',
+    'seenAgo': 'Seen {time}',
+    'notSeenYet': 'Not seen yet',
+    'sendReminder': 'Send reminder',
+    'reminderSent': 'Reminder sent {time}',
+    'reminderSentToast': 'Reminder sent to {name}',
+    'confirmSendReminder': 'Send {name} a reminder about your request? You can only do this once per request.',
+    'ownerSentReminder': 'The owner sent you a reminder about this offer',
+    'eventNudged': 'Reminder sent',
+
+    // Tenant-initiated interest requests
+    'incomingInterest': 'Incoming interest',
+    'noIncomingInterest': 'No tenant has asked to connect yet.',
+    'interestAboutAnyRoom': 'Asking about any of your rooms',
+    'interestAcceptedToast': 'You accepted {name}\'s request. They can now see your contact.',
+    'interestRejectedToast': 'You declined {name}\'s request.',
+    'interestTargetRoom': 'About this room',
+    'interestTargetOwner': 'About any room from {name}',
+    'interestMessagePlaceholder': 'Introduce yourself: family size, work, when you want to move in',
+    'interestsLeftToday': 'You can contact {count} more owners today.',
+    'interestLimitUntil': 'Daily limit reached. You can contact another owner after {time}.',
+    'myInterests': 'My interest requests',
+    'interestTo': 'To {name}',
+
+    // Counter-offers
+    'negotiation': 'Negotiation',
+    'offerOpen': 'Awaiting reply',
+    'offerAccepted': 'Accepted',
+    'offerDeclined': 'Declined',
+    'offerCountered': 'Countered',
+    'moveInFrom': 'from {date}',
+    'occupantsCount': '{count} people',
+    'counterOffer': 'Counter-offer',
+    'counterOfferHint': 'Propose different terms. The other side can accept, decline or counter again.',
+    'sendCounterOffer': 'Send counter-offer',
+    'offerNoChanges': 'Change at least one of the terms.',
+    'offerInvalid': 'Rent and occupants must be positive numbers.',
+    'counterOfferSent': 'Counter-offer sent',
+    'offerAcceptedToast': 'Offer accepted. Contact details are now shared.',
+    'offerDeclinedToast': 'Offer declined',
+    'waitingForOwnerReply': 'Waiting for the owner to reply to your offer',
+    'waitingForTenantReply': 'Waiting for the tenant to reply to your counter-offer',
+    'tenantProposed': 'The tenant proposed new terms',
+    'ownerCountered': 'The owner countered your offer',
+    'decline': 'Decline',
+    'eventCountered': 'Counter-offer',
+    'agreedTerms': 'Agreed terms',
+
+    // Room visits
+    'visitSlots': 'Visit slots',
+    'addSlot': 'Add slot',
+    'minutesDuration': '{count} min',
+    'slotMustBeFuture': 'Pick a date and time in the future.',
+    'noSlotsYet': 'No upcoming slots. Add times when tenants can come and see the room.',
+    'bookedBy': 'Booked by {name}',
+    'bookVisit': 'Book a visit',
+    'rescheduleVisit': 'Reschedule visit',
+    'noFreeSlots': 'The owner has no free visit slots right now. Check back later or message them.',
+    'confirmVisit': 'Confirm visit',
+    'upcomingVisits': 'Upcoming visits',
+    'addToCalendar': 'Add to calendar',
+    'reschedule': 'Reschedule',
+    'cancelVisit': 'Cancel',
+    'visitCalendarTitle': 'Room visit: {room}',
+    'roomVisit': 'Room visit',
+    'visitCalendarWith': 'With {name}',
+    'visitBooked': 'Visit booked',
+    'visitRescheduled': 'Visit rescheduled',
+    'visitCancelled': 'Visit cancelled',
+    'confirmCancelVisit': 'Cancel this visit? The slot will be freed for other tenants.',
+    'visitOn': 'Visit on {time}',
+
+    // Tenancy outcomes
+    'outcomeMovedIn': 'Moved in',
+    'outcomeDidNotWork': 'Didn\'t work out',
+    'outcomePickReason': 'What happened?',
+    'outcomeNotePlaceholder': 'Anything else? (optional)',
+    'reasonRentTooHigh': 'Rent or deposit too high',
+    'reasonRoomNotAsDescribed': 'Room was not as described',
+    'reasonFoundAnother': 'Found another option',
+    'reasonNoResponse': 'The other side stopped responding',
+    'reasonOther': 'Other',
+    'didTenantMoveIn': 'Did {name} move in?',
+    'didYouMoveIn': 'Did you move into {name}\'s place?',
+    'confirmOutcomes': 'Confirm what happened',
+    'confirmOutcomesHint': 'Let us know which accepted contacts became tenants. Moved-in rooms are marked Occupied automatically.',
+    'outcomeSaved': 'Thanks, outcome saved',
+    'outcomeReportedMovedIn': 'You confirmed the move-in',
+    'outcomeReportedDidNotWork': 'You reported this didn\'t work out',
+
+    // Tenancies and rent ledger
+    'rentLedger': 'Tenants & Rent',
+    'rentLedgerHint': 'Record rent as it comes in; overdue months are worked out from each tenant\'s due day.',
+    'noTenanciesYet': 'No tenancies yet. Once you confirm a tenant moved in, add them here to start their ledger.',
+    'noTenancyCandidates': 'No tenant has been reported as moved in yet',
+    'addTenancy': 'Add tenancy',
+    'addTenancyHint': 'Pick a tenant who moved in. Rent and move-in date are filled in from what you agreed.',
+    'tenant': 'Tenant',
+    'selectTenant': 'Select tenant',
+    'room': 'Room',
+    'selectRoom': 'Select room',
+    'rentDueDay': 'Rent due on day (1-28)',
+    'tenancyPickTenantAndRoom': 'Please pick a tenant and a room',
+    'tenancyInvalid': 'Enter a rent above 0, a deposit of 0 or more and a due day from 1 to 28',
+    'tenancyCreated': 'Tenancy added',
+    'confirmEndTenancy': 'Mark {name} as moved out today?',
+    'tenancyEndedToast': 'Tenancy ended; the ledger is kept',
+    'tenancyEnded': 'Moved out',
+    'endTenancy': 'Mark moved out',
+    'tenancySince': 'Since {date}',
+    'dueOnDay': 'Due on day {day}',
+    'dueBy': 'Due by {date}',
+    'overdueMonths': '{count} month(s) overdue',
+    'totalPaid': 'Total paid',
+    'outstanding': 'Overdue amount',
+    'nextDue': 'Next due',
+    'showLedger': 'Show month-by-month',
+    'hideLedger': 'Hide month-by-month',
+    'ledgerEmpty': 'Rent starts from the move-in month',
+    'ledgerPaid': 'Paid',
+    'ledgerOverdue': 'Overdue',
+    'ledgerUpcoming': 'Not due yet',
+    'creditCarried': '{amount} paid in advance counts towards the coming months',
+    'creditApplied': '{amount} covered by an earlier overpayment',
+    'downloadStatement': 'Download statement',
+    'recordPayment': 'Record payment',
+    'recordPaymentFrom': 'Rent received from {name}',
+    'rentForMonth': 'Rent for month',
+    'balanceDue': '{amount} due',
+    'amount': 'Amount',
+    'paidOn': 'Paid on',
+    'paymentMethod': 'Paid by',
+    'cash': 'Cash',
+    'upiReference': 'UPI reference',
+    'upiReferenceOptional': 'UPI reference (optional)',
+    'noteOptional': 'Note (optional)',
+    'paymentInvalid': 'Pick a month and enter an amount above 0',
+    'paymentRecorded': 'Payment recorded',
+    'myTenancy': 'My tenancy',
+    'myTenancyHint': 'Rent your owner has recorded. Ask them to correct anything that looks wrong.',
   },
   hi: {
     // Common
@@ -193,6 +599,37 @@ const translations: Record<Language, Record<string, string>> = {
     'loading': 'लोड हो रहा है...',
     'error': 'त्रुटि',
     'success': 'सफल',
+    'retry': 'पुनः प्रयास करें',
+    'goHome': 'होम पर जाएं',
+    'loadFailed': 'आपका डैशबोर्ड लोड नहीं हो सका',
+    'loadFailedNetwork': 'कृपया अपना कनेक्शन जांचें और पुनः प्रयास करें।',
+    'loadFailedContract': 'सर्वर से मिला डेटा पढ़ा नहीं जा सका। कृपया थोड़ी देर बाद पुनः प्रयास करें।',
+    'accessDenied': 'प्रवेश वर्जित',
+    'accessDeniedMessage': 'आप किसी दूसरे खाते से लॉग इन हैं। आप केवल अपना डैशबोर्ड देख सकते हैं।',
+    'goToMyDashboard': 'मेरे डैशबोर्ड पर जाएं',
+    'sessionExpired': 'आपका सत्र समाप्त हो गया है। कृपया फिर से लॉग इन करें।',
+
+    // API errors
+    'errorNetwork': 'सर्वर से संपर्क नहीं हो सका। कृपया अपना इंटरनेट कनेक्शन जांचें।',
+    'errorBadRequest': 'कुछ जानकारी अमान्य है। कृपया जांचें और पुनः प्रयास करें।',
+    'errorUnauthorized': 'आपका सत्र समाप्त हो गया है। कृपया फिर से लॉगिन करें।',
+    'errorForbidden': 'आपको यह करने की अनुमति नहीं है।',
+    'errorNotFound': 'मांगा गया रिकॉर्ड नहीं मिला।',
+    'errorConflict': 'यह रिकॉर्ड पहले से मौजूद है।',
+    'errorRequestLimit': 'अधिकतम {maxPending} लंबित अनुरोध की अनुमति है। अधिक भेजने के लिए अपने सबसे पुराने लंबित अनुरोध के {pendingWindowHours} घंटे बाद तक प्रतीक्षा करें।',
+    'errorTenantCooldown': 'आप इस किरायेदार को {hoursRemaining} घंटे बाद नया अनुरोध भेज सकते हैं।',
+    'errorRequestWithdrawn': 'मालिक ने यह प्रस्ताव वापस ले लिया है।',
+    'errorNudgeNotAllowed': 'इस अनुरोध के लिए अब रिमाइंडर नहीं भेजा जा सकता।',
+    'errorInterestLimit': 'आप एक दिन में अधिकतम {maxInterestsPerDay} रुचि अनुरोध भेज सकते हैं। कृपया बाद में पुनः प्रयास करें।',
+    'errorOfferClosed': 'इस प्रस्ताव का पहले ही जवाब दिया जा चुका है। नवीनतम शर्तें देखने के लिए रीफ्रेश करें।',
+    'errorSlotTaken': 'यह स्लॉट अभी किसी और ने बुक कर लिया। कृपया दूसरा चुनें।',
+    'errorRateLimited': 'बहुत अधिक प्रयास। कृपया थोड़ी देर बाद पुनः प्रयास करें।',
+    'errorOtpInvalid': 'गलत कोड। {attemptsRemaining} प्रयास शेष।',
+    'errorOtpExpired': 'यह कोड समाप्त हो गया है। कृपया नया कोड मांगें।',
+    'errorOtpAttemptsExceeded': 'बहुत अधिक गलत प्रयास। कृपया नया कोड मांगें।',
+    'errorContractViolation': 'सर्वर से मिला डेटा पढ़ा नहीं जा सका। कृपया थोड़ी देर बाद पुनः प्रयास करें।',
+    'errorServer': 'हमारी ओर से कुछ गड़बड़ हुई। कृपया पुनः प्रयास करें।',
+    'errorUnknown': 'कुछ गड़बड़ हो गई। कृपया पुनः प्रयास करें।',
 
     // Role Switcher
     'roomRentConnect': 'रूम रेंट कनेक्ट',
@@ -228,17 +665,33 @@ const translations: Record<Language, Record<string, string>> = {
     'register': 'पंजीकरण करें',
     'registering': 'पंजीकरण हो रहा है...',
 
+    // OTP Verification
+    'verifyYourNumber': 'अपना नंबर सत्यापित करें',
+    'otpSentTo': '{phone} पर भेजा गया 6 अंकों का कोड दर्ज करें',
+    'sendCodeVia': 'कोड भेजें',
+    'whatsapp': 'व्हाट्सएप',
+    'sms': 'एसएमएस',
+    'sendingCode': 'कोड भेज रहे हैं...',
+    'enterOtp': '6 अंकों का कोड दर्ज करें',
+    'verify': 'सत्यापित करें',
+    'verifying': 'सत्यापित हो रहा है...',
+    'resendCode': 'कोड फिर से भेजें',
+    'resendIn': '{seconds} सेकंड में फिर से भेजें',
+    'attemptsLeft': '{count} प्रयास शेष',
+    'codeExpiresIn': 'कोड {time} में समाप्त होगा',
+    'changeNumber': 'नंबर बदलें',
+
     // Malik Dashboard
     'searchAvailableTenants': 'उपलब्ध किरायेदारों की खोज करें और किराया अनुरोध भेजें',
     'allTenants': 'सभी किरायेदार',
     'pendingRequests': 'लंबित अनुरोध',
-    'limitReached': 'सीमा पहुंच गई - 24 घंटे प्रतीक्षा करें',
+    'limitReached': 'सीमा पहुंच गई - {pendingWindowHours} घंटे प्रतीक्षा करें',
     'sendRequest': 'अनुरोध भेजें',
     'requestSent': 'अनुरोध भेज दिया गया',
     'limitReachedBtn': 'सीमा पहुंच गई',
     'nextRequestAvailable': 'अगला अनुरोध उपलब्ध होगा',
     'canSendMoreRequests': 'आप {count} और अनुरोध भेज सकते हैं',
-    'waitFor24Hours': 'अधिक भेजने के लिए अपने सबसे पुराने लंबित अनुरोध के 24 घंटे बाद प्रतीक्षा करें',
+    'waitForPendingWindow': 'अधिक भेजने के लिए अपने सबसे पुराने लंबित अनुरोध के {pendingWindowHours} घंटे बाद प्रतीक्षा करें',
     'availableIn': 'उपलब्ध होगा',
     'sendRequestToAll': 'सभी को अनुरोध भेजें',
     'sendingToAll': 'सभी को भेज रहे हैं...',
@@ -292,6 +745,15 @@ const translations: Record<Language, Record<string, string>> = {
     'disconnected': 'डिस्कनेक्टेड',
     'saving': 'सहेज रहे हैं...',
     'noTenantsFound': 'कोई उपलब्ध किरायेदार नहीं मिला',
+    'search': 'खोजें',
+    'searchTenantsByName': 'नाम से किरायेदार खोजें',
+    'filters': 'फ़िल्टर',
+    'familySizeRange': 'परिवार का आकार',
+    'min': 'न्यूनतम',
+    'max': 'अधिकतम',
+    'anyStatus': 'कोई भी स्थिति',
+    'registeredFrom': 'पंजीकरण से',
+    'registeredTo': 'पंजीकरण तक',
     'completeProfile': 'अपना प्रोफाइल पूरा करें',
     'provideAdditionalInfo': 'कृपया जारी रखने के लिए अतिरिक्त जानकारी प्रदान करें।',
     'pleaseSelectCast': 'कृपया अपनी जाति चुनें',
@@ -305,13 +767,345 @@ const translations: Record<Language, Record<string, string>> = {
     'bhadotStatusInactive': 'निष्क्रिय (OFF)',
     'bhadotStatusHint': 'मालिक को अपना डेटा दिखाने के लिए इसे ON रखें और मालिक को अपना डेटा नहीं दिखाने के लिए इसे OFF करें।',
     'accountInactiveWarning': 'आपका प्रोफाइल निष्क्रिय हो जाएगा',
-    'accountInactiveMessage': 'अनुरोध स्वीकार करने के 5 दिन बाद, आपका प्रोफाइल स्वचालित रूप से निष्क्रिय हो जाएगा। आप ऊपर दिए गए टॉगल का उपयोग करके इसे कभी भी पुनः सक्रिय कर सकते हैं।',
+    'accountInactiveMessage': 'अनुरोध स्वीकार करने के {acceptedExpiryDays} दिन बाद, आपका प्रोफाइल स्वचालित रूप से निष्क्रिय हो जाएगा। आप ऊपर दिए गए टॉगल का उपयोग करके इसे कभी भी पुनः सक्रिय कर सकते हैं।',
 
     // Chat Widget
     'supportChat': 'सहायता चैट',
     'startConversation': 'एडमिन के साथ बातचीत शुरू करें',
     'typeMessage': 'संदेश टाइप करें...',
     'chatWithAdmin': 'एडमिन से चैट करें',
+
+    // Room listings
+    'myRooms': 'मेरे कमरे',
+    'addRoom': 'कमरा जोड़ें',
+    'editRoom': 'कमरा संपादित करें',
+    'saveRoom': 'कमरा सहेजें',
+    'roomTitle': 'लिस्टिंग शीर्षक',
+    'roomTitlePlaceholder': 'जैसे स्टेशन के पास हवादार 1BHK',
+    'roomArea': 'क्षेत्र / इलाका',
+    'roomAddressOptional': 'पूरा पता (वैकल्पिक)',
+    'roomType': 'कमरे का प्रकार',
+    'sharedRoom': 'साझा',
+    'monthlyRent': 'मासिक किराया (₹)',
+    'deposit': 'जमा राशि (₹)',
+    'maxOccupants': 'अधिकतम सदस्य',
+    'availableFrom': 'उपलब्ध तिथि',
+    'amenities': 'सुविधाएं',
+    'perMonth': '/माह',
+    'upToOccupants': 'अधिकतम {count} लोग',
+    'water': '24 घंटे पानी',
+    'electricity': 'बिजली',
+    'parking': 'पार्किंग',
+    'wifi': 'वाई-फाई',
+    'furnished': 'फर्निश्ड',
+    'attachedBathroom': 'अटैच्ड बाथरूम',
+    'kitchen': 'रसोई',
+    'available': 'उपलब्ध',
+    'paused': 'रोका गया',
+    'occupied': 'भरा हुआ',
+    'pauseListing': 'रोकें',
+    'resumeListing': 'फिर से शुरू करें',
+    'confirmDeleteRoom': 'यह लिस्टिंग हटाएं? इसे वापस नहीं लाया जा सकता।',
+    'roomCreated': 'कमरा सफलतापूर्वक सूचीबद्ध हुआ!',
+    'roomUpdated': 'कमरा सफलतापूर्वक अपडेट हुआ!',
+    'roomDeleted': 'कमरा हटाया गया',
+    'roomPausedToast': 'लिस्टिंग रोकी गई। किरायेदार इसे नहीं देखेंगे।',
+    'roomResumedToast': 'लिस्टिंग फिर से चालू है।',
+    'noRoomsYet': 'आपने अभी तक कोई कमरा सूचीबद्ध नहीं किया है।',
+    'pleaseFillRoomDetails': 'कृपया शीर्षक, क्षेत्र, किराया और उपलब्धता तिथि भरें।',
+    'invalidOccupants': 'अधिकतम सदस्य कम से कम 1 होने चाहिए।',
+    'photos': 'फ़ोटो',
+    'roomPhotos': 'कमरे की फ़ोटो',
+    'addPhotos': 'फ़ोटो जोड़ें',
+    'compressingPhoto': 'छोटा किया जा रहा है…',
+    'cover': 'कवर',
+    'setAsCover': 'कवर बनाएं',
+    'moveEarlier': 'पहले करें',
+    'moveLater': 'बाद में करें',
+    'removePhoto': 'फ़ोटो हटाएं',
+    'savePhotos': 'फ़ोटो सहेजें',
+    'photosSaved': 'फ़ोटो अपडेट हो गईं!',
+    'noPhotosYet': 'अभी कोई फ़ोटो नहीं। फ़ोटो वाली लिस्टिंग को ज़्यादा रुचि मिलती है।',
+    'maxPhotosReached': 'आप हर कमरे में अधिकतम {count} फ़ोटो जोड़ सकते हैं।',
+
+    // Room browsing
+    'browseRooms': 'कमरे देखें',
+    'backToDashboard': 'डैशबोर्ड पर वापस',
+    'backToRooms': 'कमरों पर वापस',
+    'minRent': 'न्यूनतम किराया (₹)',
+    'maxRent': 'अधिकतम किराया (₹)',
+    'anyRoomType': 'कोई भी प्रकार',
+    'occupants': 'सदस्य',
+    'applyFilters': 'लागू करें',
+    'clearFilters': 'साफ़ करें',
+    'sortBy': 'क्रमबद्ध करें',
+    'sortNewest': 'नए पहले',
+    'sortRentLowHigh': 'किराया: कम से ज़्यादा',
+    'sortRentHighLow': 'किराया: ज़्यादा से कम',
+    'sortAvailableSoonest': 'जल्द उपलब्ध',
+    'roomsFound': '{count} कमरे मिले',
+    'noRoomsMatch': 'इन फ़िल्टर से कोई कमरा नहीं मिला।',
+    'previous': 'पिछला',
+    'next': 'अगला',
+    'pageOf': 'पेज {page} / {total}',
+    'listedBy': 'द्वारा सूचीबद्ध',
+    'noPhotosAvailable': 'कोई फ़ोटो उपलब्ध नहीं',
+    'imInterested': 'मुझे रुचि है',
+    'expressInterestHint': 'मालिक को बताएं कि आपको रुचि है। स्वीकार करने पर संपर्क विवरण साझा किए जाएंगे।',
+    'interestSent': 'आपकी रुचि मालिक को भेज दी गई है!',
+    'interestPending': 'रुचि भेजी गई। मालिक के जवाब का इंतज़ार है।',
+    'interestAccepted': 'मालिक ने स्वीकार किया। उनका संपर्क सुरक्षित संपर्क में देखें।',
+
+    // Tenant preferences
+    'myPreferences': 'मेरी पसंद',
+    'lookingFor': 'आप क्या ढूंढ रहे हैं? (वैकल्पिक)',
+    'budget': 'बजट',
+    'budgetRange': 'मासिक बजट (₹)',
+    'preferredAreas': 'पसंदीदा क्षेत्र',
+    'addAreaPlaceholder': 'क्षेत्र लिखें और Enter दबाएं',
+    'add': 'जोड़ें',
+    'moveInDate': 'शिफ्ट होने की तारीख',
+    'roomTypeWanted': 'चाहिए कमरे का प्रकार',
+    'occupation': 'व्यवसाय',
+    'occupationPlaceholder': 'जैसे छात्र, फैक्ट्री कर्मचारी, शिक्षक',
+    'hasPets': 'पालतू जानवर',
+    'vegetarian': 'शाकाहारी',
+    'preferNotToSay': 'नहीं बताया',
+    'yes': 'हाँ',
+    'no': 'नहीं',
+    'invalidBudgetRange': 'न्यूनतम बजट अधिकतम से ज़्यादा नहीं हो सकता',
+    'noPreferencesYet': 'अपना बजट, क्षेत्र और शिफ्ट होने की तारीख जोड़ें ताकि मकान मालिक जान सकें आपको क्या चाहिए।',
+    'preferencesSaved': 'पसंद सहेजी गई',
+
+    // Tenant match scoring
+    'defaultOrder': 'सामान्य क्रम',
+    'bestMatchesFor': '{room} के लिए सबसे उपयुक्त',
+    'bestMatchesHint': 'आपके फ़िल्टर से मेल खाते सभी किरायेदार, सबसे उपयुक्त पहले',
+    'matchPercent': '{score}% मेल',
+    'matchFactorArea': 'क्षेत्र',
+    'matchFactorBudget': 'बजट',
+    'matchFactorFamily': 'परिवार का आकार',
+    'matchFactorMoveIn': 'शिफ्टिंग',
+    'matchAreaPreferred': 'कमरा उनके पसंदीदा क्षेत्र में है',
+    'matchAreaCurrent': 'कमरा उनके वर्तमान क्षेत्र में है',
+    'matchAreaElsewhere': 'वे दूसरे क्षेत्र पसंद करते हैं',
+    'matchAreaUnknown': 'क्षेत्र की पसंद नहीं बताई',
+    'matchBudgetWithin': 'किराया उनके बजट में है',
+    'matchBudgetUnder': 'किराया उनके बजट से कम है',
+    'matchBudgetOver': 'किराया उनके बजट से ज़्यादा है',
+    'matchBudgetUnknown': 'बजट नहीं बताया',
+    'matchFamilyFits': 'परिवार कमरे की क्षमता में आता है',
+    'matchFamilyTooLarge': 'परिवार कमरे की क्षमता से बड़ा है',
+    'matchFamilyUnknown': 'परिवार का आकार नहीं बताया',
+    'matchMoveInReady': 'कमरा उनकी शिफ्टिंग की तारीख तक खाली है',
+    'matchMoveInLater': 'कमरा उनकी शिफ्टिंग की तारीख के बाद खाली होगा',
+    'matchMoveInUnknown': 'शिफ्टिंग की तारीख नहीं बताई',
+
+    // Saved tenant searches
+    'savedSearches': 'सहेजी गई खोजें',
+    'saveThisSearch': 'यह खोज सहेजें',
+    'savedSearchName': 'खोज का नाम रखें, जैसे कोथरूड में छोटे परिवार',
+    'searchSaved': 'खोज सहेजी गई। नए किरायेदार मिलने पर हम आपको सूचित करेंगे।',
+    'rename': 'नाम बदलें',
+    'confirmDeleteSavedSearch': 'सहेजी गई खोज "{name}" हटाएं?',
+    'newCount': '{count} नए',
+    'newTenantMatches': 'नए मेल खाते किरायेदार',
+    'noNewMatches': 'अभी तक कोई नया किरायेदार आपकी सहेजी गई खोजों से मेल नहीं खाता।',
+    'viewSearch': 'खोज देखें',
+
+    // Tenant shortlist
+    'shortlisted': 'शॉर्टलिस्ट',
+    'addToShortlist': 'शॉर्टलिस्ट में जोड़ें',
+    'removeFromShortlist': 'शॉर्टलिस्ट से हटाएं',
+    'shortlistHint': 'आपके चुने हुए किरायेदार। शॉर्टलिस्ट करने से आपका अनुरोध स्लॉट इस्तेमाल नहीं होता।',
+    'noShortlistedTenants': 'अभी कोई शॉर्टलिस्ट किरायेदार नहीं। याद रखने के लिए किरायेदार कार्ड पर ☆ दबाएं।',
+    'shortlistedOn': '{date} को शॉर्टलिस्ट किया',
+    'privateNote': 'निजी नोट',
+    'privateNotePlaceholder': 'यह नोट केवल आप देख सकते हैं',
+    'shortlistTenantInactive': 'आपकी शॉर्टलिस्ट के {name} अब कमरा नहीं ढूंढ रहे हैं।',
+    'shortlistTenantActive': 'आपकी शॉर्टलिस्ट के {name} फिर से कमरा ढूंढ रहे हैं।',
+    'dismiss': 'हटाएं',
+
+    // Rental request message
+    'requestTo': '{name} को',
+    'linkRoomOptional': 'अपना कोई कमरा जोड़ें (वैकल्पिक)',
+    'noRoomLinked': 'कोई कमरा नहीं जोड़ा',
+    'linkedRoom': 'कमरा',
+    'messageOptional': 'संदेश (वैकल्पिक)',
+    'messagePlaceholder': 'अपना परिचय दें या किरायेदार को कमरे के बारे में बताएं',
+    'templateIntroLabel': 'अपना परिचय',
+    'templateIntro': 'नमस्ते {tenant}, मैं {malik} हूँ। मेरे पास एक कमरा है जो आपके परिवार के लिए सही हो सकता है। बात करने के लिए कृपया स्वीकार करें।',
+    'templateRoomLabel': 'कमरे के बारे में',
+    'templateRoom': 'नमस्ते {tenant}, {room} अभी उपलब्ध है। साफ-सुथरा है, पानी और बिजली के साथ। मेरा संपर्क पाने के लिए यह अनुरोध स्वीकार करें।',
+    'templateVisitLabel': 'देखने के लिए बुलाएं',
+    'templateVisit': 'नमस्ते {tenant}, आप इस हफ्ते {room} देखने आ सकते हैं। स्वीकार करें और समय तय करने के लिए मुझे कॉल करें।',
+    'aRoom': 'मेरा कमरा',
+
+    // Withdrawing requests
+    'withdraw': 'वापस लें',
+    'withdrawn': 'वापस लिया',
+    'confirmWithdrawRequest': '{name} को भेजा अनुरोध वापस लें? इससे एक अनुरोध स्लॉट तुरंत खाली होगा, लेकिन इस किरायेदार से दोबारा संपर्क के लिए {tenantCooldownHours} घंटे का इंतज़ार फिर भी करना होगा।',
+    'requestWithdrawn': 'अनुरोध वापस लिया गया। स्लॉट फिर से खाली है।',
+    'withdrawnCooldownNote': 'आप इस किरायेदार से {hoursRemaining} घंटे बाद फिर संपर्क कर सकते हैं।',
+
+    // Request timeline
+    'showHistory': 'इतिहास देखें ({count})',
+    'hideHistory': 'इतिहास छिपाएं',
+    'eventCreated': 'अनुरोध भेजा गया',
+    'eventViewed': 'किरायेदार ने देखा',
+    'eventAccepted': 'स्वीकार किया गया',
+    'eventRejected': 'अस्वीकार किया गया',
+    'eventExpired': 'समाप्त हो गया',
+    'eventWithdrawn': 'वापस लिया गया',
+    'eventBy': '{name} द्वारा',
+    'actorMalik': 'मकान मालिक',
+    'actorBhadot': 'किरायेदार',
+    'actorSystem': 'स्वचालित रूप से',
+
+    // Seen receipts and reminders
+    'justNow': 'अभी',
+    'minutesAgo': '{count} मिनट पहले',
+    'hoursAgo': '{count} घंटे पहले',
+    'daysAgo': '{count} दिन पहले',
+    'seenAgo': '{time} देखा गया',
+    'notSeenYet': 'अभी तक नहीं देखा',
+    'sendReminder': 'याद दिलाएं',
+    'reminderSent': 'रिमाइंडर भेजा गया {time}',
+    'reminderSentToast': '{name} को रिमाइंडर भेजा गया',
+    'confirmSendReminder': '{name} को अपने अनुरोध के बारे में याद दिलाएं? यह हर अनुरोध पर केवल एक बार किया जा सकता है।',
+    'ownerSentReminder': 'मालिक ने इस प्रस्ताव के बारे में आपको याद दिलाया है',
+    'eventNudged': 'रिमाइंडर भेजा गया',
+
+    // Tenant-initiated interest requests
+    'incomingInterest': 'आने वाली रुचि',
+    'noIncomingInterest': 'अभी तक किसी किरायेदार ने संपर्क का अनुरोध नहीं किया है।',
+    'interestAboutAnyRoom': 'आपके किसी भी कमरे के बारे में',
+    'interestAcceptedToast': 'आपने {name} का अनुरोध स्वीकार किया। अब वे आपका संपर्क देख सकते हैं।',
+    'interestRejectedToast': 'आपने {name} का अनुरोध अस्वीकार किया।',
+    'interestTargetRoom': 'इस कमरे के बारे में',
+    'interestTargetOwner': '{name} के किसी भी कमरे के बारे में',
+    'interestMessagePlaceholder': 'अपना परिचय दें: परिवार का आकार, काम, कब शिफ्ट होना चाहते हैं',
+    'interestsLeftToday': 'आज आप {count} और मालिकों से संपर्क कर सकते हैं।',
+    'interestLimitUntil': 'दैनिक सीमा पूरी हुई। आप {time} के बाद किसी अन्य मालिक से संपर्क कर सकते हैं।',
+    'myInterests': 'मेरे रुचि अनुरोध',
+    'interestTo': '{name} को',
+
+    // Counter-offers
+    'negotiation': 'बातचीत',
+    'offerOpen': 'जवाब की प्रतीक्षा',
+    'offerAccepted': 'स्वीकार',
+    'offerDeclined': 'अस्वीकार',
+    'offerCountered': 'प्रति-प्रस्ताव दिया',
+    'moveInFrom': '{date} से',
+    'occupantsCount': '{count} लोग',
+    'counterOffer': 'प्रति-प्रस्ताव',
+    'counterOfferHint': 'अलग शर्तें प्रस्तावित करें। दूसरा पक्ष स्वीकार, अस्वीकार या फिर से प्रति-प्रस्ताव दे सकता है।',
+    'sendCounterOffer': 'प्रति-प्रस्ताव भेजें',
+    'offerNoChanges': 'कम से कम एक शर्त बदलें।',
+    'offerInvalid': 'किराया और सदस्य संख्या धनात्मक होनी चाहिए।',
+    'counterOfferSent': 'प्रति-प्रस्ताव भेजा गया',
+    'offerAcceptedToast': 'प्रस्ताव स्वीकार किया गया। संपर्क विवरण अब साझा हैं।',
+    'offerDeclinedToast': 'प्रस्ताव अस्वीकार किया गया',
+    'waitingForOwnerReply': 'आपके प्रस्ताव पर मालिक के जवाब की प्रतीक्षा है',
+    'waitingForTenantReply': 'आपके प्रति-प्रस्ताव पर किरायेदार के जवाब की प्रतीक्षा है',
+    'tenantProposed': 'किरायेदार ने नई शर्तें प्रस्तावित की हैं',
+    'ownerCountered': 'मालिक ने आपके प्रस्ताव पर प्रति-प्रस्ताव दिया है',
+    'decline': 'अस्वीकार करें',
+    'eventCountered': 'प्रति-प्रस्ताव',
+    'agreedTerms': 'तय शर्तें',
+
+    // Room visits
+    'visitSlots': 'विज़िट स्लॉट',
+    'addSlot': 'स्लॉट जोड़ें',
+    'minutesDuration': '{count} मिनट',
+    'slotMustBeFuture': 'भविष्य की तारीख और समय चुनें।',
+    'noSlotsYet': 'कोई आगामी स्लॉट नहीं। वे समय जोड़ें जब किरायेदार कमरा देखने आ सकते हैं।',
+    'bookedBy': '{name} द्वारा बुक',
+    'bookVisit': 'विज़िट बुक करें',
+    'rescheduleVisit': 'विज़िट का समय बदलें',
+    'noFreeSlots': 'अभी मालिक के पास कोई खाली विज़िट स्लॉट नहीं है। बाद में देखें या उन्हें संदेश भेजें।',
+    'confirmVisit': 'विज़िट पक्की करें',
+    'upcomingVisits': 'आगामी विज़िट',
+    'addToCalendar': 'कैलेंडर में जोड़ें',
+    'reschedule': 'समय बदलें',
+    'cancelVisit': 'रद्द करें',
+    'visitCalendarTitle': 'कमरा विज़िट: {room}',
+    'roomVisit': 'कमरा विज़िट',
+    'visitCalendarWith': '{name} के साथ',
+    'visitBooked': 'विज़िट बुक हो गई',
+    'visitRescheduled': 'विज़िट का समय बदल दिया गया',
+    'visitCancelled': 'विज़िट रद्द की गई',
+    'confirmCancelVisit': 'यह विज़िट रद्द करें? स्लॉट अन्य किरायेदारों के लिए खाली हो जाएगा।',
+    'visitOn': 'विज़िट: {time}',
+
+    // Tenancy outcomes
+    'outcomeMovedIn': 'शिफ्ट हो गए',
+    'outcomeDidNotWork': 'बात नहीं बनी',
+    'outcomePickReason': 'क्या हुआ?',
+    'outcomeNotePlaceholder': 'कुछ और? (वैकल्पिक)',
+    'reasonRentTooHigh': 'किराया या जमा राशि बहुत अधिक',
+    'reasonRoomNotAsDescribed': 'कमरा बताए अनुसार नहीं था',
+    'reasonFoundAnother': 'दूसरा विकल्प मिल गया',
+    'reasonNoResponse': 'दूसरे पक्ष ने जवाब देना बंद कर दिया',
+    'reasonOther': 'अन्य',
+    'didTenantMoveIn': 'क्या {name} शिफ्ट हो गए?',
+    'didYouMoveIn': 'क्या आप {name} के यहाँ शिफ्ट हो गए?',
+    'confirmOutcomes': 'बताएं क्या हुआ',
+    'confirmOutcomesHint': 'बताएं कौन से स्वीकृत संपर्क किरायेदार बने। जिन कमरों में कोई शिफ्ट हुआ वे अपने आप Occupied हो जाएंगे।',
+    'outcomeSaved': 'धन्यवाद, परिणाम सहेजा गया',
+    'outcomeReportedMovedIn': 'आपने शिफ्ट होने की पुष्टि की',
+    'outcomeReportedDidNotWork': 'आपने बताया कि बात नहीं बनी',
+
+    // Tenancies and rent ledger
+    'rentLedger': 'किरायेदार और किराया',
+    'rentLedgerHint': 'किराया मिलते ही दर्ज करें; बकाया महीने हर किरायेदार की देय तिथि से निकाले जाते हैं।',
+    'noTenanciesYet': 'अभी कोई किरायेदारी नहीं। किरायेदार के रहने आने की पुष्टि के बाद उनका खाता यहाँ शुरू करें।',
+    'noTenancyCandidates': 'अभी किसी किरायेदार के रहने आने की सूचना नहीं है',
+    'addTenancy': 'किरायेदारी जोड़ें',
+    'addTenancyHint': 'रहने आए किरायेदार को चुनें। किराया और आने की तारीख तय शर्तों से भर दी जाती है।',
+    'tenant': 'किरायेदार',
+    'selectTenant': 'किरायेदार चुनें',
+    'room': 'कमरा',
+    'selectRoom': 'कमरा चुनें',
+    'rentDueDay': 'किराया देय दिन (1-28)',
+    'tenancyPickTenantAndRoom': 'कृपया किरायेदार और कमरा चुनें',
+    'tenancyInvalid': '0 से अधिक किराया, 0 या अधिक जमा राशि और 1 से 28 के बीच देय दिन दर्ज करें',
+    'tenancyCreated': 'किरायेदारी जोड़ी गई',
+    'confirmEndTenancy': 'क्या {name} आज कमरा छोड़ रहे हैं?',
+    'tenancyEndedToast': 'किरायेदारी समाप्त; खाता सुरक्षित है',
+    'tenancyEnded': 'कमरा छोड़ा',
+    'endTenancy': 'कमरा छोड़ा दर्ज करें',
+    'tenancySince': '{date} से',
+    'dueOnDay': 'हर महीने {day} तारीख को देय',
+    'dueBy': '{date} तक देय',
+    'overdueMonths': '{count} महीने बकाया',
+    'totalPaid': 'कुल भुगतान',
+    'outstanding': 'बकाया राशि',
+    'nextDue': 'अगला देय',
+    'showLedger': 'महीनेवार देखें',
+    'hideLedger': 'महीनेवार छिपाएं',
+    'ledgerEmpty': 'किराया आने वाले महीने से शुरू होता है',
+    'ledgerPaid': 'भुगतान हुआ',
+    'ledgerOverdue': 'बकाया',
+    'ledgerUpcoming': 'अभी देय नहीं',
+    'creditCarried': 'अग्रिम चुकाए गए {amount} आने वाले महीनों में गिने जाएंगे',
+    'creditApplied': '{amount} पहले के अधिक भुगतान से चुकाए गए',
+    'downloadStatement': 'विवरण डाउनलोड करें',
+    'recordPayment': 'भुगतान दर्ज करें',
+    'recordPaymentFrom': '{name} से मिला किराया',
+    'rentForMonth': 'किस महीने का किराया',
+    'balanceDue': '{amount} देय',
+    'amount': 'राशि',
+    'paidOn': 'भुगतान तिथि',
+    'paymentMethod': 'भुगतान का तरीका',
+    'cash': 'नकद',
+    'upiReference': 'UPI संदर्भ',
+    'upiReferenceOptional': 'UPI संदर्भ (वैकल्पिक)',
+    'noteOptional': 'नोट (वैकल्पिक)',
+    'paymentInvalid': 'महीना चुनें और 0 से अधिक राशि दर्ज करें',
+    'paymentRecorded': 'भुगतान दर्ज किया गया',
+    'myTenancy': 'मेरी किरायेदारी',
+    'myTenancyHint': 'मालिक द्वारा दर्ज किया गया किराया। कुछ गलत लगे तो उनसे सुधार करवाएं।',
   }
 };
 
@@ -1,23 +1,29 @@
-import { useEffect, useState } from 'react';
+import { Fragment, useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import Header from '../components/Header';
 import LoadingSpinner from '../components/LoadingSpinner';
 import Toast from '../components/Toast';
 import { adminApi, malikApi, bhadotApi } from '../services/api';
 import AdminChat from '../components/AdminChat';
+import RequestPolicySettings from '../components/RequestPolicySettings';
+import RequestTimeline from '../components/RequestTimeline';
 import { useLanguage } from '../contexts/LanguageContext';
-import type { AdminStats, User, Transaction, Malik, Bhadot, RentRequestWithDetails } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import { loadRequestPolicy, withPolicyDefaults } from '../utils/requestPolicy';
+import type { AdminStats, User, Transaction, Malik, Bhadot, RentRequestWithDetails, RequestPolicy } from '../types';
 
 const ITEMS_PER_PAGE = 10;
 
 export default function AdminDashboard() {
   const navigate = useNavigate();
-  const { t } = useLanguage();
+  const { t, tError } = useLanguage();
+  const { logout } = useAuth();
   const [stats, setStats] = useState<AdminStats | null>(null);
   const [users, setUsers] = useState<{ maliks: User[]; bhadots: User[] }>({ maliks: [], bhadots: [] });
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [loading, setLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<'stats' | 'users' | 'transactions' | 'messages'>('stats');
+  const [activeTab, setActiveTab] = useState<'stats' | 'users' | 'transactions' | 'messages' | 'settings'>('stats');
+  const [requestPolicy, setRequestPolicy] = useState<RequestPolicy | null>(null);
 
   // Pagination states
   const [malikPage, setMalikPage] = useState(1);
@@ -34,6 +40,7 @@ export default function AdminDashboard() {
   const [viewUser, setViewUser] = useState<Malik | Bhadot | null>(null);
   const [viewRequests, setViewRequests] = useState<RentRequestWithDetails[]>([]);
   const [viewLoading, setViewLoading] = useState(false);
+  const [expandedRequest, setExpandedRequest] = useState<string | null>(null); // Request whose history is shown
 
   // Toast notification state
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' | 'info' } | null>(null);
@@ -45,19 +52,18 @@ export default function AdminDashboard() {
   const loadData = async () => {
     setLoading(true);
     try {
-      const [statsRes, usersRes, transactionsRes] = await Promise.all([
+      const [statsRes, usersRes, transactionsRes, policy] = await Promise.all([
         adminApi.getStats(),
         adminApi.getUsers(),
         adminApi.getTransactions(),
+        loadRequestPolicy(),
       ]);
       setStats(statsRes.data);
       setUsers(usersRes.data);
       setTransactions(transactionsRes.data);
-    } catch (error: any) {
+      setRequestPolicy(policy);
+    } catch (error) {
       console.error('Failed to load data:', error);
-      if (error.status === 401 || error.response?.status === 401) {
-        navigate('/admin/login');
-      }
     } finally {
       setLoading(false);
     }
@@ -75,12 +81,25 @@ export default function AdminDashboard() {
       });
     } catch (error) {
       setToast({
-        message: 'Failed to delete user',
+        message: tError(error),
         type: 'error'
       });
     }
   };
 
+  const handleSavePolicy = async (policy: RequestPolicy) => {
+    try {
+      const response = await adminApi.updateRequestPolicy(policy);
+      setRequestPolicy(withPolicyDefaults(response.data.policy));
+      setToast({
+        message: 'Request limits updated successfully!',
+        type: 'success'
+      });
+    } catch (error) {
+      throw new Error(tError(error));
+    }
+  };
+
   const handleEditMalik = (user: User) => {
     setEditingMalik(user.id);
     setEditFormData({
@@ -109,9 +128,9 @@ export default function AdminDashboard() {
         message: 'Malik updated successfully!',
         type: 'success'
       });
-    } catch (error: any) {
+    } catch (error) {
       setToast({
-        message: error.message || 'Failed to update Malik',
+        message: tError(error),
         type: 'error'
       });
     } finally {
@@ -129,9 +148,9 @@ export default function AdminDashboard() {
         message: 'Bhadot updated successfully!',
         type: 'success'
       });
-    } catch (error: any) {
+    } catch (error) {
       setToast({
-        message: error.message || 'Failed to update Bhadot',
+        message: tError(error),
         type: 'error'
       });
     } finally {
@@ -157,7 +176,7 @@ export default function AdminDashboard() {
       setViewRequests(requestsRes.data);
     } catch (error) {
       setToast({
-        message: 'Failed to load Malik details',
+        message: tError(error),
         type: 'error'
       });
       setViewRole(null);
@@ -180,7 +199,7 @@ export default function AdminDashboard() {
       setViewRequests(requestsRes.data);
     } catch (error) {
       setToast({
-        message: 'Failed to load Bhadot details',
+        message: tError(error),
         type: 'error'
       });
       setViewRole(null);
@@ -195,6 +214,7 @@ export default function AdminDashboard() {
     setViewRole(null);
     setViewUser(null);
     setViewRequests([]);
+    setExpandedRequest(null);
   };
 
   // Pagination calculations
@@ -270,14 +290,22 @@ export default function AdminDashboard() {
             <span className="text-xl">💬</span>
             <span>Messages</span>
           </button>
+
+          <button
+            onClick={() => setActiveTab('settings')}
+            className={`w-full text-left px-4 py-3 rounded-xl font-medium transition-all duration-200 flex items-center gap-3 ${activeTab === 'settings' ? 'bg-purple-50 text-purple-700 shadow-sm ring-1 ring-purple-100' : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900 hover:shadow-sm'
+              }`}
+          >
+            <span className="text-xl">⚙️</span>
+            <span>Settings</span>
+          </button>
         </nav>
 
         <div className="p-4 border-t border-gray-100 bg-gray-50/50">
           <button
             onClick={() => {
               if (confirm('Are you sure you want to logout?')) {
-                localStorage.removeItem('token');
-                navigate('/admin/login');
+                logout();
               }
             }}
             className="w-full text-left px-4 py-3 rounded-xl font-medium text-red-600 hover:bg-red-50 hover:shadow-sm transition-all duration-200 flex items-center gap-3 group"
@@ -297,6 +325,7 @@ export default function AdminDashboard() {
               {activeTab === 'users' && 'Master Database'}
               {activeTab === 'transactions' && 'Transaction Log'}
               {activeTab === 'messages' && 'Messages'}
+              {activeTab === 'settings' && 'Settings'}
             </h2>
             <p className="text-sm text-gray-500 mt-0.5">Welcome back, Admin</p>
           </div>
@@ -333,6 +362,30 @@ export default function AdminDashboard() {
                 <div className="text-gray-600 text-sm font-medium mb-2">Accepted</div>
                 <div className="text-3xl font-bold text-green-600">{stats.acceptedRequests}</div>
               </div>
+              <div className="bg-white rounded-3xl shadow-lg p-6 border border-gray-200">
+                <div className="text-gray-600 text-sm font-medium mb-2">Moved In</div>
+                <div className="text-3xl font-bold text-green-700">{stats.movedIn}</div>
+              </div>
+              <div className="bg-white rounded-3xl shadow-lg p-6 border border-gray-200">
+                <div className="text-gray-600 text-sm font-medium mb-2">Didn't Work Out</div>
+                <div className="text-3xl font-bold text-red-600">{stats.didNotWork}</div>
+              </div>
+              <div className="bg-white rounded-3xl shadow-lg p-6 border border-gray-200">
+                <div className="text-gray-600 text-sm font-medium mb-2">Awaiting Outcome</div>
+                <div className="text-3xl font-bold text-gray-500">{stats.awaitingOutcome}</div>
+              </div>
+              <div className="bg-white rounded-3xl shadow-lg p-6 border border-gray-200">
+                <div className="text-gray-600 text-sm font-medium mb-2">Accepted → Moved In</div>
+                <div className="text-3xl font-bold text-purple-700">
+                  {stats.everAccepted > 0 ? `${Math.round((stats.movedIn / stats.everAccepted) * 100)}%` : '-'}
+                </div>
+              </div>
+              <div className="bg-white rounded-3xl shadow-lg p-6 border border-gray-200">
+                <div className="text-gray-600 text-sm font-medium mb-2">Requests → Moved In</div>
+                <div className="text-3xl font-bold text-purple-700">
+                  {stats.totalRequests > 0 ? `${Math.round((stats.movedIn / stats.totalRequests) * 100)}%` : '-'}
+                </div>
+              </div>
             </div>
           )}
 
@@ -682,6 +735,11 @@ export default function AdminDashboard() {
             </div>
           )}
 
+          {/* Settings Tab */}
+          {activeTab === 'settings' && requestPolicy && (
+            <RequestPolicySettings policy={requestPolicy} onSave={handleSavePolicy} />
+          )}
+
           {/* Transactions Tab */}
           {activeTab === 'transactions' && (
             <div className="bg-white rounded-3xl shadow-lg p-6 border border-gray-200">
@@ -854,32 +912,52 @@ export default function AdminDashboard() {
                               </thead>
                               <tbody className="bg-white divide-y divide-gray-100">
                                 {viewRequests.map((req) => (
-                                  <tr key={req.id} className="hover:bg-gray-50 transition">
-                                    <td className="py-3 px-4 font-mono text-xs text-gray-600">{req.id}</td>
-                                    {viewRole === 'Malik' ? (
-                                      <>
-                                        <td className="py-3 px-4 font-medium text-gray-900">{req.bhadotName || '-'}</td>
-                                        <td className="py-3 px-4 text-gray-600">{req.bhadotMobile || '-'}</td>
-                                      </>
-                                    ) : (
-                                      <td className="py-3 px-4 font-medium text-gray-900">{req.malikName || '-'}</td>
+                                  <Fragment key={req.id}>
+                                    <tr
+                                      onClick={() => setExpandedRequest(expandedRequest === req.id ? null : req.id)}
+                                      className="hover:bg-gray-50 transition cursor-pointer"
+                                    >
+                                      <td className="py-3 px-4 font-mono text-xs text-gray-600">{req.id}</td>
+                                      {viewRole === 'Malik' ? (
+                                        <>
+                                          <td className="py-3 px-4 font-medium text-gray-900">{req.bhadotName || '-'}</td>
+                                          <td className="py-3 px-4 text-gray-600">{req.bhadotMobile || '-'}</td>
+                                        </>
+                                      ) : (
+                                        <td className="py-3 px-4 font-medium text-gray-900">{req.malikName || '-'}</td>
+                                      )}
+                                      <td className="py-3 px-4">
+                                        <span className={`px-3 py-1 rounded-full text-xs font-semibold ${req.status === 'Accepted'
+                                          ? 'bg-green-100 text-green-800'
+                                          : req.status === 'Rejected'
+                                            ? 'bg-red-100 text-red-800'
+                                            : req.status === 'Expired' || req.status === 'Withdrawn'
+                                              ? 'bg-gray-100 text-gray-700'
+                                              : 'bg-yellow-100 text-yellow-800'
+                                          }`}>
+                                          {req.status}
+                                        </span>
+                                        {req.initiatedBy === 'Bhadot' && (
+                                          <span className="block text-xs text-gray-500 mt-1">Sent by tenant</span>
+                                        )}
+                                        {req.malikOutcome?.result === 'MovedIn' || req.bhadotOutcome?.result === 'MovedIn' ? (
+                                          <span className="block text-xs font-semibold text-green-700 mt-1">Moved in</span>
+                                        ) : (req.malikOutcome || req.bhadotOutcome) && (
+                                          <span className="block text-xs text-red-600 mt-1">Didn't work out</span>
+                                        )}
+                                      </td>
+                                      <td className="py-3 px-4 text-gray-600 text-xs">
+                                        {new Date(req.timestamp).toLocaleString()}
+                                      </td>
+                                    </tr>
+                                    {expandedRequest === req.id && (
+                                      <tr className="bg-gray-50">
+                                        <td colSpan={viewRole === 'Malik' ? 5 : 4} className="px-4 pb-4">
+                                          <RequestTimeline request={req} defaultOpen />
+                                        </td>
+                                      </tr>
                                     )}
-                                    <td className="py-3 px-4">
-                                      <span className={`px-3 py-1 rounded-full text-xs font-semibold ${req.status === 'Accepted'
-                                        ? 'bg-green-100 text-green-800'
-                                        : req.status === 'Rejected'
-                                          ? 'bg-red-100 text-red-800'
-                                          : req.status === 'Expired'
-                                            ? 'bg-gray-100 text-gray-700'
-                                            : 'bg-yellow-100 text-yellow-800'
-                                        }`}>
-                                        {req.status}
-                                      </span>
-                                    </td>
-                                    <td className="py-3 px-4 text-gray-600 text-xs">
-                                      {new Date(req.timestamp).toLocaleString()}
-                                    </td>
-                                  </tr>
+                                  </Fragment>
                                 ))}
                               </tbody>
                             </table>
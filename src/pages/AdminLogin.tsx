@@ -1,12 +1,15 @@
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { adminApi } from '../services/api';
+import { ApiError } from '../services/errors';
 import LoadingSpinner from '../components/LoadingSpinner';
 import { useLanguage } from '../contexts/LanguageContext';
+import { useAuth } from '../contexts/AuthContext';
 
 export default function AdminLogin() {
   const navigate = useNavigate();
-  const { t } = useLanguage();
+  const { t, tError } = useLanguage();
+  const { login } = useAuth();
   const [id, setId] = useState('');
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
@@ -20,13 +23,13 @@ export default function AdminLogin() {
     try {
       const response = await adminApi.login({ id, password });
       if (response.data.success) {
-        localStorage.setItem('token', response.data.token);
+        login(response.data.token);
         navigate('/admin/dashboard');
       } else {
-        setError('Invalid credentials');
+        setError(t('invalidCredentials'));
       }
     } catch (err) {
-      setError('Login failed. Please try again.');
+      setError(ApiError.from(err).status === 401 ? t('invalidCredentials') : tError(err));
     } finally {
       setLoading(false);
     }
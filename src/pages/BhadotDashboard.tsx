@@ -2,11 +2,18 @@
  * BhadotDashboard Component
  * 
  * Main dashboard for tenants (Bhadots) to:
- * - View available rooms count (live DB inventory)
- * - See incoming rental offers from landlords
- * - Accept or reject rental requests
- * - View secured contacts (accepted requests) with call/WhatsApp options
+ * - View available rooms count (live DB inventory) and browse the listings
+ * - See incoming rental offers from landlords, with their message, linked room
+ *   and status history
+ * - Accept or reject rental requests, or counter with other rent, move-in date
+ *   or occupant count until one side accepts
+ * - Follow the interest requests they sent to owners from a room page
+ * - View secured contacts (accepted requests and interests) with call/WhatsApp options
+ * - Book, reschedule or cancel a visit in one of the owner's slots, and add it to the calendar
+ * - Confirm whether each secured contact ended in a move-in
+ * - See their rent ledger (paid months, dues, overdue months) read-only, with a statement download
  * - Complete profile if missing cast/family members info
+ * - Keep budget, preferred areas and move-in preferences up to date
  * 
  * Features:
  * - Real-time room count updates (every 5 seconds)
@@ -14,45 +21,95 @@
  * - Profile completion modal for first-time users
  * - Masked contact information for privacy
  */
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import Header from '../components/Header';
 import ChatWidget from '../components/ChatWidget';
 import LoadingSpinner from '../components/LoadingSpinner';
+import LoadErrorState from '../components/LoadErrorState';
 import Toast from '../components/Toast';
 import BhadotProfileModal from '../components/BhadotProfileModal';
+import TenantPreferencesFields from '../components/TenantPreferencesFields';
+import TenantPreferenceSummary from '../components/TenantPreferenceSummary';
+import RequestTimeline from '../components/RequestTimeline';
+import OfferThread from '../components/OfferThread';
+import CounterOfferModal from '../components/CounterOfferModal';
+import BookVisitModal from '../components/BookVisitModal';
+import UpcomingVisits from '../components/UpcomingVisits';
+import OutcomePrompt from '../components/OutcomePrompt';
+import RentLedger from '../components/RentLedger';
 import { bhadotApi } from '../services/api';
+import { ApiError } from '../services/errors';
 import { useLanguage } from '../contexts/LanguageContext';
-import type { Bhadot, RentRequestWithDetails } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import { formatRupees } from '../utils/rooms';
+import { DEFAULT_REQUEST_POLICY, acceptedExpiresAt, describePolicy, loadRequestPolicy } from '../utils/requestPolicy';
+import { fromPreferencesDraft, isBudgetRangeValid, toPreferencesDraft, type PreferencesDraft } from '../utils/preferences';
+import { currentTerms, describeTerms, openOffer } from '../utils/offers';
+import { formatSlot, upcomingVisits } from '../utils/calendar';
+import { wasAccepted } from '../utils/requestHistory';
+import type { Bhadot, OfferPayload, RentRequestWithDetails, RequestOffer, RequestOutcomePayload, TenancyStatement, TenantPreferencesUpdate, Visit } from '../types';
 
 export default function BhadotDashboard() {
   // Get Bhadot ID from URL parameters
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const { t } = useLanguage();
+  const { t, tError } = useLanguage();
+  const { logout } = useAuth();
 
   // State Management
   const [bhadot, setBhadot] = useState<Bhadot | null>(null); // Current Bhadot user data
   const [availableRooms, setAvailableRooms] = useState(0); // Live count of available rooms
   const [requests, setRequests] = useState<RentRequestWithDetails[]>([]); // All rental requests
+  const [interests, setInterests] = useState<RentRequestWithDetails[]>([]); // Requests this Bhadot sent to owners
+  const [visits, setVisits] = useState<Visit[]>([]); // Booked and cancelled room visits
+  const [tenancies, setTenancies] = useState<TenancyStatement[]>([]); // Rooms rented through the app, with recorded rent
+  const [bookingFor, setBookingFor] = useState<{ requestId: string; visit?: Visit } | null>(null); // Open slot picker; visit is set when rescheduling
+  const [busyVisit, setBusyVisit] = useState<string | null>(null); // Visit ID being cancelled
   const [loading, setLoading] = useState(true); // Loading state
+  const [loadError, setLoadError] = useState<unknown>(null); // Set when dashboard data failed to load or validate
   const [updatingRequest, setUpdatingRequest] = useState<string | null>(null); // Currently updating this request ID
   const [showProfileModal, setShowProfileModal] = useState(false); // Show profile completion modal
   const [togglingActive, setTogglingActive] = useState(false); // Bhadot active/inactive toggle state
+  const [preferencesDraft, setPreferencesDraft] = useState<PreferencesDraft | null>(null); // Set while editing preferences
+  const [savingPreferences, setSavingPreferences] = useState(false); // Preferences save in progress
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' | 'info' } | null>(null); // Toast notification state
+  const [requestPolicy, setRequestPolicy] = useState(DEFAULT_REQUEST_POLICY); // Sets how long an accepted request lasts
   const [countdown, setCountdown] = useState<{ days: number; hours: number; minutes: number; seconds: number } | null>(null); // Countdown timer state
+  const [counterRequest, setCounterRequest] = useState<RentRequestWithDetails | null>(null); // Offer being countered
+  const markedSeen = useRef(new Set<string>()); // Offers already reported as seen this session
 
   useEffect(() => {
     if (id) {
       loadData();
+      loadTenancies();
       const interval = setInterval(loadAvailableRooms, 5000);
-      return () => clearInterval(interval);
+      // Pick up offers that were sent or withdrawn while the page is open
+      const requestsInterval = setInterval(loadRequests, 30000);
+      return () => {
+        clearInterval(interval);
+        clearInterval(requestsInterval);
+      };
     }
   }, [id]);
 
+  // Tell the backend which offers the tenant has now seen, so the Malik gets a receipt
+  useEffect(() => {
+    if (!id) return;
+    const unseen = requests
+      .filter((req) => req.status === 'Pending' && !req.seenAt && !markedSeen.current.has(req.id))
+      .map((req) => req.id);
+    if (unseen.length === 0) return;
+    unseen.forEach((requestId) => markedSeen.current.add(requestId));
+    bhadotApi.markRequestsSeen(id, unseen).catch((error) => {
+      console.error('Failed to mark requests as seen:', error);
+      unseen.forEach((requestId) => markedSeen.current.delete(requestId)); // Retry on the next refresh
+    });
+  }, [requests, id]);
+
   // Calculate countdown timer from oldest accepted request
   useEffect(() => {
-    const acceptedRequests = requests.filter(req => req.status === 'Accepted');
+    const acceptedRequests = [...requests, ...interests].filter(req => req.status === 'Accepted');
     if (acceptedRequests.length === 0) {
       setCountdown(null);
       return;
@@ -66,10 +123,9 @@ export default function BhadotDashboard() {
     });
 
     const updateCountdown = () => {
-      const acceptedTime = new Date(oldestAccepted.timestamp).getTime();
-      const fiveDaysLater = acceptedTime + (5 * 24 * 60 * 60 * 1000); // 5 days in milliseconds
+      const expiresAt = acceptedExpiresAt(oldestAccepted.timestamp, requestPolicy).getTime();
       const now = new Date().getTime();
-      const diff = fiveDaysLater - now;
+      const diff = expiresAt - now;
 
       if (diff <= 0) {
         setCountdown({ days: 0, hours: 0, minutes: 0, seconds: 0 });
@@ -87,7 +143,7 @@ export default function BhadotDashboard() {
     updateCountdown();
     const interval = setInterval(updateCountdown, 1000);
     return () => clearInterval(interval);
-  }, [requests]);
+  }, [requests, interests, requestPolicy]);
 
   /**
    * Load Bhadot profile and rental requests
@@ -96,15 +152,20 @@ export default function BhadotDashboard() {
   const loadData = async () => {
     if (!id) return;
     setLoading(true);
+    setLoadError(null);
     try {
       // Fetch Bhadot data and requests in parallel
-      const [bhadotRes, requestsRes] = await Promise.all([
+      const [bhadotRes, requestsRes, policy] = await Promise.all([
         bhadotApi.getById(id),
         bhadotApi.getRequests(id),
+        loadRequestPolicy(),
+        loadInterests(),
+        loadVisits(),
       ]);
 
       setBhadot(bhadotRes.data);
       setRequests(requestsRes.data);
+      setRequestPolicy(policy);
 
       // Check if profile is incomplete (for existing users who registered before this feature)
       // Show modal if cast or family members info is missing
@@ -112,10 +173,11 @@ export default function BhadotDashboard() {
       if (bhadotData && (!bhadotData.cast || !bhadotData.totalFamilyMembers || bhadotData.totalFamilyMembers === 0)) {
         setShowProfileModal(true);
       }
-    } catch (error: any) {
+    } catch (error) {
       console.error('Failed to load data:', error);
-      if (error.status === 401 || error.response?.status === 401) {
-        navigate('/bhadot/register');
+      // An unrecoverable 401 ends the session globally and redirects to login
+      if (ApiError.from(error).status !== 401) {
+        setLoadError(error);
       }
     } finally {
       setLoading(false);
@@ -123,12 +185,71 @@ export default function BhadotDashboard() {
   };
 
   /**
-   * Load available rooms count from database
+   * Refresh rental requests, sent interests and visits without the full-page loading state
+   */
+  const loadRequests = async () => {
+    if (!id) return;
+    try {
+      const [requestsRes] = await Promise.all([
+        bhadotApi.getRequests(id),
+        loadInterests(),
+        loadVisits(),
+      ]);
+      setRequests(requestsRes.data);
+    } catch (error) {
+      console.error('Failed to refresh requests:', error);
+    }
+  };
+
+  /**
+   * Load the interest requests this Bhadot sent
+   * Failures are only logged; the list simply stays as it was
+   */
+  const loadInterests = async () => {
+    if (!id) return;
+    try {
+      const response = await bhadotApi.getInterests(id);
+      setInterests(response.data);
+    } catch (error) {
+      console.error('Failed to load interests:', error);
+    }
+  };
+
+  /**
+   * Load booked and cancelled visits
+   * Failures are only logged; the list simply stays as it was
+   */
+  const loadVisits = async () => {
+    if (!id) return;
+    try {
+      const response = await bhadotApi.getVisits(id);
+      setVisits(response.data);
+    } catch (error) {
+      console.error('Failed to load visits:', error);
+    }
+  };
+
+  /**
+   * Load the tenant's tenancies; only the Malik records payments
+   * Failures are only logged so an older backend leaves the section hidden
+   */
+  const loadTenancies = async () => {
+    if (!id) return;
+    try {
+      const response = await bhadotApi.getTenancies(id);
+      setTenancies(response.data);
+    } catch (error) {
+      console.error('Failed to load tenancies:', error);
+    }
+  };
+
+  /**
+   * Load the number of Available room listings
    * This is called every 5 seconds for live updates
    */
   const loadAvailableRooms = async () => {
     try {
-      const response = await bhadotApi.getAvailableRooms();
+      const response = await bhadotApi.getAvailableRoomsCount();
       setAvailableRooms(response.data.count);
     } catch (error) {
       console.error('Failed to load available rooms:', error);
@@ -153,16 +274,98 @@ export default function BhadotDashboard() {
         message: `Request ${status.toLowerCase()} successfully!`,
         type: 'success'
       });
-    } catch (error: any) {
+    } catch (error) {
       setToast({
-        message: error.message || 'Failed to update request',
+        message: tError(error),
         type: 'error'
       });
+      // The owner may have withdrawn the offer meanwhile; drop it from the list
+      if (ApiError.from(error).code === 'REQUEST_WITHDRAWN') {
+        await loadRequests();
+      }
     } finally {
       setUpdatingRequest(null);
     }
   };
 
+  /**
+   * Answer the owner's counter-offer
+   * Accepting settles the request on those terms; declining rejects it
+   */
+  const handleRespondToOffer = async (request: RentRequestWithDetails, offer: RequestOffer, status: 'Accepted' | 'Declined') => {
+    setUpdatingRequest(request.id);
+    try {
+      await bhadotApi.respondToOffer(request.id, offer.id, status);
+      await loadData();
+      setToast({ message: t(status === 'Accepted' ? 'offerAcceptedToast' : 'offerDeclinedToast'), type: 'success' });
+    } catch (error) {
+      setToast({ message: tError(error), type: 'error' });
+      if (['REQUEST_WITHDRAWN', 'OFFER_CLOSED'].includes(ApiError.from(error).code)) {
+        await loadRequests();
+      }
+    } finally {
+      setUpdatingRequest(null);
+    }
+  };
+
+  const handleCounterOffer = async (data: OfferPayload) => {
+    if (!counterRequest) return;
+    try {
+      const response = await bhadotApi.makeOffer(counterRequest.id, data);
+      setRequests((prev) => prev.map((req) => (req.id === counterRequest.id ? { ...req, ...response.data.request } : req)));
+      setCounterRequest(null);
+      setToast({ message: t('counterOfferSent'), type: 'success' });
+    } catch (error) {
+      throw new Error(tError(error));
+    }
+  };
+
+  /**
+   * Book the chosen slot, or move the visit being rescheduled to it
+   */
+  const handleBookVisit = async (slotId: string) => {
+    if (!id || !bookingFor) return;
+    try {
+      const response = bookingFor.visit
+        ? await bhadotApi.rescheduleVisit(id, bookingFor.visit.id, slotId)
+        : await bhadotApi.bookVisit(id, { requestId: bookingFor.requestId, slotId });
+      const visit = response.data.visit;
+      setVisits((prev) => [...prev.filter((v) => v.id !== visit.id), visit]);
+      setToast({ message: t(bookingFor.visit ? 'visitRescheduled' : 'visitBooked'), type: 'success' });
+      setBookingFor(null);
+    } catch (error) {
+      throw new Error(tError(error));
+    }
+  };
+
+  /**
+   * Record whether the tenant moved in
+   * Reloads everything because a move-in also makes the profile inactive
+   */
+  const handleReportOutcome = async (request: RentRequestWithDetails, data: RequestOutcomePayload) => {
+    try {
+      await bhadotApi.reportOutcome(request.id, data);
+      await loadData();
+      setToast({ message: t('outcomeSaved'), type: 'success' });
+    } catch (error) {
+      throw new Error(tError(error));
+    }
+  };
+
+  const handleCancelVisit = async (visit: Visit) => {
+    if (!id || !window.confirm(t('confirmCancelVisit'))) return;
+    setBusyVisit(visit.id);
+    try {
+      const response = await bhadotApi.cancelVisit(id, visit.id);
+      setVisits((prev) => prev.map((v) => (v.id === visit.id ? response.data.visit : v)));
+      setToast({ message: t('visitCancelled'), type: 'success' });
+    } catch (error) {
+      setToast({ message: tError(error), type: 'error' });
+    } finally {
+      setBusyVisit(null);
+    }
+  };
+
   /**
    * Mask mobile/WhatsApp number for privacy
    * Shows only first 3 digits, rest are masked
@@ -178,23 +381,46 @@ export default function BhadotDashboard() {
   /**
    * Handle profile completion submission
    * Updates Bhadot profile with cast and family members info
-   * @param data - Object containing cast and totalFamilyMembers
+   * @param data - Object containing cast, totalFamilyMembers and preferences
    */
-  const handleProfileSubmit = async (data: { cast: string; totalFamilyMembers: number }) => {
+  const handleProfileSubmit = async (data: { cast: string; totalFamilyMembers: number; preferences: TenantPreferencesUpdate }) => {
     if (!id) return;
     try {
       await bhadotApi.update(id, {
         name: bhadot?.name || '',
         mobile: bhadot?.mobile || '',
         cast: data.cast,
-        totalFamilyMembers: data.totalFamilyMembers
+        totalFamilyMembers: data.totalFamilyMembers,
+        preferences: data.preferences
         // Note: update requires all fields or just partial?
         // In api.ts it calls getById then update. logic should be robust.
       });
       await loadData(); // Reload to refresh profile data
       setShowProfileModal(false); // Close modal after successful submission
-    } catch (error: any) {
-      throw new Error(error.message || 'Failed to save profile');
+    } catch (error) {
+      throw new Error(tError(error));
+    }
+  };
+
+  /**
+   * Save the tenant's preferences from the dashboard card
+   */
+  const handleSavePreferences = async () => {
+    if (!id || !preferencesDraft) return;
+    if (!isBudgetRangeValid(preferencesDraft)) {
+      setToast({ message: t('invalidBudgetRange'), type: 'error' });
+      return;
+    }
+    setSavingPreferences(true);
+    try {
+      const response = await bhadotApi.update(id, { preferences: fromPreferencesDraft(preferencesDraft) });
+      setBhadot(response.data.bhadot);
+      setPreferencesDraft(null);
+      setToast({ message: t('preferencesSaved'), type: 'success' });
+    } catch (error) {
+      setToast({ message: tError(error), type: 'error' });
+    } finally {
+      setSavingPreferences(false);
     }
   };
 
@@ -224,9 +450,9 @@ export default function BhadotDashboard() {
           type: 'success'
         });
       }
-    } catch (error: any) {
+    } catch (error) {
       setToast({
-        message: error.message || 'Failed to update profile status',
+        message: tError(error),
         type: 'error'
       });
     } finally {
@@ -242,6 +468,10 @@ export default function BhadotDashboard() {
     );
   }
 
+  if (loadError) {
+    return <LoadErrorState error={loadError} onRetry={loadData} onHome={() => navigate('/')} />;
+  }
+
   if (!bhadot) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -258,6 +488,18 @@ export default function BhadotDashboard() {
     );
   }
 
+  // Owners who accepted either side's request; both share their contact
+  const securedContacts = [...requests, ...interests].filter(req => req.status === 'Accepted');
+  // Contacts that expired or moved on before the tenant said whether they moved in
+  const awaitingOutcome = [...requests, ...interests].filter(
+    (req) => req.status !== 'Accepted' && wasAccepted(req) && !req.bhadotOutcome
+  );
+  // Soonest upcoming visit per request, keyed by request ID
+  const nextVisits: Record<string, Visit> = {};
+  upcomingVisits(visits).forEach((visit) => {
+    nextVisits[visit.requestId] ??= visit;
+  });
+
   return (
     <div className="min-h-screen bg-gray-50">
       {toast && (
@@ -270,16 +512,30 @@ export default function BhadotDashboard() {
       {showProfileModal && bhadot && (
         <BhadotProfileModal
           bhadotName={bhadot.name}
+          preferences={bhadot.preferences}
           onSubmit={handleProfileSubmit}
         />
       )}
+      {bookingFor && (
+        <BookVisitModal
+          requestId={bookingFor.requestId}
+          currentSlotId={bookingFor.visit?.slotId}
+          onBook={handleBookVisit}
+          onClose={() => setBookingFor(null)}
+        />
+      )}
+      {counterRequest && (
+        <CounterOfferModal
+          initial={currentTerms(counterRequest.offers, { rent: counterRequest.roomRent })}
+          accent="blue"
+          onSubmit={handleCounterOffer}
+          onClose={() => setCounterRequest(null)}
+        />
+      )}
       <Header
         title={`${t('roomBhadot')} - ${bhadot.name}`}
         showLanguageSwitcher={true}
-        onLogout={() => {
-          localStorage.removeItem('token');
-          navigate('/');
-        }}
+        onLogout={logout}
       />
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {/* Welcome Card */}
@@ -318,8 +574,46 @@ export default function BhadotDashboard() {
           </div>
         </div>
 
-        {/* 5-Day Countdown Warning - Only show if there's an accepted request */}
-        {countdown !== null && requests.some(req => req.status === 'Accepted') && (
+        {/* Preferences */}
+        <div className="bg-white rounded-3xl shadow-lg p-6 mb-6 border border-gray-200">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-xl font-bold text-gray-900">{t('myPreferences')}</h3>
+            {!preferencesDraft && (
+              <button
+                onClick={() => setPreferencesDraft(toPreferencesDraft(bhadot.preferences))}
+                className="px-4 py-2 bg-blue-50 text-blue-700 rounded-xl font-semibold hover:bg-blue-100 transition"
+              >
+                {t('edit')}
+              </button>
+            )}
+          </div>
+          {preferencesDraft ? (
+            <>
+              <TenantPreferencesFields value={preferencesDraft} onChange={setPreferencesDraft} />
+              <div className="flex gap-3 mt-6">
+                <button
+                  onClick={() => setPreferencesDraft(null)}
+                  disabled={savingPreferences}
+                  className="flex-1 bg-gray-200 text-gray-700 py-3 rounded-xl font-semibold hover:bg-gray-300 transition disabled:opacity-50"
+                >
+                  {t('cancel')}
+                </button>
+                <button
+                  onClick={handleSavePreferences}
+                  disabled={savingPreferences}
+                  className="flex-1 bg-gradient-to-r from-blue-600 to-blue-700 text-white py-3 rounded-xl font-semibold hover:from-blue-700 hover:to-blue-800 transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                >
+                  {savingPreferences ? <LoadingSpinner size="sm" /> : t('save')}
+                </button>
+              </div>
+            </>
+          ) : (
+            <TenantPreferenceSummary preferences={bhadot.preferences} emptyText={t('noPreferencesYet')} />
+          )}
+        </div>
+
+        {/* Expiry Countdown Warning - Only show if there's an accepted request */}
+        {countdown !== null && securedContacts.length > 0 && (
           <div className="bg-gradient-to-r from-orange-500 to-red-500 rounded-3xl shadow-lg p-6 mb-6 text-white">
             <div className="flex items-center justify-between flex-wrap gap-4">
               <div className="flex-1">
@@ -329,7 +623,7 @@ export default function BhadotDashboard() {
                   </svg>
                   <h3 className="text-xl font-bold">{t('accountInactiveWarning')}</h3>
                 </div>
-                <p className="text-sm opacity-90 mb-4">{t('accountInactiveMessage')}</p>
+                <p className="text-sm opacity-90 mb-4">{describePolicy(t('accountInactiveMessage'), requestPolicy)}</p>
               </div>
               <div className="bg-white/20 backdrop-blur-sm rounded-2xl px-6 py-4 border-2 border-white/30">
                 <div className="text-center">
@@ -368,9 +662,43 @@ export default function BhadotDashboard() {
             <div className="bg-green-500 rounded-2xl px-6 py-3 inline-block">
               <div className="text-lg font-semibold uppercase">{bhadot.name}</div>
             </div>
+            <div className="mt-6">
+              <button
+                onClick={() => navigate(`/bhadot/dashboard/${id}/rooms`)}
+                className="px-8 py-3 bg-white text-green-700 rounded-2xl font-bold hover:bg-green-50 transition shadow"
+              >
+                {t('browseRooms')} →
+              </button>
+            </div>
           </div>
         </div>
 
+        <UpcomingVisits
+          visits={visits}
+          viewer="Bhadot"
+          busyVisitId={busyVisit}
+          onReschedule={(visit) => setBookingFor({ requestId: visit.requestId, visit })}
+          onCancel={handleCancelVisit}
+        />
+
+        {/* Rent ledger kept by the owner */}
+        {tenancies.length > 0 && (
+          <div className="bg-white rounded-3xl shadow-lg p-6 mb-6 border border-gray-200">
+            <h3 className="text-xl font-bold text-gray-900">{t('myTenancy')}</h3>
+            <p className="text-sm text-gray-600 mb-4">{t('myTenancyHint')}</p>
+            <div className="space-y-4">
+              {tenancies.map((entry) => (
+                <RentLedger
+                  key={entry.tenancy.id}
+                  statement={entry}
+                  viewer="Bhadot"
+                  defaultOpen={tenancies.length === 1}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Incoming Offers */}
         <div className="mb-6">
           <h3 className="text-xl font-bold text-gray-700 uppercase mb-4">{t('incomingOffers')}</h3>
@@ -380,46 +708,138 @@ export default function BhadotDashboard() {
                 <p className="text-gray-600">{t('noRentalRequests')}</p>
               </div>
             ) : (
-              requests.filter(req => req.status === 'Pending').map((request) => (
+              requests.filter(req => req.status === 'Pending').map((request) => {
+                const offer = openOffer(request);
+                return (
+                  <div
+                    key={request.id}
+                    className="bg-white rounded-2xl border-2 border-blue-200 p-6"
+                  >
+                    {request.nudgedAt && (
+                      <p className="text-sm font-semibold text-yellow-700 bg-yellow-50 rounded-xl px-4 py-2 mb-3">
+                        🔔 {t('ownerSentReminder')}
+                      </p>
+                    )}
+                    <p className="text-gray-700 mb-4">
+                      {t('ownerWantsContact')} <span className="font-bold">{request.malikName}</span> {t('wantsContactRoom')}
+                    </p>
+                    {request.roomTitle && (
+                      <div className="bg-blue-50 rounded-xl px-4 py-3 mb-4">
+                        <p className="font-semibold text-gray-900">{request.roomTitle}</p>
+                        <p className="text-sm text-gray-600">
+                          {[
+                            request.roomArea,
+                            request.roomType && (request.roomType === 'Shared' ? t('sharedRoom') : request.roomType),
+                            request.roomRent !== undefined && `${formatRupees(request.roomRent)}${t('perMonth')}`,
+                          ].filter(Boolean).join(' · ')}
+                        </p>
+                      </div>
+                    )}
+                    {request.message && (
+                      <blockquote className="border-l-4 border-blue-300 pl-4 text-gray-700 italic mb-4 whitespace-pre-line">
+                        {request.message}
+                      </blockquote>
+                    )}
+                    <RequestTimeline request={request} />
+                    {request.offers && <OfferThread offers={request.offers} />}
+                    {offer && (
+                      <p className="text-sm font-medium text-purple-700 bg-purple-50 rounded-xl px-4 py-2 mt-3">
+                        {t(offer.from === 'Malik' ? 'ownerCountered' : 'waitingForOwnerReply')}
+                      </p>
+                    )}
+                    <div className="flex gap-3 mt-4">
+                      {offer?.from !== 'Bhadot' && (
+                        <>
+                          <button
+                            onClick={() => offer ? handleRespondToOffer(request, offer, 'Accepted') : handleUpdateRequest(request.id, 'Accepted')}
+                            disabled={updatingRequest === request.id}
+                            className="flex-1 bg-green-600 text-white rounded-xl py-3 font-bold uppercase hover:bg-green-700 transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                          >
+                            {updatingRequest === request.id ? (
+                              <LoadingSpinner size="sm" />
+                            ) : (
+                              t('accept')
+                            )}
+                          </button>
+                          <button
+                            onClick={() => setCounterRequest(request)}
+                            disabled={updatingRequest === request.id}
+                            className="flex-1 bg-purple-100 text-purple-700 rounded-xl py-3 font-bold uppercase hover:bg-purple-200 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            {t('counterOffer')}
+                          </button>
+                        </>
+                      )}
+                      <button
+                        onClick={() => offer?.from === 'Malik' ? handleRespondToOffer(request, offer, 'Declined') : handleUpdateRequest(request.id, 'Rejected')}
+                        disabled={updatingRequest === request.id}
+                        className="flex-1 bg-gray-200 text-gray-700 border-2 border-gray-300 rounded-xl py-3 font-bold uppercase hover:bg-gray-300 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {t('reject')}
+                      </button>
+                    </div>
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </div>
+
+        {/* Interests sent to owners */}
+        {interests.some(req => req.status !== 'Accepted') && (
+          <div className="mb-6">
+            <h3 className="text-xl font-bold text-gray-700 uppercase mb-4">{t('myInterests')}</h3>
+            <div className="space-y-4">
+              {interests.filter(req => req.status !== 'Accepted').map((request) => (
                 <div
                   key={request.id}
-                  className="bg-white rounded-2xl border-2 border-blue-200 p-6"
+                  className="bg-white rounded-2xl border-2 border-blue-100 p-6"
                 >
-                  <p className="text-gray-700 mb-4">
-                    {t('ownerWantsContact')} <span className="font-bold">{request.malikName}</span> {t('wantsContactRoom')}
-                  </p>
-                  <div className="flex gap-3">
-                    <button
-                      onClick={() => handleUpdateRequest(request.id, 'Accepted')}
-                      disabled={updatingRequest === request.id}
-                      className="flex-1 bg-green-600 text-white rounded-xl py-3 font-bold uppercase hover:bg-green-700 transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
-                    >
-                      {updatingRequest === request.id ? (
-                        <LoadingSpinner size="sm" />
-                      ) : (
-                        t('accept')
-                      )}
-                    </button>
-                    <button
-                      onClick={() => handleUpdateRequest(request.id, 'Rejected')}
-                      disabled={updatingRequest === request.id}
-                      className="flex-1 bg-gray-200 text-gray-700 border-2 border-gray-300 rounded-xl py-3 font-bold uppercase hover:bg-gray-300 transition disabled:opacity-50 disabled:cursor-not-allowed"
-                    >
-                      {t('reject')}
-                    </button>
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <h4 className="font-bold text-gray-900">{t('interestTo').replace('{name}', request.malikName || '')}</h4>
+                      <p className="text-sm text-gray-600 mt-1">{request.roomTitle || t('interestAboutAnyRoom')}</p>
+                    </div>
+                    <span className={`px-3 py-1 rounded-full text-xs font-semibold ${request.status === 'Rejected' ? 'bg-red-100 text-red-800' :
+                      request.status === 'Pending' ? 'bg-yellow-100 text-yellow-800' :
+                        'bg-gray-100 text-gray-700'
+                      }`}>
+                      {t(request.status.toLowerCase())}
+                    </span>
                   </div>
+                  {request.message && (
+                    <p className="text-gray-700 italic mt-3">“{request.message}”</p>
+                  )}
+                  <RequestTimeline request={request} />
                 </div>
-              ))
-            )}
+              ))}
+            </div>
           </div>
-        </div>
+        )}
+
+        {awaitingOutcome.length > 0 && (
+          <div className="bg-white rounded-3xl shadow-lg p-6 mb-6 border border-amber-200">
+            <h3 className="text-xl font-bold text-gray-900">{t('confirmOutcomes')}</h3>
+            <p className="text-sm text-gray-600 mb-2">{t('confirmOutcomesHint')}</p>
+            <div className="space-y-2">
+              {awaitingOutcome.map((request) => (
+                <OutcomePrompt
+                  key={request.id}
+                  question={t('didYouMoveIn').replace('{name}', request.malikName || '')}
+                  accent="blue"
+                  onSubmit={(data) => handleReportOutcome(request, data)}
+                />
+              ))}
+            </div>
+          </div>
+        )}
 
         {/* Secured Contacts - Show Accepted Requests */}
-        {requests.filter(req => req.status === 'Accepted').length > 0 && (
+        {securedContacts.length > 0 && (
           <div className="mb-6">
             <h3 className="text-xl font-bold text-gray-700 uppercase mb-4">{t('securedContacts')}</h3>
             <div className="space-y-4">
-              {requests.filter(req => req.status === 'Accepted').map((request) => (
+              {securedContacts.map((request) => (
                 <div
                   key={request.id}
                   className="bg-white rounded-2xl shadow-md border-l-4 border-green-600 p-6 relative"
@@ -429,6 +849,11 @@ export default function BhadotDashboard() {
                     <p className="text-gray-500 text-sm font-mono">
                       {request.malikWhatsapp ? maskMobileNumber(request.malikWhatsapp.replace(/\D/g, '')) : (request.malikId || 'N/A')}
                     </p>
+                    {request.offers && request.offers.length > 0 && (
+                      <p className="text-sm text-gray-700 mt-2">
+                        {t('agreedTerms')}: {describeTerms(currentTerms(request.offers), t)}
+                      </p>
+                    )}
                   </div>
                   {request.malikWhatsapp && (
                     <div className="flex gap-3">
@@ -448,6 +873,29 @@ export default function BhadotDashboard() {
                       </a>
                     </div>
                   )}
+                  {nextVisits[request.id] ? (
+                    <p className="mt-3 text-sm font-medium text-blue-700">
+                      📅 {t('visitOn').replace('{time}', formatSlot(nextVisits[request.id].start, nextVisits[request.id].end))}
+                    </p>
+                  ) : !request.bhadotOutcome && (
+                    <button
+                      onClick={() => setBookingFor({ requestId: request.id })}
+                      className="mt-3 w-full bg-blue-50 text-blue-700 rounded-xl py-3 font-bold uppercase hover:bg-blue-100 transition"
+                    >
+                      {t('bookVisit')}
+                    </button>
+                  )}
+                  {request.bhadotOutcome ? (
+                    <p className="mt-3 text-sm text-gray-500">
+                      {t(request.bhadotOutcome.result === 'MovedIn' ? 'outcomeReportedMovedIn' : 'outcomeReportedDidNotWork')}
+                    </p>
+                  ) : (
+                    <OutcomePrompt
+                      question={t('didYouMoveIn').replace('{name}', request.malikName || '')}
+                      accent="blue"
+                      onSubmit={(data) => handleReportOutcome(request, data)}
+                    />
+                  )}
                 </div>
               ))}
             </div>
@@ -1,15 +1,17 @@
 /**
  * BhadotRegister Component
  * 
- * Two-step registration process for tenants (Bhadots):
+ * Registration and login for tenants (Bhadots):
  * Step 1: Enter mobile number (searches for existing user)
- * Step 2: Enter name, cast, and family members details
+ * Step 2: Verify the number with a one-time code
+ * Step 3: Enter name, cast, family members and optional preferences (new users only)
  * 
  * Features:
- * - Login if user already exists
+ * - OTP-verified login if user already exists
  * - Phone number validation
  * - Cast selection with "Other" option
  * - Family members count validation
+ * - Optional budget, preferred areas and move-in date
  * - Two-step form with progress indicator
  * - Language support (Hindi/English)
  */
@@ -17,16 +19,23 @@ import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { bhadotApi, searchApi } from '../services/api';
 import LoadingSpinner from '../components/LoadingSpinner';
+import TenantPreferencesFields from '../components/TenantPreferencesFields';
 import { useLanguage } from '../contexts/LanguageContext';
+import { useAuth } from '../contexts/AuthContext';
 import LanguageSwitcher from '../components/LanguageSwitcher';
+import OtpVerification from '../components/OtpVerification';
+import { fromPreferencesDraft, isBudgetRangeValid, toPreferencesDraft } from '../utils/preferences';
 
 export default function BhadotRegister() {
   const navigate = useNavigate();
-  const { t } = useLanguage();
+  const { t, tError } = useLanguage();
+  const { login } = useAuth();
 
   // Form state management
-  const [step, setStep] = useState<'phone' | 'details'>('phone'); // Current step in registration
+  const [step, setStep] = useState<'phone' | 'otp' | 'details'>('phone'); // Current step in registration
   const [mobile, setMobile] = useState(''); // Mobile number input
+  const [existingAccount, setExistingAccount] = useState(false); // Whether the number already belongs to a Bhadot
+  const [verificationToken, setVerificationToken] = useState(''); // Proof of OTP verification for register
   const [formData, setFormData] = useState({
     name: '',
     mobile: '',
@@ -34,6 +43,7 @@ export default function BhadotRegister() {
     customCast: '', // Custom cast when "Other" is selected
     totalFamilyMembers: '',
   });
+  const [preferences, setPreferences] = useState(() => toPreferencesDraft()); // Optional "looking for" details
 
   // UI state management
   const [loading, setLoading] = useState(false); // Registration in progress
@@ -43,7 +53,7 @@ export default function BhadotRegister() {
   /**
    * Handle phone number search
    * Searches for existing user by mobile number
-   * Logs in if user exists, otherwise proceeds to registration
+   * Either way the number must be verified by OTP before login/registration
    */
   const handlePhoneSearch = async () => {
     // Clean phone number (remove non-digits)
@@ -63,39 +73,53 @@ export default function BhadotRegister() {
         // User found - check if it's a Bhadot
         if (result.role === 'Bhadot' && result.user.id) {
           setFormData(prev => ({ ...prev, mobile: cleanNumber }));
-          // Auto-login since password is not required
-          await performAutoLogin(cleanNumber);
+          setExistingAccount(true);
+          setStep('otp');
         } else {
           // User found but wrong role
           setError('This number is registered as a different role. Please use the correct registration page.');
         }
       } else {
-        // New user - set mobile number and proceed to registration
+        // New user - set mobile number and verify it before registration
         setFormData(prev => ({
           ...prev,
           mobile: cleanNumber,
         }));
-        // Move to next step (details form)
-        setStep('details');
+        setExistingAccount(false);
+        setStep('otp');
       }
     } catch (error) {
       console.error('Search failed:', error);
-      setError('Search failed. Please try again.');
+      setError(tError(error));
     } finally {
       setSearching(false);
     }
   };
 
-  const performAutoLogin = async (mobileNumber: string) => {
+  /**
+   * Called once the OTP step succeeds
+   * Existing users are logged in, new users continue to the details form
+   */
+  const handleVerified = async (token: string) => {
+    if (existingAccount) {
+      await performLogin(mobile, token);
+    } else {
+      setVerificationToken(token);
+      setStep('details');
+    }
+  };
+
+  const performLogin = async (mobileNumber: string, token: string) => {
     setLoading(true);
     try {
-      const response = await bhadotApi.login({ mobile: mobileNumber });
+      const response = await bhadotApi.login({ mobile: mobileNumber, verificationToken: token });
       if (response.data.success) {
-        localStorage.setItem('token', response.data.token);
+        login(response.data.token);
         navigate(`/bhadot/dashboard/${response.data.bhadot.id}`);
       }
-    } catch (err: any) {
-      setError('Login failed. Please try again.');
+    } catch (err) {
+      setError(tError(err));
+      setStep('phone');
     } finally {
       setLoading(false);
     }
@@ -127,6 +151,11 @@ export default function BhadotRegister() {
       return;
     }
 
+    if (!isBudgetRangeValid(preferences)) {
+      setError(t('invalidBudgetRange'));
+      return;
+    }
+
     setLoading(true);
 
     try {
@@ -138,16 +167,18 @@ export default function BhadotRegister() {
         name: formData.name,
         mobile: formData.mobile,
         cast: finalCast,
-        totalFamilyMembers: parseInt(formData.totalFamilyMembers)
+        totalFamilyMembers: parseInt(formData.totalFamilyMembers),
+        preferences: fromPreferencesDraft(preferences),
+        verificationToken
       });
 
       // Redirect to dashboard on successful registration
       if (response.data.success && response.data.bhadot) {
-        localStorage.setItem('token', response.data.token);
+        login(response.data.token);
         navigate(`/bhadot/dashboard/${response.data.bhadot.id}`);
       }
-    } catch (err: any) {
-      setError(err.message || 'Registration failed. Please try again.');
+    } catch (err) {
+      setError(tError(err));
     } finally {
       setLoading(false);
     }
@@ -225,6 +256,16 @@ export default function BhadotRegister() {
             </form>
           )}
 
+          {step === 'otp' && (
+            <OtpVerification
+              phone={mobile}
+              role="Bhadot"
+              defaultChannel="sms"
+              onVerified={handleVerified}
+              onBack={() => setStep('phone')}
+            />
+          )}
+
           {step === 'details' && (
             <div>
               <form onSubmit={handleSubmit} className="space-y-6">
@@ -317,7 +358,10 @@ export default function BhadotRegister() {
                   />
                 </div>
 
-
+                <div className="border-t border-gray-200 pt-6">
+                  <h3 className="text-sm font-semibold text-gray-900 mb-4">{t('lookingFor')}</h3>
+                  <TenantPreferencesFields value={preferences} onChange={setPreferences} />
+                </div>
 
                 {error && (
                   <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-xl">
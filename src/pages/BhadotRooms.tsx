@@ -0,0 +1,290 @@
+/**
+ * BhadotRooms Component
+ *
+ * Room browsing page for tenants (Bhadots):
+ * - Lists Available room listings, 12 per page
+ * - Filters by area, rent range, room type and number of occupants
+ * - Sorts by newest, rent or availability date
+ *
+ * Filters, sort and page live in the URL query string so a search can be
+ * shared, bookmarked and restored with the browser's back button.
+ */
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import Header from '../components/Header';
+import LoadingSpinner from '../components/LoadingSpinner';
+import LoadErrorState from '../components/LoadErrorState';
+import Pagination from '../components/Pagination';
+import { roomApi } from '../services/api';
+import { ApiError } from '../services/errors';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useAuth } from '../contexts/AuthContext';
+import { ROOM_TYPES, coverPhoto, formatRupees } from '../utils/rooms';
+import { toNumber, withParams } from '../utils/searchParams';
+import { parseLocalDate } from '../utils/time';
+import type { Paginated, RoomListing, RoomSearchParams, RoomSort, RoomType } from '../types';
+
+const PAGE_SIZE = 12;
+
+const SORT_OPTIONS: { value: RoomSort; labelKey: string }[] = [
+  { value: 'newest', labelKey: 'sortNewest' },
+  { value: 'rentAsc', labelKey: 'sortRentLowHigh' },
+  { value: 'rentDesc', labelKey: 'sortRentHighLow' },
+  { value: 'availableSoonest', labelKey: 'sortAvailableSoonest' },
+];
+
+/** Read the search from the query string, ignoring anything malformed */
+const readSearch = (params: URLSearchParams): RoomSearchParams => {
+  const roomType = params.get('roomType') as RoomType | null;
+  const sort = params.get('sort') as RoomSort | null;
+  return {
+    area: params.get('area') || undefined,
+    minRent: toNumber(params.get('minRent')),
+    maxRent: toNumber(params.get('maxRent')),
+    roomType: roomType && ROOM_TYPES.includes(roomType) ? roomType : undefined,
+    occupants: toNumber(params.get('occupants')),
+    sort: sort && SORT_OPTIONS.some((o) => o.value === sort) ? sort : 'newest',
+    page: Math.max(1, toNumber(params.get('page')) ?? 1),
+    pageSize: PAGE_SIZE,
+  };
+};
+
+export default function BhadotRooms() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { t } = useLanguage();
+  const { logout } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const search = readSearch(searchParams);
+
+  const [results, setResults] = useState<Paginated<RoomListing> | null>(null); // Current page of listings
+  const [loading, setLoading] = useState(true); // Loading state
+  const [loadError, setLoadError] = useState<unknown>(null); // Set when listings failed to load or validate
+
+  // Filter form values; applied to the URL on submit
+  const [area, setArea] = useState(search.area ?? '');
+  const [minRent, setMinRent] = useState(search.minRent?.toString() ?? '');
+  const [maxRent, setMaxRent] = useState(search.maxRent?.toString() ?? '');
+  const [roomType, setRoomType] = useState<RoomType | ''>(search.roomType ?? '');
+  const [occupants, setOccupants] = useState(search.occupants?.toString() ?? '');
+  const latestLoad = useRef(0); // Number of the most recent search, older responses are dropped
+
+  // Back/Forward changes the URL without touching the form, so refill it from the query string
+  useEffect(() => {
+    setArea(search.area ?? '');
+    setMinRent(search.minRent?.toString() ?? '');
+    setMaxRent(search.maxRent?.toString() ?? '');
+    setRoomType(search.roomType ?? '');
+    setOccupants(search.occupants?.toString() ?? '');
+    loadRooms();
+  }, [searchParams]);
+
+  const loadRooms = async () => {
+    const load = ++latestLoad.current;
+    setLoading(true);
+    setLoadError(null);
+    try {
+      const response = await roomApi.search(search);
+      if (load !== latestLoad.current) return;
+      setResults(response.data);
+    } catch (error) {
+      if (load !== latestLoad.current) return;
+      console.error('Failed to load rooms:', error);
+      if (ApiError.from(error).status !== 401) {
+        setLoadError(error);
+      }
+    } finally {
+      if (load === latestLoad.current) setLoading(false);
+    }
+  };
+
+  const updateSearch = (changes: Record<string, string | undefined>) => {
+    setSearchParams(withParams(searchParams, changes));
+  };
+
+  const handleApplyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateSearch({
+      area: area.trim() || undefined,
+      minRent: minRent || undefined,
+      maxRent: maxRent || undefined,
+      roomType: roomType || undefined,
+      occupants: occupants || undefined,
+      page: undefined,
+    });
+  };
+
+  const handleClearFilters = () => {
+    setArea('');
+    setMinRent('');
+    setMaxRent('');
+    setRoomType('');
+    setOccupants('');
+    setSearchParams(search.sort && search.sort !== 'newest' ? { sort: search.sort } : {});
+  };
+
+  const totalPages = results ? Math.max(1, Math.ceil(results.total / results.pageSize)) : 1;
+  const currentPage = search.page ?? 1;
+
+  if (loadError) {
+    return <LoadErrorState error={loadError} onRetry={loadRooms} onHome={() => navigate(`/bhadot/dashboard/${id}`)} />;
+  }
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition';
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header title={t('browseRooms')} showLanguageSwitcher={true} onLogout={logout} />
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <button
+          onClick={() => navigate(`/bhadot/dashboard/${id}`)}
+          className="text-gray-600 hover:text-gray-900 transition mb-4"
+        >
+          ← {t('backToDashboard')}
+        </button>
+
+        {/* Filters */}
+        <form onSubmit={handleApplyFilters} className="bg-white rounded-3xl shadow-lg p-6 mb-6 border border-gray-200">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            <div className="col-span-2 md:col-span-1">
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('roomArea')}</label>
+              <input type="text" value={area} onChange={(e) => setArea(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('minRent')}</label>
+              <input
+                type="number"
+                min="0"
+                value={minRent}
+                onChange={(e) => setMinRent(e.target.value.replace(/\D/g, ''))}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('maxRent')}</label>
+              <input
+                type="number"
+                min="0"
+                value={maxRent}
+                onChange={(e) => setMaxRent(e.target.value.replace(/\D/g, ''))}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('roomType')}</label>
+              <select value={roomType} onChange={(e) => setRoomType(e.target.value as RoomType | '')} className={inputClass}>
+                <option value="">{t('anyRoomType')}</option>
+                {ROOM_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {type === 'Shared' ? t('sharedRoom') : type}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('occupants')}</label>
+              <input
+                type="number"
+                min="1"
+                value={occupants}
+                onChange={(e) => setOccupants(e.target.value.replace(/\D/g, ''))}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center justify-between gap-3 mt-4">
+            <div className="flex gap-3">
+              <button
+                type="submit"
+                className="px-6 py-2 bg-blue-600 text-white rounded-xl font-semibold hover:bg-blue-700 transition"
+              >
+                {t('applyFilters')}
+              </button>
+              <button
+                type="button"
+                onClick={handleClearFilters}
+                className="px-6 py-2 bg-gray-200 text-gray-700 rounded-xl font-semibold hover:bg-gray-300 transition"
+              >
+                {t('clearFilters')}
+              </button>
+            </div>
+            <div className="flex items-center gap-2">
+              <label className="text-sm font-medium text-gray-700">{t('sortBy')}</label>
+              <select
+                value={search.sort}
+                onChange={(e) => updateSearch({ sort: e.target.value, page: undefined })}
+                className="px-3 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none"
+              >
+                {SORT_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>{t(option.labelKey)}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </form>
+
+        {/* Results */}
+        {loading || !results ? (
+          <div className="flex justify-center py-16">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : results.items.length === 0 ? (
+          <div className="bg-white rounded-3xl shadow-lg p-12 border border-gray-200 text-center text-gray-600">
+            {t('noRoomsMatch')}
+          </div>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600 mb-3">
+              {t('roomsFound').replace('{count}', String(results.total))}
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+              {results.items.map((room) => {
+                const cover = coverPhoto(room);
+                return (
+                  <button
+                    key={room.id}
+                    onClick={() => navigate(`/bhadot/dashboard/${id}/rooms/${room.id}`)}
+                    className="bg-white rounded-3xl shadow-lg border border-gray-200 overflow-hidden text-left hover:shadow-xl transition"
+                  >
+                    <div className="h-44 bg-gray-100 flex items-center justify-center text-gray-400">
+                      {cover ? (
+                        <img src={cover.url} alt={room.title} className="w-full h-full object-cover" />
+                      ) : (
+                        <svg className="w-10 h-10" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 12l2-2m0 0l7-7 7 7M5 10v10a1 1 0 001 1h3m10-11l2 2m-2-2v10a1 1 0 01-1 1h-3m-6 0a1 1 0 001-1v-4a1 1 0 011-1h2a1 1 0 011 1v4a1 1 0 001 1m-6 0h6" />
+                        </svg>
+                      )}
+                    </div>
+                    <div className="p-4">
+                      <div className="flex items-center justify-between gap-2">
+                        <h4 className="font-bold text-gray-900 truncate">{room.title}</h4>
+                        <span className="px-2 py-0.5 rounded-lg bg-blue-50 text-blue-700 text-xs font-semibold flex-shrink-0">
+                          {room.roomType === 'Shared' ? t('sharedRoom') : room.roomType}
+                        </span>
+                      </div>
+                      <p className="text-gray-600 text-sm mt-1">{room.area}</p>
+                      <p className="text-gray-900 font-semibold mt-2">
+                        {formatRupees(room.rent)}<span className="text-gray-500 font-normal text-sm">{t('perMonth')}</span>
+                      </p>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {t('upToOccupants').replace('{count}', String(room.maxOccupants))}
+                        {' · '}
+                        {t('availableFrom')}: {parseLocalDate(room.availableFrom).toLocaleDateString()}
+                      </p>
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+
+            <Pagination
+              page={currentPage}
+              totalPages={totalPages}
+              onChange={(page) => updateSearch({ page: String(page) })}
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
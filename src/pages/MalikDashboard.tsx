@@ -3,10 +3,23 @@
  * 
  * Main dashboard for landlords (Maliks) to:
  * - View and edit their address
- * - See all available tenants (Bhadots)
- * - Send rental requests to tenants
- * - Track pending/accepted/rejected requests
- * - Monitor request limit (max 2 pending, 24-hour cooldown)
+ * - List rooms and create, edit, pause or delete them
+ * - Publish visit slots per room and see upcoming visits, with calendar export
+ * - Upload, reorder and pick a cover for room photos
+ * - Search and filter available tenants (Bhadots), paginated server-side,
+ *   with each tenant's budget, areas and move-in preferences
+ * - Rank tenants as "Best matches" for one of their rooms, with a score breakdown
+ * - Save tenant searches and get alerted when new tenants match them
+ * - Shortlist tenants with private notes, without using a request slot
+ * - Send rental requests to tenants, with an optional message and linked room
+ * - Track pending/accepted/rejected requests, with each request's status history
+ *   and when the tenant saw it; withdraw pending ones or send one reminder
+ * - Accept, decline or counter a tenant's proposed rent, move-in date or occupants
+ * - Accept or reject interest requests tenants sent about their rooms
+ * - Confirm whether each accepted contact moved in, which marks the room Occupied
+ * - Keep a rent ledger per tenant: record cash/UPI payments, see dues and overdue
+ *   months, and download a statement
+ * - Monitor request limits (max pending, window and per-tenant cooldown set by the admin)
  * 
  * Features:
  * - Real-time countdown timer for request limit
@@ -15,47 +28,158 @@
  * - Address editing functionality
  */
 import { useEffect, useState } from 'react';
-import { useNavigate, useParams } from 'react-router-dom';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import Header from '../components/Header';
 import ChatWidget from '../components/ChatWidget';
 import LoadingSpinner from '../components/LoadingSpinner';
+import LoadErrorState from '../components/LoadErrorState';
 import Toast from '../components/Toast';
+import RoomFormModal from '../components/RoomFormModal';
+import RoomPhotosModal from '../components/RoomPhotosModal';
+import TenantFilters from '../components/TenantFilters';
+import TenantPreferenceSummary from '../components/TenantPreferenceSummary';
+import MatchScoreBreakdown from '../components/MatchScoreBreakdown';
+import SavedSearchBar from '../components/SavedSearchBar';
+import SavedSearchDigestModal from '../components/SavedSearchDigestModal';
+import ShortlistCard from '../components/ShortlistCard';
+import RentRequestModal from '../components/RentRequestModal';
+import RequestTimeline from '../components/RequestTimeline';
+import OfferThread from '../components/OfferThread';
+import CounterOfferModal from '../components/CounterOfferModal';
+import VisitSlotsModal from '../components/VisitSlotsModal';
+import UpcomingVisits from '../components/UpcomingVisits';
+import OutcomePrompt from '../components/OutcomePrompt';
+import TenancyFormModal from '../components/TenancyFormModal';
+import RecordPaymentModal from '../components/RecordPaymentModal';
+import RentLedger from '../components/RentLedger';
+import Pagination from '../components/Pagination';
 import { malikApi } from '../services/api';
+import { ApiError } from '../services/errors';
 import { useLanguage } from '../contexts/LanguageContext';
-import type { Malik, Bhadot, RentRequestWithDetails } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import { ROOM_STATUS_STYLES, coverPhoto, formatRupees } from '../utils/rooms';
+import { hasPreferences } from '../utils/preferences';
+import { scoreTenants } from '../utils/matching';
+import {
+  DEFAULT_REQUEST_POLICY,
+  canNudge,
+  describePolicy,
+  evaluateRequestLimits,
+  loadRequestPolicy,
+  type TenantCooldown,
+} from '../utils/requestPolicy';
+import { toNumber, toParamEntries, withParams } from '../utils/searchParams';
+import { formatTimeAgo, parseLocalDate, toLocalDateString } from '../utils/time';
+import { wasAccepted } from '../utils/requestHistory';
+import { currentTerms, openOffer } from '../utils/offers';
+import { ledgerMonths, summarizeLedger } from '../utils/ledger';
+import type {
+  Malik,
+  Bhadot,
+  BhadotSearchParams,
+  OfferPayload,
+  Paginated,
+  RentPaymentPayload,
+  RentRequestWithDetails,
+  RequestOutcomePayload,
+  Room,
+  RoomPayload,
+  RoomPhotosPayload,
+  SavedSearch,
+  SavedSearchDigest,
+  ShortlistEntry,
+  ShortlistUpdatePayload,
+  TenancyPayload,
+  TenancyStatement,
+  Visit,
+} from '../types';
+
+const TENANTS_PAGE_SIZE = 20;
+
+/** Tenant filters from the query string, ignoring anything malformed */
+const readTenantFilters = (params: URLSearchParams): BhadotSearchParams => {
+  const status = params.get('status');
+  return {
+    q: params.get('q') || undefined,
+    area: params.get('area') || undefined,
+    cast: params.get('cast') || undefined,
+    minFamily: toNumber(params.get('minFamily')),
+    maxFamily: toNumber(params.get('maxFamily')),
+    status: status === 'Waiting' || status === 'Approved' ? status : undefined,
+    registeredFrom: params.get('registeredFrom') || undefined,
+    registeredTo: params.get('registeredTo') || undefined,
+  };
+};
 
 export default function MalikDashboard() {
   // Get Malik ID from URL parameters
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const { t } = useLanguage();
+  const { t, tError } = useLanguage();
+  const { logout } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const tenantFilters = readTenantFilters(searchParams);
+  const tenantPage = Math.max(1, toNumber(searchParams.get('page')) ?? 1);
+  const matchRoomId = searchParams.get('matchRoom') ?? ''; // Room the tenants are ranked against; empty for server order
 
   // State Management
   const [malik, setMalik] = useState<Malik | null>(null); // Current Malik user data
-  const [bhadots, setBhadots] = useState<Bhadot[]>([]); // List of all available tenants
+  const [tenants, setTenants] = useState<Paginated<Bhadot> | null>(null); // Current page of filtered tenants
+  const [tenantsLoading, setTenantsLoading] = useState(false); // Tenant page loading state
   const [requests, setRequests] = useState<RentRequestWithDetails[]>([]); // All rental requests
+  const [interests, setInterests] = useState<RentRequestWithDetails[]>([]); // Requests tenants sent to this Malik
+  const [respondingInterest, setRespondingInterest] = useState<string | null>(null); // Interest ID being accepted or rejected
+  const [rooms, setRooms] = useState<Room[]>([]); // This Malik's room listings
   const [loading, setLoading] = useState(true); // Loading state
+  const [loadError, setLoadError] = useState<unknown>(null); // Set when dashboard data failed to load or validate
 
   // Request sending states
   const [sendingRequest, setSendingRequest] = useState<string | null>(null); // Currently sending request to this Bhadot ID
+  const [requestTarget, setRequestTarget] = useState<Bhadot | null>(null); // Tenant the request modal is composing for
+  const [withdrawingRequest, setWithdrawingRequest] = useState<string | null>(null); // Request ID being withdrawn
+  const [respondingOffer, setRespondingOffer] = useState<string | null>(null); // Request ID whose offer is being answered
+  const [counterRequest, setCounterRequest] = useState<RentRequestWithDetails | null>(null); // Request being countered
+  const [nudgingRequest, setNudgingRequest] = useState<string | null>(null); // Request ID a reminder is being sent for
+
+  // Saved tenant searches and their new-match alerts
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]); // Searches with their new-match counts
+  const [digest, setDigest] = useState<SavedSearchDigest[] | null>(null); // New matches per search, once loaded
+  const [showDigest, setShowDigest] = useState(false); // Show the new-matches digest modal
+
+  // Shortlist states
+  const [shortlist, setShortlist] = useState<ShortlistEntry[]>([]); // Starred tenants with private notes
+  const [togglingShortlist, setTogglingShortlist] = useState<string | null>(null); // Bhadot ID being starred/unstarred
 
   // Address editing states
   const [editingAddress, setEditingAddress] = useState(false); // Whether address is being edited
   const [addressValue, setAddressValue] = useState(''); // Temporary address value during editing
   const [savingAddress, setSavingAddress] = useState(false); // Saving address state
 
+  // Room listing states
+  const [roomForm, setRoomForm] = useState<{ room?: Room } | null>(null); // Open create/edit modal
+  const [photosRoom, setPhotosRoom] = useState<Room | null>(null); // Room whose photos are being managed
+  const [slotsRoom, setSlotsRoom] = useState<Room | null>(null); // Room whose visit slots are being managed
+  const [visits, setVisits] = useState<Visit[]>([]); // Visits tenants booked
+  const [updatingRoom, setUpdatingRoom] = useState<string | null>(null); // Room ID being paused/resumed/deleted
+
+  // Tenancies and their rent ledgers
+  const [tenancies, setTenancies] = useState<TenancyStatement[]>([]); // Tenancies with every recorded payment
+  const [showTenancyForm, setShowTenancyForm] = useState(false); // Show the add-tenancy modal
+  const [paymentTenancy, setPaymentTenancy] = useState<TenancyStatement | null>(null); // Tenancy a payment is being recorded for
+
   // Request limit management
-  const [pendingCount, setPendingCount] = useState(0); // Number of active pending requests (within 24h)
+  const [requestPolicy, setRequestPolicy] = useState(DEFAULT_REQUEST_POLICY); // Limits as configured by the admin
+  const [pendingCount, setPendingCount] = useState(0); // Number of active pending requests (within the policy window)
   const [canSendMore, setCanSendMore] = useState(true); // Whether more requests can be sent
   const [nextAvailableTime, setNextAvailableTime] = useState<Date | null>(null); // When next request can be sent
   const [timeRemaining, setTimeRemaining] = useState<string>(''); // Countdown timer display
-  const [activeTab, setActiveTab] = useState<'tenants' | 'requests'>('tenants'); // Tab state
+  const [activeTab, setActiveTab] = useState<'tenants' | 'shortlist' | 'requests' | 'interests' | 'rooms' | 'tenancies'>('tenants'); // Tab state
 
   // Toast notification state
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' | 'info' } | null>(null);
 
-  // Per-tenant cooldown tracking (24 hours from last request to that tenant)
-  const [tenantCooldowns, setTenantCooldowns] = useState<Record<string, { until: Date; hoursRemaining: number }>>({});
+  // Per-tenant cooldown tracking (policy cooldown from last request to that tenant)
+  const [tenantCooldowns, setTenantCooldowns] = useState<Record<string, TenantCooldown>>({});
 
   // Load data when component mounts or ID changes
   useEffect(() => {
@@ -64,8 +188,32 @@ export default function MalikDashboard() {
     }
   }, [id]);
 
+  // Check saved searches for new matches, shortlisted tenants for status changes, new interest, visits and rent dues every minute
+  useEffect(() => {
+    if (!id) return;
+    const refresh = () => {
+      loadSavedSearches();
+      loadShortlist();
+      loadInterests();
+      loadVisits();
+      loadTenancies();
+    };
+    refresh();
+    const interval = setInterval(refresh, 60000);
+    return () => clearInterval(interval);
+  }, [id]);
+
+  // Reload the tenant list whenever filters or page in the URL change
+  useEffect(() => {
+    if (id) {
+      loadTenants();
+    }
+  }, [id, searchParams]);
+
   // Update countdown timer every second when limit is reached
   useEffect(() => {
+    // Reload once when the countdown runs out, never for a time that had already passed
+    let reloadPending = !!nextAvailableTime && nextAvailableTime.getTime() > Date.now();
     const updateTimer = () => {
       if (nextAvailableTime && !canSendMore) {
         const now = new Date();
@@ -85,7 +233,10 @@ export default function MalikDashboard() {
           }
         } else {
           setTimeRemaining('');
-          loadData(); // Reload to check if we can send more
+          if (reloadPending) {
+            reloadPending = false;
+            loadData(); // Reload to check if we can send more
+          }
         }
       } else {
         setTimeRemaining('');
@@ -136,94 +287,394 @@ export default function MalikDashboard() {
 
   /**
    * Load all dashboard data
-   * Fetches Malik profile, all Bhadots, and rental requests
+   * Fetches Malik profile, rental requests and room listings
    * Calculates request limit status and countdown timer
    */
   const loadData = async () => {
     if (!id) return;
     setLoading(true);
+    setLoadError(null);
     try {
       // Fetch all data in parallel for better performance
-      const [malikRes, bhadotsRes, requestsRes] = await Promise.all([
+      const [malikRes, requestsRes, roomsRes, policy] = await Promise.all([
         malikApi.getById(id),
-        malikApi.getBhadots(id),
         malikApi.getRequests(id),
+        malikApi.getRooms(id),
+        loadRequestPolicy(),
       ]);
 
       setMalik(malikRes.data);
-      setBhadots(bhadotsRes.data);
       setRequests(requestsRes.data);
+      setRooms(roomsRes.data);
 
-      // Calculate active pending requests (within 24 hours)
-      // Only requests sent in the last 24 hours count towards the limit
-      const now = new Date();
-      const twentyFourHoursAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-      const activePending = requestsRes.data.filter((req: any) => {
-        if (req.status !== 'Pending') return false;
-        const requestTime = new Date(req.timestamp);
-        return requestTime > twentyFourHoursAgo;
-      });
+      // Request limits under the policy the backend enforces
+      const limits = evaluateRequestLimits(requestsRes.data, policy);
+      setRequestPolicy(policy);
+      setNextAvailableTime(limits.nextAvailableTime);
+      setTenantCooldowns(limits.tenantCooldowns);
+      setPendingCount(limits.pendingCount);
+      setCanSendMore(limits.canSendMore);
+    } catch (error) {
+      console.error('Failed to load data:', error);
+      // An unrecoverable 401 ends the session globally and redirects to login
+      if (ApiError.from(error).status !== 401) {
+        setLoadError(error);
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
 
-      // Find oldest pending request to calculate next available time
-      // This helps show when the user can send more requests
-      const allPending = requestsRes.data.filter((req: any) => req.status === 'Pending');
-      if (allPending.length > 0) {
-        // Sort by timestamp to find the oldest request
-        const sortedPending = [...allPending].sort((a: any, b: any) =>
-          new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-        );
-        const oldestRequest = sortedPending[0];
-        const oldestRequestTime = new Date(oldestRequest.timestamp);
-        // Next request can be sent 24 hours after the oldest pending request
-        const nextAvailable = new Date(oldestRequestTime.getTime() + 24 * 60 * 60 * 1000);
-        setNextAvailableTime(nextAvailable);
-      } else {
-        setNextAvailableTime(null);
+  /**
+   * Load one page of tenants matching the filters in the URL
+   * Filtering and pagination happen on the server
+   */
+  const loadTenants = async () => {
+    if (!id) return;
+    setTenantsLoading(true);
+    try {
+      const response = await malikApi.getBhadots(id, {
+        ...tenantFilters,
+        matchRoomId: matchRoomId || undefined,
+        page: tenantPage,
+        pageSize: TENANTS_PAGE_SIZE,
+      });
+      setTenants(response.data);
+    } catch (error) {
+      console.error('Failed to load tenants:', error);
+      if (ApiError.from(error).status !== 401) {
+        setToast({ message: tError(error), type: 'error' });
       }
+    } finally {
+      setTenantsLoading(false);
+    }
+  };
 
-      // Calculate per-tenant cooldowns (24 hours from last request to each tenant)
-      // Check all requests (Pending, Accepted, Rejected, Expired) for cooldown
-      const cooldowns: Record<string, { until: Date; hoursRemaining: number }> = {};
-      requestsRes.data.forEach((req: any) => {
-        const requestTime = new Date(req.timestamp);
-        const cooldownUntil = new Date(requestTime.getTime() + 24 * 60 * 60 * 1000);
-        const diff = cooldownUntil.getTime() - now.getTime();
-        const hoursRemaining = Math.ceil(diff / (1000 * 60 * 60));
+  /**
+   * Load saved searches with their new-match counts
+   * Failures are only logged; alerts simply stay as they were
+   */
+  const loadSavedSearches = async () => {
+    if (!id) return;
+    try {
+      const response = await malikApi.getSavedSearches(id);
+      setSavedSearches(response.data);
+    } catch (error) {
+      console.error('Failed to load saved searches:', error);
+    }
+  };
 
-        if (diff > 0 && hoursRemaining > 0) {
-          // Track the most recent cooldown for each tenant
-          if (!cooldowns[req.bhadotId] || cooldowns[req.bhadotId].until < cooldownUntil) {
-            cooldowns[req.bhadotId] = { until: cooldownUntil, hoursRemaining };
-          }
-        }
+  const handleOpenDigest = async () => {
+    if (!id) return;
+    setShowDigest(true);
+    setDigest(null);
+    try {
+      const response = await malikApi.getSavedSearchDigest(id);
+      setDigest(response.data);
+    } catch (error) {
+      setShowDigest(false);
+      setToast({ message: tError(error), type: 'error' });
+    }
+  };
+
+  /**
+   * Apply a saved search to the tenant list and clear its "new" badge
+   */
+  const handleOpenSavedSearch = async (search: SavedSearch) => {
+    if (!id) return;
+    const params = new URLSearchParams(toParamEntries(search.filters));
+    if (matchRoomId) params.set('matchRoom', matchRoomId);
+    setSearchParams(params);
+    setActiveTab('tenants');
+    setShowDigest(false);
+    if (search.newMatchCount === 0) return;
+    try {
+      const response = await malikApi.markSavedSearchViewed(id, search.id);
+      setSavedSearches((current) => current.map((s) => (s.id === search.id ? response.data.savedSearch : s)));
+    } catch (error) {
+      console.error('Failed to mark saved search as viewed:', error);
+    }
+  };
+
+  const handleSaveSearch = async (name: string) => {
+    if (!id) return;
+    try {
+      const response = await malikApi.createSavedSearch(id, { name, filters: tenantFilters });
+      setSavedSearches((current) => [...current, response.data.savedSearch]);
+      setToast({ message: t('searchSaved'), type: 'success' });
+    } catch (error) {
+      throw new Error(tError(error));
+    }
+  };
+
+  const handleRenameSearch = async (search: SavedSearch, name: string) => {
+    if (!id) return;
+    try {
+      const response = await malikApi.updateSavedSearch(id, search.id, { name });
+      setSavedSearches((current) => current.map((s) => (s.id === search.id ? response.data.savedSearch : s)));
+    } catch (error) {
+      throw new Error(tError(error));
+    }
+  };
+
+  const handleDeleteSearch = async (search: SavedSearch) => {
+    if (!id) return;
+    try {
+      await malikApi.deleteSavedSearch(id, search.id);
+      setSavedSearches((current) => current.filter((s) => s.id !== search.id));
+    } catch (error) {
+      setToast({ message: tError(error), type: 'error' });
+    }
+  };
+
+  /**
+   * Withdraw a Pending request
+   * The pending slot is freed at once; the 24h cooldown for that tenant still applies
+   */
+  const handleWithdrawRequest = async (request: RentRequestWithDetails) => {
+    if (!id) return;
+    if (!window.confirm(describePolicy(t('confirmWithdrawRequest'), requestPolicy).replace('{name}', request.bhadotName || ''))) return;
+    setWithdrawingRequest(request.id);
+    try {
+      await malikApi.withdrawRequest(id, request.id);
+      await loadData(); // Recount pending requests and cooldowns
+      setToast({ message: t('requestWithdrawn'), type: 'success' });
+    } catch (error) {
+      setToast({ message: tError(error), type: 'error' });
+    } finally {
+      setWithdrawingRequest(null);
+    }
+  };
+
+  const handleNudgeRequest = async (request: RentRequestWithDetails) => {
+    if (!id) return;
+    if (!window.confirm(t('confirmSendReminder').replace('{name}', request.bhadotName || ''))) return;
+    setNudgingRequest(request.id);
+    try {
+      const response = await malikApi.nudgeRequest(id, request.id);
+      setRequests((prev) => prev.map((req) => (req.id === request.id ? { ...req, ...response.data.request } : req)));
+      setToast({ message: t('reminderSentToast').replace('{name}', request.bhadotName || ''), type: 'success' });
+    } catch (error) {
+      setToast({ message: tError(error), type: 'error' });
+    } finally {
+      setNudgingRequest(null);
+    }
+  };
+
+  /**
+   * Answer the tenant's open offer
+   * Accepting settles the request on those terms; declining rejects it
+   */
+  const handleRespondToOffer = async (request: RentRequestWithDetails, status: 'Accepted' | 'Declined') => {
+    const offer = openOffer(request);
+    if (!id || !offer) return;
+    setRespondingOffer(request.id);
+    try {
+      await malikApi.respondToOffer(id, request.id, offer.id, status);
+      // Either answer settles the request, which frees its pending slot
+      await loadData();
+      setToast({ message: t(status === 'Accepted' ? 'offerAcceptedToast' : 'offerDeclinedToast'), type: 'success' });
+    } catch (error) {
+      setToast({ message: tError(error), type: 'error' });
+    } finally {
+      setRespondingOffer(null);
+    }
+  };
+
+  const handleCounterOffer = async (data: OfferPayload) => {
+    if (!id || !counterRequest) return;
+    try {
+      const response = await malikApi.makeOffer(id, counterRequest.id, data);
+      setRequests((prev) => prev.map((req) => (req.id === counterRequest.id ? { ...req, ...response.data.request } : req)));
+      setCounterRequest(null);
+      setToast({ message: t('counterOfferSent'), type: 'success' });
+    } catch (error) {
+      throw new Error(tError(error));
+    }
+  };
+
+  /**
+   * Record whether an accepted tenant moved in
+   * Reloads rooms and requests because a move-in marks the linked room Occupied
+   */
+  const handleReportOutcome = async (request: RentRequestWithDetails, data: RequestOutcomePayload) => {
+    if (!id) return;
+    try {
+      await malikApi.reportOutcome(id, request.id, data);
+      await Promise.all([loadData(), loadInterests()]);
+      setToast({ message: t('outcomeSaved'), type: 'success' });
+    } catch (error) {
+      throw new Error(tError(error));
+    }
+  };
+
+  /**
+   * Load visits tenants booked in the Malik's slots
+   * Failures are only logged; the list simply stays as it was
+   */
+  const loadVisits = async () => {
+    if (!id) return;
+    try {
+      const response = await malikApi.getVisits(id);
+      setVisits(response.data);
+    } catch (error) {
+      console.error('Failed to load visits:', error);
+    }
+  };
+
+  /**
+   * Load tenancies with their payments
+   * Failures are only logged; the list simply stays as it was
+   */
+  const loadTenancies = async () => {
+    if (!id) return;
+    try {
+      const response = await malikApi.getTenancies(id);
+      setTenancies(response.data);
+    } catch (error) {
+      console.error('Failed to load tenancies:', error);
+    }
+  };
+
+  const handleCreateTenancy = async (data: TenancyPayload) => {
+    if (!id) return;
+    try {
+      const response = await malikApi.createTenancy(id, data);
+      setTenancies((current) => [{ tenancy: response.data.tenancy, payments: [] }, ...current]);
+      setShowTenancyForm(false);
+      setToast({ message: t('tenancyCreated'), type: 'success' });
+    } catch (error) {
+      throw new Error(tError(error));
+    }
+  };
+
+  const handleRecordPayment = async (data: RentPaymentPayload) => {
+    if (!id || !paymentTenancy) return;
+    const tenancyId = paymentTenancy.tenancy.id;
+    try {
+      const response = await malikApi.recordPayment(id, tenancyId, data);
+      setTenancies((current) => current.map((entry) => (entry.tenancy.id === tenancyId
+        ? { ...entry, payments: [...entry.payments, response.data.payment] }
+        : entry)));
+      setPaymentTenancy(null);
+      setToast({ message: t('paymentRecorded'), type: 'success' });
+    } catch (error) {
+      throw new Error(tError(error));
+    }
+  };
+
+  /**
+   * Mark a tenant as moved out today; the ledger stays available
+   */
+  const handleEndTenancy = async (entry: TenancyStatement) => {
+    if (!id || !window.confirm(t('confirmEndTenancy').replace('{name}', entry.tenancy.bhadotName || ''))) return;
+    try {
+      const response = await malikApi.endTenancy(id, entry.tenancy.id, toLocalDateString());
+      setTenancies((current) => current.map((e) => (e.tenancy.id === entry.tenancy.id ? { ...e, tenancy: response.data.tenancy } : e)));
+      await loadData(); // The room may be listed again
+      setToast({ message: t('tenancyEndedToast'), type: 'info' });
+    } catch (error) {
+      setToast({ message: tError(error), type: 'error' });
+    }
+  };
+
+  /**
+   * Load interest requests from tenants
+   * Failures are only logged; the list simply stays as it was
+   */
+  const loadInterests = async () => {
+    if (!id) return;
+    try {
+      const response = await malikApi.getInterests(id);
+      setInterests(response.data);
+    } catch (error) {
+      console.error('Failed to load interests:', error);
+    }
+  };
+
+  const handleRespondToInterest = async (request: RentRequestWithDetails, status: 'Accepted' | 'Rejected') => {
+    if (!id) return;
+    setRespondingInterest(request.id);
+    try {
+      const response = await malikApi.respondToInterest(id, request.id, status);
+      setInterests((prev) => prev.map((req) => (req.id === request.id ? { ...req, ...response.data.request } : req)));
+      setToast({
+        message: t(status === 'Accepted' ? 'interestAcceptedToast' : 'interestRejectedToast').replace('{name}', request.bhadotName || ''),
+        type: 'success',
       });
-      setTenantCooldowns(cooldowns);
+    } catch (error) {
+      setToast({ message: tError(error), type: 'error' });
+    } finally {
+      setRespondingInterest(null);
+    }
+  };
 
-      // Update request limit status
-      setPendingCount(activePending.length);
-      setCanSendMore(activePending.length < 2); // Max 2 pending requests allowed
-    } catch (error: any) {
-      console.error('Failed to load data:', error);
-      if (error.status === 401 || error.response?.status === 401) {
-        // Token expired or invalid
-        navigate('/malik/register'); // or login
+  /**
+   * Load shortlisted tenants with their latest profile
+   * Failures are only logged; the list simply stays as it was
+   */
+  const loadShortlist = async () => {
+    if (!id) return;
+    try {
+      const response = await malikApi.getShortlist(id);
+      setShortlist(response.data);
+    } catch (error) {
+      console.error('Failed to load shortlist:', error);
+    }
+  };
+
+  const handleToggleShortlist = async (bhadotId: string) => {
+    if (!id) return;
+    const listed = shortlist.some((entry) => entry.bhadotId === bhadotId);
+    setTogglingShortlist(bhadotId);
+    try {
+      if (listed) {
+        await malikApi.removeFromShortlist(id, bhadotId);
+        setShortlist((current) => current.filter((entry) => entry.bhadotId !== bhadotId));
+      } else {
+        const response = await malikApi.addToShortlist(id, bhadotId);
+        setShortlist((current) => [...current, response.data.entry]);
       }
+    } catch (error) {
+      setToast({ message: tError(error), type: 'error' });
     } finally {
-      setLoading(false);
+      setTogglingShortlist(null);
     }
   };
 
   /**
-   * Handle sending a rental request to a specific tenant
-   * @param bhadotId - The ID of the tenant (Bhadot) to send request to
+   * Save a shortlist entry change (note, or acknowledging an active-status change)
    */
-  const handleSendRequest = async (bhadotId: string) => {
+  const handleUpdateShortlistEntry = async (bhadotId: string, data: ShortlistUpdatePayload) => {
     if (!id) return;
+    try {
+      const response = await malikApi.updateShortlistEntry(id, bhadotId, data);
+      setShortlist((current) => current.map((entry) => (entry.bhadotId === bhadotId ? response.data.entry : entry)));
+    } catch (error) {
+      setToast({ message: tError(error), type: 'error' });
+    }
+  };
+
+  const handleApplyTenantFilters = (filters: BhadotSearchParams) => {
+    const changes: Record<string, string | undefined> = { page: undefined };
+    Object.entries(filters).forEach(([key, value]) => {
+      changes[key] = value === undefined ? undefined : String(value);
+    });
+    setSearchParams(withParams(searchParams, changes));
+  };
+
+  /**
+   * Open the request composer for a tenant once the limits allow it
+   * @param bhadot - The tenant (Bhadot) to send the request to
+   */
+  const handleSendRequest = (bhadot: Bhadot) => {
+    if (!id) return;
+    const bhadotId = bhadot.id;
 
     // Check if request limit has been reached
     if (!canSendMore) {
       setToast({
-        message: 'Maximum 2 pending requests allowed. Please wait 24 hours after your oldest pending request to send more.',
+        message: describePolicy(t('errorRequestLimit'), requestPolicy),
         type: 'error'
       });
       return;
@@ -233,43 +684,32 @@ export default function MalikDashboard() {
     const cooldown = tenantCooldowns[bhadotId];
     if (cooldown && cooldown.hoursRemaining > 0) {
       setToast({
-        message: `You can send a new request to this tenant after ${cooldown.hoursRemaining} hour(s).`,
+        message: t('errorTenantCooldown').replace('{hoursRemaining}', String(cooldown.hoursRemaining)),
         type: 'error'
       });
       return;
     }
 
-    setSendingRequest(bhadotId);
+    setRequestTarget(bhadot);
+  };
+
+  /**
+   * Send the composed request
+   * @param data - Optional personal message and linked room
+   */
+  const handleSubmitRequest = async (data: { message?: string; roomId?: string }) => {
+    if (!id || !requestTarget) return;
+    setSendingRequest(requestTarget.id);
     try {
-      await malikApi.createRequest({ malikId: id, bhadotId });
+      await malikApi.createRequest({ malikId: id, bhadotId: requestTarget.id, ...data });
+      setRequestTarget(null);
       await loadData(); // Reload data to update request count
       setToast({
         message: 'Rental request sent successfully!',
         type: 'success'
       });
-    } catch (error: any) {
-      // Parse error response to get hoursRemaining if available
-      let errorMessage = 'Failed to send request';
-      try {
-        if (error.response?.data?.error) {
-          const errorData = error.response.data;
-          if (errorData.hoursRemaining !== undefined) {
-            errorMessage = `You can send a new request to this tenant after ${errorData.hoursRemaining} hour(s).`;
-          } else {
-            errorMessage = errorData.error;
-          }
-        } else if (error.message) {
-          errorMessage = error.message;
-        }
-      } catch {
-        // If parsing fails, use the original error message
-        if (error.message) errorMessage = error.message;
-      }
-
-      setToast({
-        message: errorMessage,
-        type: 'error'
-      });
+    } catch (error) {
+      throw new Error(tError(error, requestPolicy));
     } finally {
       setSendingRequest(null);
     }
@@ -288,9 +728,9 @@ export default function MalikDashboard() {
           type: 'success'
         });
       }
-    } catch (error: any) {
+    } catch (error) {
       setToast({
-        message: error.message || 'Failed to update address',
+        message: tError(error),
         type: 'error'
       });
     } finally {
@@ -298,6 +738,75 @@ export default function MalikDashboard() {
     }
   };
 
+  /**
+   * Create a new listing or save edits to an existing one
+   * Errors are rethrown as translated messages for the form to display
+   */
+  const handleSaveRoom = async (data: RoomPayload) => {
+    if (!id || !roomForm) return;
+    const editing = roomForm.room;
+    try {
+      const response = editing
+        ? await malikApi.updateRoom(id, editing.id, data)
+        : await malikApi.createRoom(id, data);
+      const saved = response.data.room;
+      setRooms((current) => editing
+        ? current.map((room) => (room.id === saved.id ? saved : room))
+        : [saved, ...current]);
+      setRoomForm(null);
+      setToast({ message: t(editing ? 'roomUpdated' : 'roomCreated'), type: 'success' });
+    } catch (error) {
+      throw new Error(tError(error));
+    }
+  };
+
+  const handleSaveRoomPhotos = async (data: RoomPhotosPayload) => {
+    if (!id || !photosRoom) return;
+    try {
+      const response = await malikApi.updateRoomPhotos(id, photosRoom.id, data);
+      setRooms((current) => current.map((room) => (room.id === photosRoom.id ? response.data.room : room)));
+      setPhotosRoom(null);
+      setToast({ message: t('photosSaved'), type: 'success' });
+    } catch (error) {
+      throw new Error(tError(error));
+    }
+  };
+
+  /**
+   * Pause an available listing or put a paused one back on the market
+   */
+  const handleToggleRoomPause = async (room: Room) => {
+    if (!id) return;
+    const nextStatus = room.status === 'Paused' ? 'Available' : 'Paused';
+    setUpdatingRoom(room.id);
+    try {
+      const response = await malikApi.setRoomStatus(id, room.id, nextStatus);
+      setRooms((current) => current.map((r) => (r.id === room.id ? response.data.room : r)));
+      setToast({
+        message: t(nextStatus === 'Paused' ? 'roomPausedToast' : 'roomResumedToast'),
+        type: 'info'
+      });
+    } catch (error) {
+      setToast({ message: tError(error), type: 'error' });
+    } finally {
+      setUpdatingRoom(null);
+    }
+  };
+
+  const handleDeleteRoom = async (room: Room) => {
+    if (!id || !confirm(t('confirmDeleteRoom'))) return;
+    setUpdatingRoom(room.id);
+    try {
+      await malikApi.deleteRoom(id, room.id);
+      setRooms((current) => current.filter((r) => r.id !== room.id));
+      setToast({ message: t('roomDeleted'), type: 'success' });
+    } catch (error) {
+      setToast({ message: tError(error), type: 'error' });
+    } finally {
+      setUpdatingRoom(null);
+    }
+  };
+
   const handleCancelEdit = () => {
     if (malik) {
       setAddressValue(malik.address);
@@ -311,6 +820,31 @@ export default function MalikDashboard() {
     return `${firstThree}-xxxxxxxxxxx`;
   };
 
+  const bhadots = tenants?.items ?? [];
+  const tenantTotal = tenants?.total ?? 0;
+  const shortlistedIds = new Set(shortlist.map((entry) => entry.bhadotId));
+  // Shortlisted tenants who went inactive or came back since the Malik last looked
+  const shortlistChanges = shortlist.filter((entry) => (entry.bhadot.isActive !== false) !== entry.seenActive);
+  const newMatchTotal = savedSearches.reduce((sum, search) => sum + search.newMatchCount, 0);
+  // Outcomes are still wanted after the accepted contact expires, or conversions would be undercounted
+  const awaitingOutcome = [...requests, ...interests].filter((req) => wasAccepted(req) && !req.malikOutcome);
+  // Contacts either side reported as moved in that do not have a rent ledger yet; an accepted
+  // request may have expired by the time the move-in is recorded, so its status does not matter
+  const tenancyRequestIds = new Set(tenancies.map((entry) => entry.tenancy.requestId));
+  const tenancyCandidates = [...requests, ...interests].filter(
+    (req) =>
+      (req.malikOutcome?.result === 'MovedIn' || req.bhadotOutcome?.result === 'MovedIn') &&
+      !tenancyRequestIds.has(req.id)
+  );
+  const overdueTenancies = tenancies.filter(
+    (entry) => entry.tenancy.status === 'Active' && summarizeLedger(ledgerMonths(entry.tenancy, entry.payments)).overdueMonths > 0
+  ).length;
+  const matchRoom = rooms.find((room) => room.id === matchRoomId);
+  // The server already ranked the page by fit; scores are recomputed only for the breakdown
+  const rankedTenants = matchRoom
+    ? scoreTenants(matchRoom, bhadots)
+    : bhadots.map((bhadot) => ({ bhadot, score: undefined }));
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -319,6 +853,10 @@ export default function MalikDashboard() {
     );
   }
 
+  if (loadError) {
+    return <LoadErrorState error={loadError} onRetry={loadData} onHome={() => navigate('/')} />;
+  }
+
   if (!malik) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -344,13 +882,92 @@ export default function MalikDashboard() {
           onClose={() => setToast(null)}
         />
       )}
+      {roomForm && (
+        <RoomFormModal
+          room={roomForm.room}
+          defaultAddress={malik.address}
+          onSubmit={handleSaveRoom}
+          onClose={() => setRoomForm(null)}
+        />
+      )}
+      {photosRoom && (
+        <RoomPhotosModal
+          room={photosRoom}
+          onSubmit={handleSaveRoomPhotos}
+          onClose={() => setPhotosRoom(null)}
+        />
+      )}
+      {slotsRoom && id && (
+        <VisitSlotsModal
+          malikId={id}
+          room={slotsRoom}
+          onClose={() => {
+            setSlotsRoom(null);
+            loadVisits();
+          }}
+        />
+      )}
+      {showTenancyForm && (
+        <TenancyFormModal
+          candidates={tenancyCandidates}
+          rooms={rooms}
+          onSubmit={handleCreateTenancy}
+          onClose={() => setShowTenancyForm(false)}
+        />
+      )}
+      {paymentTenancy && (
+        <RecordPaymentModal
+          tenantName={paymentTenancy.tenancy.bhadotName || ''}
+          months={ledgerMonths(paymentTenancy.tenancy, paymentTenancy.payments)}
+          onSubmit={handleRecordPayment}
+          onClose={() => setPaymentTenancy(null)}
+        />
+      )}
+      {counterRequest && (
+        <CounterOfferModal
+          initial={currentTerms(counterRequest.offers, { rent: counterRequest.roomRent })}
+          accent="green"
+          onSubmit={handleCounterOffer}
+          onClose={() => setCounterRequest(null)}
+        />
+      )}
+      {requestTarget && (
+        <RentRequestModal
+          bhadotName={requestTarget.name}
+          malikName={malik.name}
+          rooms={rooms.filter((room) => room.status === 'Available')}
+          onSubmit={handleSubmitRequest}
+          onClose={() => setRequestTarget(null)}
+        />
+      )}
+      {showDigest && (
+        <SavedSearchDigestModal
+          digest={digest}
+          onOpenSearch={handleOpenSavedSearch}
+          onClose={() => setShowDigest(false)}
+        />
+      )}
       <Header
         title={`${t('makanMalik')} - ${malik.name}`}
         showLanguageSwitcher={true}
-        onLogout={() => {
-          localStorage.removeItem('token');
-          navigate('/');
-        }}
+        onLogout={logout}
+        actions={savedSearches.length > 0 && (
+          <button
+            type="button"
+            onClick={handleOpenDigest}
+            title={t('newTenantMatches')}
+            className="relative p-2 rounded-xl text-gray-600 hover:bg-gray-100 transition"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+            </svg>
+            {newMatchTotal > 0 && (
+              <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-500 text-white text-xs font-bold flex items-center justify-center">
+                {newMatchTotal}
+              </span>
+            )}
+          </button>
+        )}
       />
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {/* Welcome Card */}
@@ -414,6 +1031,48 @@ export default function MalikDashboard() {
           </div>
         </div>
 
+        {/* Shortlisted tenants whose active status changed */}
+        {shortlistChanges.length > 0 && (
+          <div className="bg-yellow-50 border-2 border-yellow-200 rounded-3xl p-4 mb-6 space-y-2">
+            {shortlistChanges.map((entry) => {
+              const nowActive = entry.bhadot.isActive !== false;
+              return (
+                <div key={entry.bhadotId} className="flex items-center justify-between gap-3">
+                  <p className="text-sm text-yellow-900">
+                    ★ {(nowActive ? t('shortlistTenantActive') : t('shortlistTenantInactive')).replace('{name}', entry.bhadot.name)}
+                  </p>
+                  <button
+                    onClick={() => handleUpdateShortlistEntry(entry.bhadotId, { seenActive: nowActive })}
+                    className="text-sm font-semibold text-yellow-800 hover:text-yellow-950 whitespace-nowrap"
+                  >
+                    {t('dismiss')}
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <UpcomingVisits visits={visits} viewer="Malik" />
+
+        {/* Accepted contacts still waiting for the Malik's move-in confirmation */}
+        {awaitingOutcome.length > 0 && (
+          <div className="bg-white rounded-3xl shadow-lg p-6 mb-6 border border-amber-200">
+            <h3 className="text-xl font-bold text-gray-900">{t('confirmOutcomes')}</h3>
+            <p className="text-sm text-gray-600 mb-2">{t('confirmOutcomesHint')}</p>
+            <div className="space-y-2">
+              {awaitingOutcome.map((request) => (
+                <OutcomePrompt
+                  key={request.id}
+                  question={`${t('didTenantMoveIn').replace('{name}', request.bhadotName || '')}${request.roomTitle ? ` (${request.roomTitle})` : ''}`}
+                  accent="green"
+                  onSubmit={(data) => handleReportOutcome(request, data)}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Tabs Navigation */}
         <div className="bg-white rounded-3xl shadow-lg p-2 mb-6 border border-gray-200">
           <div className="flex gap-2">
@@ -424,7 +1083,16 @@ export default function MalikDashboard() {
                 : 'text-gray-600 hover:bg-gray-100'
                 }`}
             >
-              {t('allTenants')} ({bhadots.length})
+              {t('allTenants')} ({tenantTotal})
+            </button>
+            <button
+              onClick={() => setActiveTab('shortlist')}
+              className={`flex-1 py-3 px-6 rounded-2xl font-semibold transition-all duration-300 ${activeTab === 'shortlist'
+                ? 'bg-green-600 text-white shadow-lg'
+                : 'text-gray-600 hover:bg-gray-100'
+                }`}
+            >
+              {t('shortlisted')} ({shortlist.length})
             </button>
             <button
               onClick={() => setActiveTab('requests')}
@@ -435,6 +1103,36 @@ export default function MalikDashboard() {
             >
               {t('myRentalRequests')} ({requests.length})
             </button>
+            <button
+              onClick={() => setActiveTab('interests')}
+              className={`flex-1 py-3 px-6 rounded-2xl font-semibold transition-all duration-300 ${activeTab === 'interests'
+                ? 'bg-green-600 text-white shadow-lg'
+                : 'text-gray-600 hover:bg-gray-100'
+                }`}
+            >
+              {t('incomingInterest')} ({interests.filter((req) => req.status === 'Pending').length})
+            </button>
+            <button
+              onClick={() => setActiveTab('rooms')}
+              className={`flex-1 py-3 px-6 rounded-2xl font-semibold transition-all duration-300 ${activeTab === 'rooms'
+                ? 'bg-green-600 text-white shadow-lg'
+                : 'text-gray-600 hover:bg-gray-100'
+                }`}
+            >
+              {t('myRooms')} ({rooms.length})
+            </button>
+            <button
+              onClick={() => setActiveTab('tenancies')}
+              className={`flex-1 py-3 px-6 rounded-2xl font-semibold transition-all duration-300 ${activeTab === 'tenancies'
+                ? 'bg-green-600 text-white shadow-lg'
+                : 'text-gray-600 hover:bg-gray-100'
+                }`}
+            >
+              {t('rentLedger')}
+              {overdueTenancies > 0 && (
+                <span className="ml-2 px-2 py-0.5 rounded-full bg-red-500 text-white text-xs font-bold">{overdueTenancies}</span>
+              )}
+            </button>
           </div>
         </div>
 
@@ -443,7 +1141,7 @@ export default function MalikDashboard() {
           <div className="bg-white rounded-3xl shadow-lg p-6 mb-6 border border-gray-200">
             <div className="flex items-center justify-between mb-4">
               <div className="flex-1">
-                <h3 className="text-xl font-bold text-gray-900">{t('allTenants')} ({bhadots.length})</h3>
+                <h3 className="text-xl font-bold text-gray-900">{t('allTenants')} ({tenantTotal})</h3>
 
                 {/* Request Limit Status Card */}
                 <div className={`mt-3 rounded-2xl p-4 border-2 ${canSendMore
@@ -456,7 +1154,7 @@ export default function MalikDashboard() {
                         ? 'bg-green-500 text-white'
                         : 'bg-red-500 text-white'
                         }`}>
-                        {pendingCount}/2
+                        {pendingCount}/{requestPolicy.maxPending}
                       </div>
                       <div>
                         <p className={`font-semibold ${canSendMore ? 'text-green-800' : 'text-red-800'
@@ -465,7 +1163,7 @@ export default function MalikDashboard() {
                         </p>
                         {!canSendMore && (
                           <p className="text-sm text-red-700 mt-1">
-                            {t('limitReached')}
+                            {describePolicy(t('limitReached'), requestPolicy)}
                           </p>
                         )}
                       </div>
@@ -490,30 +1188,65 @@ export default function MalikDashboard() {
                       <div
                         className={`h-2.5 rounded-full transition-all duration-500 ${canSendMore ? 'bg-green-500' : 'bg-red-500'
                           }`}
-                        style={{ width: `${(pendingCount / 2) * 100}%` }}
+                        style={{ width: `${Math.min(100, (pendingCount / requestPolicy.maxPending) * 100)}%` }}
                       ></div>
                     </div>
                     <p className="text-xs text-gray-600 mt-2">
                       {canSendMore
                         ? (() => {
-                          const remaining = 2 - pendingCount;
+                          const remaining = requestPolicy.maxPending - pendingCount;
                           if (remaining === 1) {
                             return t('canSendMoreRequests').replace('{count}', '1');
                           }
                           return t('canSendMoreRequests').replace('{count}', String(remaining));
                         })()
-                        : t('waitFor24Hours')
+                        : describePolicy(t('waitForPendingWindow'), requestPolicy)
                       }
                     </p>
                   </div>
                 </div>
               </div>
             </div>
+            <SavedSearchBar
+              searches={savedSearches}
+              currentFilters={tenantFilters}
+              onOpen={handleOpenSavedSearch}
+              onSave={handleSaveSearch}
+              onRename={handleRenameSearch}
+              onDelete={handleDeleteSearch}
+            />
+            <TenantFilters
+              value={tenantFilters}
+              onApply={handleApplyTenantFilters}
+              onClear={() => setSearchParams(matchRoomId ? { matchRoom: matchRoomId } : {})}
+            />
+            {rooms.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2 mb-4">
+                <label className="text-sm font-medium text-gray-700">{t('sortBy')}</label>
+                <select
+                  value={matchRoom ? matchRoomId : ''}
+                  onChange={(e) => setSearchParams(withParams(searchParams, { matchRoom: e.target.value || undefined, page: undefined }))}
+                  className="px-3 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 outline-none"
+                >
+                  <option value="">{t('defaultOrder')}</option>
+                  {rooms.filter((room) => room.status !== 'Occupied').map((room) => (
+                    <option key={room.id} value={room.id}>
+                      {t('bestMatchesFor').replace('{room}', room.title)}
+                    </option>
+                  ))}
+                </select>
+                {matchRoom && <span className="text-xs text-gray-500">{t('bestMatchesHint')}</span>}
+              </div>
+            )}
             <div className="space-y-4">
-              {bhadots.length === 0 ? (
+              {tenantsLoading ? (
+                <div className="flex justify-center py-8">
+                  <LoadingSpinner size="lg" />
+                </div>
+              ) : bhadots.length === 0 ? (
                 <p className="text-gray-600 text-center py-8">{t('noTenantsFound')}</p>
               ) : (
-                bhadots.map((bhadot) => {
+                rankedTenants.map(({ bhadot, score }) => {
                   const hasPendingRequest = requests.some(
                     req => req.bhadotId === bhadot.id && req.status === 'Pending'
                   );
@@ -532,7 +1265,17 @@ export default function MalikDashboard() {
                     >
                       <div className="flex items-center justify-between">
                         <div className="flex-1">
-                          <h4 className="font-bold text-gray-900 text-lg">{bhadot.name}</h4>
+                          <div className="flex items-center gap-2">
+                            <h4 className="font-bold text-gray-900 text-lg">{bhadot.name}</h4>
+                            <button
+                              onClick={() => handleToggleShortlist(bhadot.id)}
+                              disabled={togglingShortlist === bhadot.id}
+                              title={shortlistedIds.has(bhadot.id) ? t('removeFromShortlist') : t('addToShortlist')}
+                              className={`text-xl leading-none transition disabled:opacity-50 ${shortlistedIds.has(bhadot.id) ? 'text-yellow-500' : 'text-gray-300 hover:text-yellow-400'}`}
+                            >
+                              {shortlistedIds.has(bhadot.id) ? '★' : '☆'}
+                            </button>
+                          </div>
                           <p className="text-gray-600 mt-1">{t('mobile')}: {maskMobileNumber(bhadot.mobile)}</p>
                           {bhadot.area && (
                             <p className="text-gray-600">Area: {bhadot.area}</p>
@@ -547,6 +1290,12 @@ export default function MalikDashboard() {
                               {t('totalFamilyMembers')}: {bhadot.totalFamilyMembers}
                             </p>
                           )}
+                          {hasPreferences(bhadot.preferences) && (
+                            <div className="mt-2">
+                              <TenantPreferenceSummary preferences={bhadot.preferences} />
+                            </div>
+                          )}
+                          {score && <MatchScoreBreakdown score={score} />}
                           <span className={`inline-block mt-2 px-3 py-1 rounded-full text-sm font-medium ${bhadot.status === 'Approved' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
                             }`}>
                             {t(bhadot.status.toLowerCase())}
@@ -554,7 +1303,7 @@ export default function MalikDashboard() {
                         </div>
                         <div className="ml-4 flex flex-col items-end gap-2">
                           <button
-                            onClick={() => handleSendRequest(bhadot.id)}
+                            onClick={() => handleSendRequest(bhadot)}
                             disabled={isDisabled}
                             className={`px-6 py-2 rounded-xl font-semibold transition ${isDisabled
                               ? 'bg-gray-300 text-gray-600 cursor-not-allowed'
@@ -632,6 +1381,61 @@ export default function MalikDashboard() {
                 })
               )}
             </div>
+            {tenants && (
+              <Pagination
+                page={tenantPage}
+                totalPages={Math.max(1, Math.ceil(tenants.total / tenants.pageSize))}
+                onChange={(page) => setSearchParams(withParams(searchParams, { page: String(page) }))}
+              />
+            )}
+          </div>
+        )}
+
+        {/* Shortlist Tab Content */}
+        {activeTab === 'shortlist' && (
+          <div className="bg-white rounded-3xl shadow-lg p-6 mb-6 border border-gray-200">
+            <h3 className="text-xl font-bold text-gray-900 mb-1">{t('shortlisted')} ({shortlist.length})</h3>
+            <p className="text-sm text-gray-500 mb-4">{t('shortlistHint')}</p>
+            <div className="space-y-4">
+              {shortlist.length === 0 ? (
+                <p className="text-gray-600 text-center py-8">{t('noShortlistedTenants')}</p>
+              ) : (
+                shortlist.map((entry) => {
+                  const hasPendingRequest = requests.some(
+                    req => req.bhadotId === entry.bhadotId && req.status === 'Pending'
+                  );
+                  const isOnCooldown = (tenantCooldowns[entry.bhadotId]?.hoursRemaining ?? 0) > 0;
+                  const isDisabled = hasPendingRequest || isOnCooldown || !canSendMore
+                    || entry.bhadot.isActive === false || sendingRequest === entry.bhadotId;
+                  return (
+                    <ShortlistCard
+                      key={entry.bhadotId}
+                      entry={entry}
+                      maskedMobile={maskMobileNumber(entry.bhadot.mobile)}
+                      onSaveNote={(note) => handleUpdateShortlistEntry(entry.bhadotId, { note })}
+                      onRemove={() => handleToggleShortlist(entry.bhadotId)}
+                    >
+                      <button
+                        onClick={() => handleSendRequest(entry.bhadot)}
+                        disabled={isDisabled}
+                        className={`px-6 py-2 rounded-xl font-semibold transition ${isDisabled
+                          ? 'bg-gray-300 text-gray-600 cursor-not-allowed'
+                          : 'bg-green-600 text-white hover:bg-green-700'
+                          }`}
+                      >
+                        {sendingRequest === entry.bhadotId ? (
+                          <LoadingSpinner size="sm" />
+                        ) : hasPendingRequest ? (
+                          t('requestSent')
+                        ) : (
+                          t('sendRequest')
+                        )}
+                      </button>
+                    </ShortlistCard>
+                  );
+                })
+              )}
+            </div>
           </div>
         )}
 
@@ -665,16 +1469,161 @@ export default function MalikDashboard() {
                             {t('totalFamilyMembers')}: {request.bhadotTotalFamilyMembers}
                           </p>
                         )}
+                        {request.roomTitle && (
+                          <p className="text-gray-600">{t('linkedRoom')}: {request.roomTitle}</p>
+                        )}
+                        {request.message && (
+                          <p className="text-gray-700 italic mt-2">“{request.message}”</p>
+                        )}
+                        <p className="text-xs text-gray-500 mt-2">
+                          {new Date(request.timestamp).toLocaleString()}
+                        </p>
+                        {request.seenAt ? (
+                          <p className="text-xs font-medium text-indigo-600 mt-1">
+                            {t('seenAgo').replace('{time}', formatTimeAgo(request.seenAt, t))}
+                          </p>
+                        ) : request.status === 'Pending' && (
+                          <p className="text-xs text-gray-500 mt-1">{t('notSeenYet')}</p>
+                        )}
+                        {request.nudgedAt && (
+                          <p className="text-xs text-gray-500 mt-1">
+                            {t('reminderSent').replace('{time}', formatTimeAgo(request.nudgedAt, t))}
+                          </p>
+                        )}
+                        {request.status === 'Withdrawn' && (tenantCooldowns[request.bhadotId]?.hoursRemaining ?? 0) > 0 && (
+                          <p className="text-xs text-gray-500 mt-1">
+                            {t('withdrawnCooldownNote').replace('{hoursRemaining}', String(tenantCooldowns[request.bhadotId].hoursRemaining))}
+                          </p>
+                        )}
+                        <RequestTimeline request={request} />
+                        {request.offers && <OfferThread offers={request.offers} />}
+                        {openOffer(request) && (
+                          <p className="text-sm font-medium text-purple-700 bg-purple-50 rounded-xl px-4 py-2 mt-3">
+                            {t(openOffer(request)?.from === 'Bhadot' ? 'tenantProposed' : 'waitingForTenantReply')}
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex flex-col items-end gap-2">
+                        <span className={`px-4 py-2 rounded-full text-sm font-medium ${request.status === 'Accepted' ? 'bg-green-100 text-green-800' :
+                          request.status === 'Rejected' ? 'bg-red-100 text-red-800' :
+                            request.status === 'Withdrawn' || request.status === 'Expired' ? 'bg-gray-100 text-gray-700' :
+                              'bg-yellow-100 text-yellow-800'
+                          }`}>
+                          {t(request.status.toLowerCase())}
+                        </span>
+                        {request.status === 'Pending' && (
+                          <button
+                            onClick={() => handleWithdrawRequest(request)}
+                            disabled={withdrawingRequest === request.id}
+                            className="text-sm font-semibold text-red-600 hover:text-red-800 transition disabled:opacity-50"
+                          >
+                            {withdrawingRequest === request.id ? <LoadingSpinner size="sm" /> : t('withdraw')}
+                          </button>
+                        )}
+                        {openOffer(request)?.from === 'Bhadot' && (
+                          <>
+                            <button
+                              onClick={() => handleRespondToOffer(request, 'Accepted')}
+                              disabled={respondingOffer === request.id}
+                              className="px-4 py-2 bg-green-600 text-white rounded-xl text-sm font-semibold hover:bg-green-700 transition disabled:opacity-50 flex items-center justify-center"
+                            >
+                              {respondingOffer === request.id ? <LoadingSpinner size="sm" /> : t('accept')}
+                            </button>
+                            <button
+                              onClick={() => setCounterRequest(request)}
+                              disabled={respondingOffer === request.id}
+                              className="text-sm font-semibold text-purple-700 hover:text-purple-900 transition disabled:opacity-50"
+                            >
+                              {t('counterOffer')}
+                            </button>
+                            <button
+                              onClick={() => handleRespondToOffer(request, 'Declined')}
+                              disabled={respondingOffer === request.id}
+                              className="text-sm font-semibold text-gray-500 hover:text-red-600 transition disabled:opacity-50"
+                            >
+                              {t('decline')}
+                            </button>
+                          </>
+                        )}
+                        {canNudge(request, requestPolicy) && (
+                          <button
+                            onClick={() => handleNudgeRequest(request)}
+                            disabled={nudgingRequest === request.id}
+                            className="text-sm font-semibold text-green-700 hover:text-green-900 transition disabled:opacity-50"
+                          >
+                            {nudgingRequest === request.id ? <LoadingSpinner size="sm" /> : t('sendReminder')}
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Incoming Interest Tab Content */}
+        {activeTab === 'interests' && (
+          <div className="bg-white rounded-3xl shadow-lg p-6 border border-gray-200">
+            <h3 className="text-xl font-bold text-gray-900 mb-4">{t('incomingInterest')}</h3>
+            <div className="space-y-4">
+              {interests.length === 0 ? (
+                <p className="text-gray-600 text-center py-8">{t('noIncomingInterest')}</p>
+              ) : (
+                interests.map((request) => (
+                  <div
+                    key={request.id}
+                    className="border border-gray-200 rounded-2xl p-4 hover:shadow-md transition"
+                  >
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="flex-1">
+                        <h4 className="font-bold text-gray-900 text-lg">{request.bhadotName}</h4>
+                        <p className="text-gray-600 mt-1">{t('mobile')}: {maskMobileNumber(request.bhadotMobile || '')}</p>
+                        {request.bhadotArea && (
+                          <p className="text-gray-600">{t('roomArea')}: {request.bhadotArea}</p>
+                        )}
+                        {typeof request.bhadotTotalFamilyMembers === 'number' && request.bhadotTotalFamilyMembers > 0 && (
+                          <p className="text-gray-600">
+                            {t('totalFamilyMembers')}: {request.bhadotTotalFamilyMembers}
+                          </p>
+                        )}
+                        <p className="text-gray-600">
+                          {request.roomTitle ? `${t('linkedRoom')}: ${request.roomTitle}` : t('interestAboutAnyRoom')}
+                        </p>
+                        {request.message && (
+                          <p className="text-gray-700 italic mt-2">“{request.message}”</p>
+                        )}
                         <p className="text-xs text-gray-500 mt-2">
                           {new Date(request.timestamp).toLocaleString()}
                         </p>
+                        <RequestTimeline request={request} />
                       </div>
-                      <span className={`px-4 py-2 rounded-full text-sm font-medium ${request.status === 'Accepted' ? 'bg-green-100 text-green-800' :
-                        request.status === 'Rejected' ? 'bg-red-100 text-red-800' :
-                          'bg-yellow-100 text-yellow-800'
-                        }`}>
-                        {t(request.status.toLowerCase())}
-                      </span>
+                      {request.status === 'Pending' ? (
+                        <div className="flex flex-col gap-2">
+                          <button
+                            onClick={() => handleRespondToInterest(request, 'Accepted')}
+                            disabled={respondingInterest === request.id}
+                            className="px-4 py-2 bg-green-600 text-white rounded-xl font-semibold hover:bg-green-700 transition disabled:opacity-50 flex items-center justify-center"
+                          >
+                            {respondingInterest === request.id ? <LoadingSpinner size="sm" /> : t('accept')}
+                          </button>
+                          <button
+                            onClick={() => handleRespondToInterest(request, 'Rejected')}
+                            disabled={respondingInterest === request.id}
+                            className="px-4 py-2 bg-gray-200 text-gray-700 rounded-xl font-semibold hover:bg-gray-300 transition disabled:opacity-50"
+                          >
+                            {t('reject')}
+                          </button>
+                        </div>
+                      ) : (
+                        <span className={`px-4 py-2 rounded-full text-sm font-medium ${request.status === 'Accepted' ? 'bg-green-100 text-green-800' :
+                          request.status === 'Rejected' ? 'bg-red-100 text-red-800' :
+                            'bg-gray-100 text-gray-700'
+                          }`}>
+                          {t(request.status.toLowerCase())}
+                        </span>
+                      )}
                     </div>
                   </div>
                 ))
@@ -683,6 +1632,159 @@ export default function MalikDashboard() {
           </div>
         )}
 
+        {/* My Rooms Tab Content */}
+        {activeTab === 'rooms' && (
+          <div className="bg-white rounded-3xl shadow-lg p-6 border border-gray-200">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-xl font-bold text-gray-900">{t('myRooms')}</h3>
+              <button
+                onClick={() => setRoomForm({})}
+                className="px-4 py-2 bg-green-600 text-white rounded-xl font-semibold hover:bg-green-700 transition flex items-center gap-2"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                </svg>
+                {t('addRoom')}
+              </button>
+            </div>
+            <div className="space-y-4">
+              {rooms.length === 0 ? (
+                <p className="text-gray-600 text-center py-8">{t('noRoomsYet')}</p>
+              ) : (
+                rooms.map((room) => {
+                  const cover = coverPhoto(room);
+                  return (
+                    <div
+                      key={room.id}
+                      className={`border border-gray-200 rounded-2xl p-4 hover:shadow-md transition ${room.status === 'Paused' ? 'opacity-75' : ''}`}
+                    >
+                      <div className="flex items-start justify-between gap-4">
+                        <button
+                          onClick={() => setPhotosRoom(room)}
+                          className="w-24 h-24 rounded-xl overflow-hidden bg-gray-100 flex-shrink-0 flex items-center justify-center text-gray-400 hover:ring-2 hover:ring-green-400 transition"
+                        >
+                          {cover ? (
+                            <img src={cover.url} alt={room.title} className="w-full h-full object-cover" />
+                          ) : (
+                            <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                            </svg>
+                          )}
+                        </button>
+                        <div className="flex-1">
+                          <div className="flex items-center gap-2 flex-wrap">
+                            <h4 className="font-bold text-gray-900 text-lg">{room.title}</h4>
+                            <span className="px-2 py-0.5 rounded-lg bg-gray-100 text-gray-700 text-xs font-semibold">
+                              {room.roomType === 'Shared' ? t('sharedRoom') : room.roomType}
+                            </span>
+                            <span className={`px-3 py-1 rounded-full text-xs font-medium ${ROOM_STATUS_STYLES[room.status]}`}>
+                              {t(room.status.toLowerCase())}
+                            </span>
+                          </div>
+                          <p className="text-gray-600 mt-1">{room.area}</p>
+                          <p className="text-gray-900 font-semibold mt-2">
+                            {formatRupees(room.rent)}<span className="text-gray-500 font-normal text-sm">{t('perMonth')}</span>
+                            <span className="text-gray-500 font-normal text-sm"> · {t('deposit')}: {formatRupees(room.deposit)}</span>
+                          </p>
+                          <p className="text-sm text-gray-600 mt-1">
+                            {t('upToOccupants').replace('{count}', String(room.maxOccupants))}
+                            {' · '}
+                            {t('availableFrom')}: {parseLocalDate(room.availableFrom).toLocaleDateString()}
+                          </p>
+                          {room.amenities.length > 0 && (
+                            <div className="flex flex-wrap gap-1.5 mt-2">
+                              {room.amenities.map((amenity) => (
+                                <span key={amenity} className="px-2 py-0.5 rounded-full bg-green-50 text-green-700 text-xs">
+                                  {t(amenity)}
+                                </span>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                        <div className="flex flex-col gap-2">
+                          <button
+                            onClick={() => setRoomForm({ room })}
+                            disabled={updatingRoom === room.id}
+                            className="px-4 py-1.5 rounded-xl text-sm font-semibold text-green-700 bg-green-50 hover:bg-green-100 transition disabled:opacity-50"
+                          >
+                            {t('edit')}
+                          </button>
+                          <button
+                            onClick={() => setPhotosRoom(room)}
+                            disabled={updatingRoom === room.id}
+                            className="px-4 py-1.5 rounded-xl text-sm font-semibold text-green-700 bg-green-50 hover:bg-green-100 transition disabled:opacity-50"
+                          >
+                            {t('photos')} ({room.photos?.length ?? 0})
+                          </button>
+                          <button
+                            onClick={() => setSlotsRoom(room)}
+                            disabled={updatingRoom === room.id}
+                            className="px-4 py-1.5 rounded-xl text-sm font-semibold text-green-700 bg-green-50 hover:bg-green-100 transition disabled:opacity-50"
+                          >
+                            {t('visitSlots')}
+                          </button>
+                          {room.status !== 'Occupied' && (
+                            <button
+                              onClick={() => handleToggleRoomPause(room)}
+                              disabled={updatingRoom === room.id}
+                              className="px-4 py-1.5 rounded-xl text-sm font-semibold text-gray-700 bg-gray-100 hover:bg-gray-200 transition disabled:opacity-50"
+                            >
+                              {room.status === 'Paused' ? t('resumeListing') : t('pauseListing')}
+                            </button>
+                          )}
+                          <button
+                            onClick={() => handleDeleteRoom(room)}
+                            disabled={updatingRoom === room.id}
+                            className="px-4 py-1.5 rounded-xl text-sm font-semibold text-red-600 bg-red-50 hover:bg-red-100 transition disabled:opacity-50"
+                          >
+                            {t('delete')}
+                          </button>
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Rent Ledger Tab Content */}
+        {activeTab === 'tenancies' && (
+          <div className="bg-white rounded-3xl shadow-lg p-6 border border-gray-200">
+            <div className="flex items-center justify-between mb-1">
+              <h3 className="text-xl font-bold text-gray-900">{t('rentLedger')}</h3>
+              <button
+                onClick={() => setShowTenancyForm(true)}
+                disabled={tenancyCandidates.length === 0}
+                title={tenancyCandidates.length === 0 ? t('noTenancyCandidates') : undefined}
+                className="px-4 py-2 bg-green-600 text-white rounded-xl font-semibold hover:bg-green-700 transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                </svg>
+                {t('addTenancy')}
+              </button>
+            </div>
+            <p className="text-sm text-gray-600 mb-4">{t('rentLedgerHint')}</p>
+            <div className="space-y-4">
+              {tenancies.length === 0 ? (
+                <p className="text-gray-600 text-center py-8">{t('noTenanciesYet')}</p>
+              ) : (
+                tenancies.map((entry) => (
+                  <RentLedger
+                    key={entry.tenancy.id}
+                    statement={entry}
+                    viewer="Malik"
+                    onRecordPayment={() => setPaymentTenancy(entry)}
+                    onEnd={() => handleEndTenancy(entry)}
+                  />
+                ))
+              )}
+            </div>
+          </div>
+        )}
+
         <div className="mt-6 text-center">
           <button
             onClick={() => navigate('/')}
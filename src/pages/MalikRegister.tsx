@@ -1,12 +1,13 @@
 /**
  * MalikRegister Component
  * 
- * Two-step registration process for landlords (Maliks):
+ * Registration and login for landlords (Maliks):
  * Step 1: Enter WhatsApp number (searches for existing user)
- * Step 2: Enter name and address details
+ * Step 2: Verify the number with a one-time code
+ * Step 3: Enter name and address details (new users only)
  * 
  * Features:
- * - Auto-login if user already exists
+ * - OTP-verified login if user already exists
  * - Phone number validation
  * - Two-step form with progress indicator
  * - Language support (Hindi/English)
@@ -16,15 +17,20 @@ import { useNavigate } from 'react-router-dom';
 import { malikApi, searchApi } from '../services/api';
 import LoadingSpinner from '../components/LoadingSpinner';
 import { useLanguage } from '../contexts/LanguageContext';
+import { useAuth } from '../contexts/AuthContext';
 import LanguageSwitcher from '../components/LanguageSwitcher';
+import OtpVerification from '../components/OtpVerification';
 
 export default function MalikRegister() {
   const navigate = useNavigate();
-  const { t } = useLanguage();
+  const { t, tError } = useLanguage();
+  const { login } = useAuth();
 
   // Form state management
-  const [step, setStep] = useState<'phone' | 'details'>('phone'); // Current step in registration
+  const [step, setStep] = useState<'phone' | 'otp' | 'details'>('phone'); // Current step in registration
   const [whatsapp, setWhatsapp] = useState(''); // WhatsApp number input
+  const [existingAccount, setExistingAccount] = useState(false); // Whether the number already belongs to a Malik
+  const [verificationToken, setVerificationToken] = useState(''); // Proof of OTP verification for register
   const [formData, setFormData] = useState({
     name: '',
     whatsapp: '',
@@ -39,7 +45,7 @@ export default function MalikRegister() {
   /**
    * Handle phone number search
    * Searches for existing user by WhatsApp number
-   * Auto-logs in if user exists, otherwise proceeds to registration
+   * Either way the number must be verified by OTP before login/registration
    */
   const handlePhoneSearch = async () => {
     // Clean phone number (remove non-digits)
@@ -58,40 +64,54 @@ export default function MalikRegister() {
       if (result.found && result.user) {
         // User found - check if it's a Malik
         if (result.role === 'Malik' && result.user.id) {
-          // Auto-login since password is not required
-          await performAutoLogin(cleanNumber);
+          setExistingAccount(true);
+          setStep('otp');
         } else {
           // User found but wrong role
           setError('This number is registered as a different role. Please use the correct registration page.');
         }
       } else {
-        // New user - set WhatsApp number and proceed to registration
+        // New user - set WhatsApp number and verify it before registration
         setFormData(prev => ({
           ...prev,
           whatsapp: cleanNumber,
         }));
-        // Move to next step (details form)
-        setStep('details');
+        setExistingAccount(false);
+        setStep('otp');
       }
     } catch (error) {
       console.error('Search failed:', error);
-      setError('Search failed. Please try again.');
+      setError(tError(error));
     } finally {
       setSearching(false);
     }
   };
 
-  const performAutoLogin = async (mobileNumber: string) => {
+  /**
+   * Called once the OTP step succeeds
+   * Existing users are logged in, new users continue to the details form
+   */
+  const handleVerified = async (token: string) => {
+    if (existingAccount) {
+      await performLogin(whatsapp, token);
+    } else {
+      setVerificationToken(token);
+      setStep('details');
+    }
+  };
+
+  const performLogin = async (mobileNumber: string, token: string) => {
     setLoading(true);
     try {
-      const response = await malikApi.login({ whatsapp: mobileNumber });
+      const response = await malikApi.login({ whatsapp: mobileNumber, verificationToken: token });
 
       if (response.data.success) {
-        localStorage.setItem('token', response.data.token);
+        login(response.data.token);
         navigate(`/malik/dashboard/${response.data.malik.id}`);
       }
-    } catch (err: any) {
-      setError('Login failed. Please try again.');
+    } catch (err) {
+      setError(tError(err));
+      setStep('phone');
     } finally {
       setLoading(false);
     }
@@ -103,13 +123,13 @@ export default function MalikRegister() {
     setLoading(true);
 
     try {
-      const response = await malikApi.register(formData);
+      const response = await malikApi.register({ ...formData, verificationToken });
       if (response.data.success) {
-        localStorage.setItem('token', response.data.token);
+        login(response.data.token);
         navigate(`/malik/dashboard/${response.data.malik.id}`);
       }
-    } catch (err: any) {
-      setError(err.message || 'Registration failed. Please try again.');
+    } catch (err) {
+      setError(tError(err));
     } finally {
       setLoading(false);
     }
@@ -148,6 +168,7 @@ export default function MalikRegister() {
                   autoFocus
                 />
               </div>
+              {error && <div className="bg-red-50 text-red-700 px-4 py-3 rounded-xl">{error}</div>}
               <button
                 type="submit"
                 disabled={searching || whatsapp.length !== 10}
@@ -159,6 +180,16 @@ export default function MalikRegister() {
             </form>
           )}
 
+          {step === 'otp' && (
+            <OtpVerification
+              phone={whatsapp}
+              role="Malik"
+              defaultChannel="whatsapp"
+              onVerified={handleVerified}
+              onBack={() => setStep('phone')}
+            />
+          )}
+
           {step === 'details' && (
             <form onSubmit={handleSubmit} className="space-y-6">
               <div>
@@ -0,0 +1,259 @@
+/**
+ * RoomDetail Component
+ *
+ * Full view of one listing for tenants (Bhadots):
+ * - Photo gallery with the cover image first
+ * - Rent, deposit, room type, occupancy, availability and amenities
+ * - "I'm interested" sends a tenant-initiated request to the room's Malik, about
+ *   this room or any of their rooms, with an optional message; contact details
+ *   are only shared once the Malik accepts. Limited to a few per day by the policy
+ */
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import Header from '../components/Header';
+import LoadingSpinner from '../components/LoadingSpinner';
+import LoadErrorState from '../components/LoadErrorState';
+import Toast from '../components/Toast';
+import { bhadotApi, roomApi } from '../services/api';
+import { ApiError } from '../services/errors';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useAuth } from '../contexts/AuthContext';
+import { coverPhoto, formatRupees } from '../utils/rooms';
+import { parseLocalDate } from '../utils/time';
+import { DEFAULT_REQUEST_POLICY, evaluateInterestLimits, loadRequestPolicy } from '../utils/requestPolicy';
+import type { RentRequestWithDetails, RoomListing } from '../types';
+
+export default function RoomDetail() {
+  const { id, roomId } = useParams<{ id: string; roomId: string }>();
+  const navigate = useNavigate();
+  const { t, tError } = useLanguage();
+  const { logout } = useAuth();
+
+  const [room, setRoom] = useState<RoomListing | null>(null); // Listing being viewed
+  const [interests, setInterests] = useState<RentRequestWithDetails[]>([]); // Every interest this Bhadot has sent
+  const [requestPolicy, setRequestPolicy] = useState(DEFAULT_REQUEST_POLICY); // Sets the daily interest limit
+  const [interestTarget, setInterestTarget] = useState<'room' | 'owner'>('room'); // Ask about this room or any of the owner's rooms
+  const [interestMessage, setInterestMessage] = useState('');
+  const [activePhotoId, setActivePhotoId] = useState<string | undefined>(); // Photo shown large
+  const [loading, setLoading] = useState(true); // Loading state
+  const [loadError, setLoadError] = useState<unknown>(null); // Set when the listing failed to load or validate
+  const [sendingInterest, setSendingInterest] = useState(false); // Express interest in progress
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' | 'info' } | null>(null);
+
+  useEffect(() => {
+    if (id && roomId) {
+      loadData();
+    }
+  }, [id, roomId]);
+
+  const loadData = async () => {
+    if (!id || !roomId) return;
+    setLoading(true);
+    setLoadError(null);
+    try {
+      const [roomRes, interestsRes, policy] = await Promise.all([
+        roomApi.getById(roomId),
+        bhadotApi.getInterests(id),
+        loadRequestPolicy(),
+      ]);
+      setRoom(roomRes.data);
+      setActivePhotoId(coverPhoto(roomRes.data)?.id);
+      setInterests(interestsRes.data);
+      setRequestPolicy(policy);
+    } catch (error) {
+      console.error('Failed to load room:', error);
+      if (ApiError.from(error).status !== 401) {
+        setLoadError(error);
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleExpressInterest = async () => {
+    if (!id || !roomId) return;
+    setSendingInterest(true);
+    try {
+      await bhadotApi.expressInterest({
+        bhadotId: id,
+        ...(interestTarget === 'room' ? { roomId } : { malikId: room?.malikId }),
+        message: interestMessage.trim() || undefined,
+      });
+      setInterestMessage('');
+      await loadData();
+      setToast({ message: t('interestSent'), type: 'success' });
+    } catch (error) {
+      setToast({ message: tError(error, requestPolicy), type: 'error' });
+    } finally {
+      setSendingInterest(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (loadError || !room) {
+    return <LoadErrorState error={loadError} onRetry={loadData} onHome={() => navigate(`/bhadot/dashboard/${id}/rooms`)} />;
+  }
+
+  // Cover first, then the rest in the Malik's order
+  const cover = coverPhoto(room);
+  const photos = cover ? [cover, ...(room.photos ?? []).filter((p) => p.id !== cover.id)] : [];
+  const activePhoto = photos.find((p) => p.id === activePhotoId) ?? cover;
+
+  // An open interest about this room, or about any room of its owner, blocks a new one
+  const existingRequest = interests.find((req) =>
+    (req.status === 'Pending' || req.status === 'Accepted') &&
+    (req.roomId === room.id || (!req.roomId && req.malikId === room.malikId))
+  );
+  const interestLimits = evaluateInterestLimits(interests, requestPolicy);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {toast && (
+        <Toast
+          message={toast.message}
+          type={toast.type}
+          onClose={() => setToast(null)}
+        />
+      )}
+      <Header title={room.title} showLanguageSwitcher={true} onLogout={logout} />
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <button
+          onClick={() => navigate(-1)}
+          className="text-gray-600 hover:text-gray-900 transition mb-4"
+        >
+          ← {t('backToRooms')}
+        </button>
+
+        {/* Gallery */}
+        <div className="bg-white rounded-3xl shadow-lg border border-gray-200 overflow-hidden mb-6">
+          <div className="h-72 sm:h-96 bg-gray-100 flex items-center justify-center text-gray-400">
+            {activePhoto ? (
+              <img src={activePhoto.url} alt={room.title} className="w-full h-full object-cover" />
+            ) : (
+              <span>{t('noPhotosAvailable')}</span>
+            )}
+          </div>
+          {photos.length > 1 && (
+            <div className="flex gap-2 p-3 overflow-x-auto">
+              {photos.map((photo) => (
+                <button
+                  key={photo.id}
+                  onClick={() => setActivePhotoId(photo.id)}
+                  className={`w-20 h-16 rounded-xl overflow-hidden flex-shrink-0 border-2 ${photo.id === activePhoto?.id ? 'border-blue-500' : 'border-transparent'}`}
+                >
+                  <img src={photo.url} alt="" className="w-full h-full object-cover" />
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Details */}
+        <div className="bg-white rounded-3xl shadow-lg p-6 mb-6 border border-gray-200">
+          <div className="flex items-start justify-between gap-4 flex-wrap">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">{room.title}</h2>
+              <p className="text-gray-600 mt-1">{room.area}</p>
+              <p className="text-sm text-gray-500 mt-1">{t('listedBy')}: {room.malikName}</p>
+            </div>
+            <span className="px-3 py-1 rounded-lg bg-blue-50 text-blue-700 text-sm font-semibold">
+              {room.roomType === 'Shared' ? t('sharedRoom') : room.roomType}
+            </span>
+          </div>
+
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mt-6">
+            <div className="bg-gray-50 rounded-2xl p-4">
+              <p className="text-xs text-gray-500">{t('monthlyRent')}</p>
+              <p className="text-lg font-bold text-gray-900">{formatRupees(room.rent)}</p>
+            </div>
+            <div className="bg-gray-50 rounded-2xl p-4">
+              <p className="text-xs text-gray-500">{t('deposit')}</p>
+              <p className="text-lg font-bold text-gray-900">{formatRupees(room.deposit)}</p>
+            </div>
+            <div className="bg-gray-50 rounded-2xl p-4">
+              <p className="text-xs text-gray-500">{t('maxOccupants')}</p>
+              <p className="text-lg font-bold text-gray-900">{room.maxOccupants}</p>
+            </div>
+            <div className="bg-gray-50 rounded-2xl p-4">
+              <p className="text-xs text-gray-500">{t('availableFrom')}</p>
+              <p className="text-lg font-bold text-gray-900">{parseLocalDate(room.availableFrom).toLocaleDateString()}</p>
+            </div>
+          </div>
+
+          {room.amenities.length > 0 && (
+            <div className="mt-6">
+              <h3 className="text-sm font-medium text-gray-700 mb-2">{t('amenities')}</h3>
+              <div className="flex flex-wrap gap-2">
+                {room.amenities.map((amenity) => (
+                  <span key={amenity} className="px-3 py-1 rounded-full bg-blue-50 text-blue-700 text-sm">
+                    {t(amenity)}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Express interest */}
+        <div className="bg-white rounded-3xl shadow-lg p-6 border border-gray-200">
+          {existingRequest ? (
+            <div className="flex items-center gap-3 text-green-700">
+              <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 20 20">
+                <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+              </svg>
+              <p className="font-semibold">
+                {existingRequest.status === 'Accepted' ? t('interestAccepted') : t('interestPending')}
+              </p>
+            </div>
+          ) : (
+            <>
+              <p className="text-gray-600 mb-4">{t('expressInterestHint')}</p>
+              <div className="flex flex-wrap gap-2 mb-4">
+                {(['room', 'owner'] as const).map((target) => (
+                  <button
+                    key={target}
+                    type="button"
+                    onClick={() => setInterestTarget(target)}
+                    className={`px-4 py-2 rounded-full text-sm font-medium border transition ${interestTarget === target
+                      ? 'bg-blue-600 text-white border-blue-600'
+                      : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                      }`}
+                  >
+                    {target === 'room' ? t('interestTargetRoom') : t('interestTargetOwner').replace('{name}', room.malikName)}
+                  </button>
+                ))}
+              </div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">{t('messageOptional')}</label>
+              <textarea
+                value={interestMessage}
+                onChange={(e) => setInterestMessage(e.target.value.slice(0, 300))}
+                rows={3}
+                className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition mb-3"
+                placeholder={t('interestMessagePlaceholder')}
+              />
+              <p className={`text-sm mb-4 ${interestLimits.canSendMore ? 'text-gray-500' : 'text-red-600 font-medium'}`}>
+                {interestLimits.canSendMore
+                  ? t('interestsLeftToday').replace('{count}', String(requestPolicy.maxInterestsPerDay - interestLimits.sentToday))
+                  : t('interestLimitUntil').replace('{time}', interestLimits.nextAvailableTime?.toLocaleString() ?? '')}
+              </p>
+              <button
+                onClick={handleExpressInterest}
+                disabled={sendingInterest || !interestLimits.canSendMore}
+                className="w-full bg-gradient-to-r from-blue-600 to-blue-700 text-white py-3 rounded-xl font-semibold hover:from-blue-700 hover:to-blue-800 transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+              >
+                {sendingInterest ? <LoadingSpinner size="sm" /> : t('imInterested')}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
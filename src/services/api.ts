@@ -1,23 +1,146 @@
-import axios from 'axios';
+import axios, { type InternalAxiosRequestConfig } from 'axios';
+import type {
+    AdminLoginPayload,
+    BhadotLoginPayload,
+    BhadotRegisterPayload,
+    BhadotSearchParams,
+    BhadotUpdatePayload,
+    BookVisitPayload,
+    CreateRentRequestPayload,
+    ExpressInterestPayload,
+    MalikLoginPayload,
+    MalikRegisterPayload,
+    MalikUpdatePayload,
+    OfferPayload,
+    RequestOutcomePayload,
+    OtpRequestPayload,
+    OtpVerifyPayload,
+    RentPaymentPayload,
+    RequestPolicy,
+    RoomPayload,
+    RoomPhotosPayload,
+    RoomSearchParams,
+    RoomStatus,
+    SavedSearchPayload,
+    SendMessagePayload,
+    ShortlistUpdatePayload,
+    TenancyPayload,
+    VisitSlotPayload,
+} from '../types';
+import {
+    adminLoginResponseSchema,
+    adminStatsSchema,
+    adminUsersSchema,
+    array,
+    bhadotAuthResponseSchema,
+    bhadotResponseSchema,
+    bhadotSchema,
+    chatMessageSchema,
+    conversationSchema,
+    countSchema,
+    healthStatusSchema,
+    malikAuthResponseSchema,
+    malikResponseSchema,
+    malikSchema,
+    otpRequestResponseSchema,
+    otpVerifyResponseSchema,
+    paginated,
+    refreshTokenResponseSchema,
+    rentPaymentResponseSchema,
+    rentRequestResponseSchema,
+    rentRequestWithDetailsSchema,
+    requestPolicyResponseSchema,
+    requestPolicySchema,
+    roomListingSchema,
+    roomResponseSchema,
+    roomSchema,
+    savedSearchDigestSchema,
+    savedSearchResponseSchema,
+    savedSearchSchema,
+    searchResultSchema,
+    sendMessageResponseSchema,
+    shortlistEntryResponseSchema,
+    shortlistEntrySchema,
+    successSchema,
+    tenancyResponseSchema,
+    tenancyStatementSchema,
+    transactionSchema,
+    uploadResponseSchema,
+    validate,
+    visitResponseSchema,
+    visitSchema,
+    visitSlotResponseSchema,
+    visitSlotSchema,
+} from './contracts';
+import { ApiError } from './errors';
+import { decodeToken, expireSession, getStoredToken, isExpired, refreshSession } from './session';
 
-// Create axios instance
-const getBaseUrl = () => {
+declare module 'axios' {
+    interface AxiosRequestConfig {
+        /** Do not try a token refresh when this request returns 401 (auth endpoints) */
+        skipAuthRefresh?: boolean;
+        /** Set once a request has been replayed after a refresh */
+        authRetried?: boolean;
+    }
+}
+
+/**
+ * Resolve the API base URL. One rule for the whole app:
+ * 1. VITE_API_URL - full API URL (e.g. https://api.example.com/api)
+ * 2. VITE_BACKEND_URL - backend origin, "/api" is appended
+ * 3. "/api" - same origin (Vercel rewrite in production, Vite proxy in development)
+ */
+export const getBaseUrl = () => {
     if (import.meta.env.VITE_API_URL) return import.meta.env.VITE_API_URL;
     if (import.meta.env.VITE_BACKEND_URL) return `${import.meta.env.VITE_BACKEND_URL}/api`;
-    return 'http://localhost:5000/api';
+    return '/api';
 };
 
+// Create axios instance
+// withCredentials lets the httpOnly refresh cookie be stored and sent when the API is on another origin
 const api = axios.create({
     baseURL: getBaseUrl(),
+    withCredentials: true,
     headers: {
         'Content-Type': 'application/json',
     },
 });
 
+// Single in-flight refresh: requests that hit 401 while it runs wait on it
+let refreshPromise: Promise<string> | null = null;
+
+const refreshAccessToken = () => {
+    if (!refreshPromise) {
+        refreshPromise = authApi.refresh()
+            .then((response) => {
+                refreshSession(response.data.token);
+                return response.data.token;
+            })
+            .finally(() => {
+                refreshPromise = null;
+            });
+    }
+    return refreshPromise;
+};
+
+// Only the refresh endpoint turning the cookie down ends the session; a network
+// error, timeout or 5xx leaves it in place so the request can simply be retried
+const isRefreshRejected = (refreshError: unknown) => [401, 403].includes(ApiError.from(refreshError).status);
+
 // Add a request interceptor to add the auth token to headers
 api.interceptors.request.use(
-    (config) => {
-        const token = localStorage.getItem('token');
+    async (config) => {
+        let token = getStoredToken();
+        // Refresh an access token we already know has expired instead of sending it
+        const session = token && !config.skipAuthRefresh ? decodeToken(token) : null;
+        if (session && isExpired(session)) {
+            try {
+                token = await refreshAccessToken();
+            } catch (refreshError) {
+                if (isRefreshRejected(refreshError)) expireSession();
+                throw ApiError.from(refreshError);
+            }
+        }
         if (token) {
             config.headers['Authorization'] = `Bearer ${token}`;
         }
@@ -28,62 +151,258 @@ api.interceptors.request.use(
     }
 );
 
+// On 401, refresh the access token once and replay the request. If the
+// refresh is rejected (or the replay is rejected again) the session is over;
+// if the refresh could not complete, the request fails with that error instead.
+// Every failure is then normalised into a structured ApiError.
+api.interceptors.response.use(
+    (response) => response,
+    async (error) => {
+        const config: InternalAxiosRequestConfig | undefined = error?.config;
+        const isAuthFailure = axios.isAxiosError(error) && error.response?.status === 401
+            && !!config && !config.skipAuthRefresh && !!config.headers['Authorization'];
+
+        if (isAuthFailure && config.authRetried) {
+            expireSession();
+        } else if (isAuthFailure) {
+            config.authRetried = true;
+            try {
+                await refreshAccessToken();
+                return api(config);
+            } catch (refreshError) {
+                console.error('Token refresh failed:', refreshError);
+                if (!isRefreshRejected(refreshError)) return Promise.reject(ApiError.from(refreshError));
+                expireSession();
+            }
+        }
+        return Promise.reject(ApiError.from(error));
+    }
+);
+
+// Health API
+export const healthApi = {
+    check: () => api.get('/health', { timeout: 3000 }).then(validate(healthStatusSchema)),
+};
+
+// Auth API - phone verification shared by Malik and Bhadot login/registration
+export const authApi = {
+    requestOtp: (data: OtpRequestPayload) =>
+        api.post('/auth/otp/request', data, { skipAuthRefresh: true }).then(validate(otpRequestResponseSchema)).then((response) => {
+            // The backend's development sender echoes the code instead of sending an SMS/WhatsApp
+            if (import.meta.env.DEV && response.data.devCode) {
+                console.info(`[dev OTP] ${data.role} ${data.phone} via ${data.channel}: ${response.data.devCode}`);
+            }
+            return response;
+        }),
+    verifyOtp: (data: OtpVerifyPayload) =>
+        api.post('/auth/otp/verify', data, { skipAuthRefresh: true }).then(validate(otpVerifyResponseSchema)),
+    // The refresh token lives in an httpOnly cookie set by the login and register endpoints
+    refresh: () =>
+        api.post('/auth/refresh', {}, { skipAuthRefresh: true }).then(validate(refreshTokenResponseSchema)),
+    // Revokes the access token and the refresh cookie
+    logout: () =>
+        api.post('/auth/logout', {}, { skipAuthRefresh: true }).then(validate(successSchema)),
+};
+
 // Admin API
 export const adminApi = {
-    login: (credentials: any) => api.post('/admin/login', credentials),
-    getStats: () => api.get('/admin/stats'),
-    getUsers: () => api.get('/admin/users'),
-    deleteUser: (role: string, id: string) => api.delete(`/admin/users/${role}/${id}`),
-    getTransactions: () => api.get('/admin/transactions'),
+    login: (credentials: AdminLoginPayload) =>
+        api.post('/admin/login', credentials, { skipAuthRefresh: true }).then(validate(adminLoginResponseSchema)),
+    getStats: () => api.get('/admin/stats').then(validate(adminStatsSchema)),
+    getUsers: () => api.get('/admin/users').then(validate(adminUsersSchema)),
+    deleteUser: (role: 'Malik' | 'Bhadot', id: string) =>
+        api.delete(`/admin/users/${role}/${id}`).then(validate(successSchema)),
+    getTransactions: () => api.get('/admin/transactions').then(validate(array(transactionSchema))),
+    updateRequestPolicy: (policy: RequestPolicy) =>
+        api.put('/admin/settings/request-policy', policy).then(validate(requestPolicyResponseSchema)),
+};
+
+// Request limits as the backend enforces them
+export const policyApi = {
+    getRequestPolicy: () => api.get('/settings/request-policy').then(validate(requestPolicySchema)),
 };
 
 // Malik API
 export const malikApi = {
-    register: (data: any) => api.post('/malik/register', data),
-    login: (credentials: any) => api.post('/malik/login', credentials),
-    getById: (id: string) => api.get(`/malik/${id}`),
-    updateAddress: (id: string, address: string) => api.put(`/malik/${id}/address`, { address }),
-    update: (id: string, data: any) => api.put(`/malik/${id}`, data),
-    getBhadots: (id: string) => api.get(`/malik/${id}/bhadots`),
-    createRequest: (data: any) => api.post('/malik/request', data),
-    getRequests: (id: string) => api.get(`/malik/${id}/requests`),
+    register: (data: MalikRegisterPayload) =>
+        api.post('/malik/register', data, { skipAuthRefresh: true }).then(validate(malikAuthResponseSchema)),
+    login: (credentials: MalikLoginPayload) =>
+        api.post('/malik/login', credentials, { skipAuthRefresh: true }).then(validate(malikAuthResponseSchema)),
+    getById: (id: string) => api.get(`/malik/${id}`).then(validate(malikSchema)),
+    updateAddress: (id: string, address: string) =>
+        api.put(`/malik/${id}/address`, { address }).then(validate(malikResponseSchema)),
+    update: (id: string, data: MalikUpdatePayload) =>
+        api.put(`/malik/${id}`, data).then(validate(malikResponseSchema)),
+    getBhadots: (id: string, params: BhadotSearchParams = {}) =>
+        api.get(`/malik/${id}/bhadots`, { params }).then(validate(paginated(bhadotSchema))),
+    createRequest: (data: CreateRentRequestPayload) =>
+        api.post('/malik/request', data).then(validate(rentRequestResponseSchema)),
+    getRequests: (id: string) =>
+        api.get(`/malik/${id}/requests`).then(validate(array(rentRequestWithDetailsSchema))),
+    // Pending -> Withdrawn; frees the pending slot but not the per-tenant cooldown
+    withdrawRequest: (id: string, requestId: string) =>
+        api.put(`/malik/${id}/requests/${requestId}/withdraw`).then(validate(rentRequestResponseSchema)),
+    // Tenant-initiated requests addressed to this Malik or one of their rooms
+    getInterests: (id: string) =>
+        api.get(`/malik/${id}/interests`).then(validate(array(rentRequestWithDetailsSchema))),
+    respondToInterest: (id: string, requestId: string, status: 'Accepted' | 'Rejected') =>
+        api.put(`/malik/${id}/interests/${requestId}`, { status }).then(validate(rentRequestResponseSchema)),
+    // Counter the tenant's open offer; it becomes Countered and the new offer is Open
+    makeOffer: (id: string, requestId: string, data: OfferPayload) =>
+        api.post(`/malik/${id}/requests/${requestId}/offers`, data).then(validate(rentRequestResponseSchema)),
+    // Accepting makes the request Accepted on those terms; declining rejects the request
+    respondToOffer: (id: string, requestId: string, offerId: string, status: 'Accepted' | 'Declined') =>
+        api.put(`/malik/${id}/requests/${requestId}/offers/${offerId}`, { status }).then(validate(rentRequestResponseSchema)),
+    // MovedIn also marks the linked room Occupied and the tenant inactive on the backend
+    reportOutcome: (id: string, requestId: string, data: RequestOutcomePayload) =>
+        api.put(`/malik/${id}/requests/${requestId}/outcome`, data).then(validate(rentRequestResponseSchema)),
+    // Every tenancy with its payments, so dues can be shown without a request per tenant
+    getTenancies: (id: string) => api.get(`/malik/${id}/tenancies`).then(validate(array(tenancyStatementSchema))),
+    createTenancy: (id: string, data: TenancyPayload) =>
+        api.post(`/malik/${id}/tenancies`, data).then(validate(tenancyResponseSchema)),
+    // Sets endDate and frees the room; the ledger stays readable
+    endTenancy: (id: string, tenancyId: string, endDate: string) =>
+        api.put(`/malik/${id}/tenancies/${tenancyId}/end`, { endDate }).then(validate(tenancyResponseSchema)),
+    recordPayment: (id: string, tenancyId: string, data: RentPaymentPayload) =>
+        api.post(`/malik/${id}/tenancies/${tenancyId}/payments`, data).then(validate(rentPaymentResponseSchema)),
+    // Visit slots the Malik publishes for one room, booked or not
+    getVisitSlots: (id: string, roomId: string) =>
+        api.get(`/malik/${id}/rooms/${roomId}/slots`).then(validate(array(visitSlotSchema))),
+    createVisitSlot: (id: string, roomId: string, data: VisitSlotPayload) =>
+        api.post(`/malik/${id}/rooms/${roomId}/slots`, data).then(validate(visitSlotResponseSchema)),
+    // Only unbooked slots can be deleted
+    deleteVisitSlot: (id: string, roomId: string, slotId: string) =>
+        api.delete(`/malik/${id}/rooms/${roomId}/slots/${slotId}`).then(validate(successSchema)),
+    getVisits: (id: string) => api.get(`/malik/${id}/visits`).then(validate(array(visitSchema))),
+    // One reminder per request, once it has stayed unseen for the policy's nudgeAfterHours
+    nudgeRequest: (id: string, requestId: string) =>
+        api.post(`/malik/${id}/requests/${requestId}/nudge`).then(validate(rentRequestResponseSchema)),
+    getRooms: (id: string) => api.get(`/malik/${id}/rooms`).then(validate(array(roomSchema))),
+    createRoom: (id: string, data: RoomPayload) =>
+        api.post(`/malik/${id}/rooms`, data).then(validate(roomResponseSchema)),
+    updateRoom: (id: string, roomId: string, data: RoomPayload) =>
+        api.put(`/malik/${id}/rooms/${roomId}`, data).then(validate(roomResponseSchema)),
+    setRoomStatus: (id: string, roomId: string, status: RoomStatus) =>
+        api.put(`/malik/${id}/rooms/${roomId}/status`, { status }).then(validate(roomResponseSchema)),
+    deleteRoom: (id: string, roomId: string) =>
+        api.delete(`/malik/${id}/rooms/${roomId}`).then(validate(successSchema)),
+    updateRoomPhotos: (id: string, roomId: string, data: RoomPhotosPayload) =>
+        api.put(`/malik/${id}/rooms/${roomId}/photos`, data).then(validate(roomResponseSchema)),
+    getSavedSearches: (id: string) =>
+        api.get(`/malik/${id}/saved-searches`).then(validate(array(savedSearchSchema))),
+    createSavedSearch: (id: string, data: SavedSearchPayload) =>
+        api.post(`/malik/${id}/saved-searches`, data).then(validate(savedSearchResponseSchema)),
+    updateSavedSearch: (id: string, searchId: string, data: Partial<SavedSearchPayload>) =>
+        api.put(`/malik/${id}/saved-searches/${searchId}`, data).then(validate(savedSearchResponseSchema)),
+    deleteSavedSearch: (id: string, searchId: string) =>
+        api.delete(`/malik/${id}/saved-searches/${searchId}`).then(validate(successSchema)),
+    // Tenants registered or re-activated since each search was last viewed
+    getSavedSearchDigest: (id: string) =>
+        api.get(`/malik/${id}/saved-searches/digest`).then(validate(array(savedSearchDigestSchema))),
+    markSavedSearchViewed: (id: string, searchId: string) =>
+        api.post(`/malik/${id}/saved-searches/${searchId}/viewed`).then(validate(savedSearchResponseSchema)),
+    getShortlist: (id: string) =>
+        api.get(`/malik/${id}/shortlist`).then(validate(array(shortlistEntrySchema))),
+    addToShortlist: (id: string, bhadotId: string) =>
+        api.post(`/malik/${id}/shortlist`, { bhadotId }).then(validate(shortlistEntryResponseSchema)),
+    updateShortlistEntry: (id: string, bhadotId: string, data: ShortlistUpdatePayload) =>
+        api.put(`/malik/${id}/shortlist/${bhadotId}`, data).then(validate(shortlistEntryResponseSchema)),
+    removeFromShortlist: (id: string, bhadotId: string) =>
+        api.delete(`/malik/${id}/shortlist/${bhadotId}`).then(validate(successSchema)),
 };
 
 // Bhadot API
 export const bhadotApi = {
-    register: (data: any) => api.post('/bhadot/register', data),
-    login: (credentials: any) => api.post('/bhadot/login', credentials),
-    getById: (id: string) => api.get(`/bhadot/${id}`),
-    update: (id: string, data: any) => api.put(`/bhadot/${id}`, data),
-    toggleActive: (id: string, isActive: boolean) => api.put(`/bhadot/${id}/active`, { isActive }),
-    getAvailableRooms: () => api.get('/bhadot/available-rooms'),
-    getRequests: (id: string) => api.get(`/bhadot/${id}/requests`),
-    updateRequestStatus: (requestId: string, status: string) => api.put(`/bhadot/request/${requestId}`, { status }),
+    register: (data: BhadotRegisterPayload) =>
+        api.post('/bhadot/register', data, { skipAuthRefresh: true }).then(validate(bhadotAuthResponseSchema)),
+    login: (credentials: BhadotLoginPayload) =>
+        api.post('/bhadot/login', credentials, { skipAuthRefresh: true }).then(validate(bhadotAuthResponseSchema)),
+    getById: (id: string) => api.get(`/bhadot/${id}`).then(validate(bhadotSchema)),
+    update: (id: string, data: BhadotUpdatePayload) =>
+        api.put(`/bhadot/${id}`, data).then(validate(bhadotResponseSchema)),
+    toggleActive: (id: string, isActive: boolean) =>
+        api.put(`/bhadot/${id}/active`, { isActive }).then(validate(bhadotResponseSchema)),
+    // Number of Room listings currently in the Available status, read from the listing search total
+    getAvailableRoomsCount: () =>
+        api.get('/rooms', { params: { page: 1, pageSize: 1 } }).then(validate(paginated(roomListingSchema)))
+            .then((response) => ({ ...response, data: { count: response.data.total } })),
+    getRequests: (id: string) =>
+        api.get(`/bhadot/${id}/requests`).then(validate(array(rentRequestWithDetailsSchema))),
+    updateRequestStatus: (requestId: string, status: 'Accepted' | 'Rejected') =>
+        api.put(`/bhadot/request/${requestId}`, { status }).then(validate(rentRequestResponseSchema)),
+    // Propose other terms instead of accepting or rejecting outright
+    makeOffer: (requestId: string, data: OfferPayload) =>
+        api.post(`/bhadot/request/${requestId}/offers`, data).then(validate(rentRequestResponseSchema)),
+    respondToOffer: (requestId: string, offerId: string, status: 'Accepted' | 'Declined') =>
+        api.put(`/bhadot/request/${requestId}/offers/${offerId}`, { status }).then(validate(rentRequestResponseSchema)),
+    reportOutcome: (requestId: string, data: RequestOutcomePayload) =>
+        api.put(`/bhadot/request/${requestId}/outcome`, data).then(validate(rentRequestResponseSchema)),
+    // Read-only: the tenant's tenancies with their payments
+    getTenancies: (id: string) => api.get(`/bhadot/${id}/tenancies`).then(validate(array(tenancyStatementSchema))),
+    // Free slots for the request's room, or for all the Malik's rooms when none is linked
+    getVisitSlots: (requestId: string) =>
+        api.get(`/bhadot/request/${requestId}/slots`).then(validate(array(visitSlotSchema))),
+    getVisits: (id: string) => api.get(`/bhadot/${id}/visits`).then(validate(array(visitSchema))),
+    bookVisit: (id: string, data: BookVisitPayload) =>
+        api.post(`/bhadot/${id}/visits`, data).then(validate(visitResponseSchema)),
+    // Moves the booking to another free slot and releases the old one
+    rescheduleVisit: (id: string, visitId: string, slotId: string) =>
+        api.put(`/bhadot/${id}/visits/${visitId}`, { slotId }).then(validate(visitResponseSchema)),
+    cancelVisit: (id: string, visitId: string) =>
+        api.put(`/bhadot/${id}/visits/${visitId}/cancel`).then(validate(visitResponseSchema)),
+    // Sets seenAt on offers the tenant has now looked at; already-seen ones are left alone
+    markRequestsSeen: (id: string, requestIds: string[]) =>
+        api.post(`/bhadot/${id}/requests/seen`, { requestIds }).then(validate(successSchema)),
+    // Tenant-initiated requests are kept apart from the offers returned by getRequests
+    expressInterest: (data: ExpressInterestPayload) =>
+        api.post('/bhadot/interest', data).then(validate(rentRequestResponseSchema)),
+    getInterests: (id: string) =>
+        api.get(`/bhadot/${id}/interests`).then(validate(array(rentRequestWithDetailsSchema))),
+};
+
+// Room API - available listings as seen by tenants
+export const roomApi = {
+    search: (params: RoomSearchParams) =>
+        api.get('/rooms', { params }).then(validate(paginated(roomListingSchema))),
+    getById: (roomId: string) => api.get(`/rooms/${roomId}`).then(validate(roomListingSchema)),
+};
+
+// Upload API - photo storage (a disk-backed stand-in serves this under `vite dev`)
+export const uploadApi = {
+    uploadImage: (image: Blob, onProgress?: (percent: number) => void) =>
+        api.post('/uploads', image, {
+            headers: { 'Content-Type': image.type },
+            onUploadProgress: (event) => {
+                onProgress?.(Math.round((event.loaded * 100) / (event.total || image.size)));
+            },
+        }).then(validate(uploadResponseSchema)),
+    // Remove an image that no listing uses any more
+    deleteImage: (imageId: string) => api.delete(`/uploads/${imageId}`).then(validate(successSchema)),
 };
 
 // Search API
 export const searchApi = {
-    searchUser: (number: string) => api.get(`/search/${number}`),
+    searchUser: (number: string) => api.get(`/search/${number}`).then(validate(searchResultSchema)),
 };
 
 // Message API
 export const messageApi = {
-    sendMessage: (data: { receiverId: string; receiverRole: string; content: string }) =>
-        api.post('/messages/send', data),
+    sendMessage: (data: SendMessagePayload) =>
+        api.post('/messages/send', data).then(validate(sendMessageResponseSchema)),
 
     getMessages: (userId?: string, userRole?: string) => {
         let url = '/messages/conversation';
         if (userId && userRole) {
             url += `/${userId}/${userRole}`;
         }
-        return api.get(url);
+        return api.get(url).then(validate(array(chatMessageSchema)));
     },
 
-    markAsRead: (senderId?: string) => api.put('/messages/read', { senderId }),
+    markAsRead: (senderId?: string) => api.put('/messages/read', { senderId }).then(validate(successSchema)),
 
-    getUnreadCount: () => api.get('/messages/unread-count'),
+    getUnreadCount: () => api.get('/messages/unread-count').then(validate(countSchema)),
 
-    getConversations: () => api.get('/messages/conversations'),
+    getConversations: () => api.get('/messages/conversations').then(validate(array(conversationSchema))),
 };
 
 export default api;
@@ -0,0 +1,606 @@
+/**
+ * Runtime contracts for backend payloads.
+ *
+ * Every API response is parsed against a schema mirroring the interfaces in
+ * `types/index.ts` before it reaches a page. A payload that does not match
+ * raises a ContractViolationError naming the endpoint and the offending field,
+ * so a backend change surfaces as a clear error instead of `undefined.map`.
+ */
+import type { AxiosResponse } from 'axios';
+import type {
+  AdminLoginResponse,
+  AdminStats,
+  Bhadot,
+  BhadotAuthResponse,
+  BhadotResponse,
+  ChatMessage,
+  Conversation,
+  CountResponse,
+  HealthStatus,
+  Malik,
+  MalikAuthResponse,
+  MalikResponse,
+  OtpRequestResponse,
+  OtpVerifyResponse,
+  Paginated,
+  RefreshTokenResponse,
+  RentRequest,
+  RentRequestResponse,
+  OfferTerms,
+  OutcomeReason,
+  RequestEvent,
+  RequestOffer,
+  RequestOutcome,
+  RequestPolicyResponse,
+  RentPayment,
+  RentPaymentResponse,
+  RentRequestWithDetails,
+  Room,
+  RoomPhoto,
+  RoomListing,
+  RoomResponse,
+  RoomType,
+  SavedSearch,
+  SavedSearchDigest,
+  SavedSearchFilters,
+  SavedSearchResponse,
+  SearchResult,
+  SendMessageResponse,
+  ServerRequestPolicy,
+  ShortlistEntry,
+  ShortlistEntryResponse,
+  SuccessResponse,
+  Tenancy,
+  TenancyResponse,
+  TenancyStatement,
+  TenantPreferences,
+  Transaction,
+  UploadResponse,
+  User,
+  Visit,
+  VisitResponse,
+  VisitSlot,
+  VisitSlotResponse,
+} from '../types';
+import { ContractViolationError } from './errors';
+
+/** A schema checks a value at `path` and returns it typed, or throws. */
+export type Schema<T> = (value: unknown, path: string) => T;
+
+// Thrown internally and re-thrown with the endpoint attached by `parse`
+class FieldError extends Error {
+  constructor(readonly field: string, readonly expected: string, readonly received: unknown) {
+    super(field);
+  }
+}
+
+const primitive = <T>(type: 'string' | 'number' | 'boolean'): Schema<T> => (value, path) => {
+  if (typeof value !== type || (type === 'number' && Number.isNaN(value))) {
+    throw new FieldError(path, type, value);
+  }
+  return value as T;
+};
+
+export const string = primitive<string>('string');
+export const number = primitive<number>('number');
+export const boolean = primitive<boolean>('boolean');
+
+/** Optional fields accept both `undefined` and `null` (Mongo returns either). */
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> => (value, path) =>
+  value === undefined || value === null ? undefined : schema(value, path);
+
+export const literal = <T extends string>(...values: T[]): Schema<T> => (value, path) => {
+  if (!values.includes(value as T)) {
+    throw new FieldError(path, values.map((v) => `"${v}"`).join(' | '), value);
+  }
+  return value as T;
+};
+
+export const array = <T>(item: Schema<T>): Schema<T[]> => (value, path) => {
+  if (!Array.isArray(value)) throw new FieldError(path, 'array', value);
+  return value.map((entry, index) => item(entry, `${path}[${index}]`));
+};
+
+/**
+ * Object schema. Keys are checked against the given shape; unknown keys are
+ * kept as-is so additive backend changes do not break the client.
+ */
+export const object = <T>(shape: { [K in keyof T]: Schema<T[K]> }): Schema<T> => (value, path) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new FieldError(path, 'object', value);
+  }
+  const record = value as Record<string, unknown>;
+  const result: Record<string, unknown> = { ...record };
+  for (const key of Object.keys(shape) as (keyof T & string)[]) {
+    const parsed = shape[key](record[key], path ? `${path}.${key}` : key);
+    if (parsed === undefined) {
+      delete result[key];
+    } else {
+      result[key] = parsed;
+    }
+  }
+  return result as T;
+};
+
+/** Parse `data` against `schema`, attributing any failure to `endpoint`. */
+export function parse<T>(schema: Schema<T>, data: unknown, endpoint: string, status = 200): T {
+  try {
+    return schema(data, '');
+  } catch (error) {
+    if (error instanceof FieldError) {
+      throw new ContractViolationError(status, endpoint, error.field || '(root)', error.expected, error.received);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Response transformer for axios promises:
+ * `api.get('/malik/1').then(validate(malikSchema))`
+ */
+export const validate = <T>(schema: Schema<T>) => (response: AxiosResponse<unknown>): AxiosResponse<T> => {
+  const endpoint = `${(response.config.method || 'get').toUpperCase()} ${response.config.url}`;
+  return { ...response, data: parse(schema, response.data, endpoint, response.status) };
+};
+
+// ---------------------------------------------------------------------------
+// Entity schemas
+// ---------------------------------------------------------------------------
+
+const requestStatus = literal<RentRequest['status']>('Pending', 'Accepted', 'Rejected', 'Expired', 'Withdrawn');
+const roomType = literal<RoomType>('1RK', '1BHK', '2BHK', '3BHK', 'Shared');
+
+export const malikSchema: Schema<Malik> = object<Malik>({
+  id: string,
+  name: string,
+  whatsapp: string,
+  address: string,
+  createdAt: optional(string),
+});
+
+export const tenantPreferencesSchema: Schema<TenantPreferences> = object<TenantPreferences>({
+  budgetMin: optional(number),
+  budgetMax: optional(number),
+  preferredAreas: optional(array(string)),
+  moveInDate: optional(string),
+  roomTypeWanted: optional(roomType),
+  occupation: optional(string),
+  hasPets: optional(boolean),
+  vegetarian: optional(boolean),
+});
+
+export const bhadotSchema: Schema<Bhadot> = object<Bhadot>({
+  id: string,
+  name: string,
+  mobile: string,
+  area: optional(string),
+  cast: optional(string),
+  totalFamilyMembers: optional(number),
+  preferences: optional(tenantPreferencesSchema),
+  status: literal('Waiting', 'Approved'),
+  isActive: optional(boolean),
+  createdAt: optional(string),
+});
+
+export const roomPhotoSchema: Schema<RoomPhoto> = object<RoomPhoto>({
+  id: string,
+  url: string,
+});
+
+const roomFields = {
+  id: string,
+  malikId: string,
+  title: string,
+  area: string,
+  address: optional(string),
+  rent: number,
+  deposit: number,
+  roomType,
+  maxOccupants: number,
+  amenities: array(string),
+  availableFrom: string,
+  status: literal('Available', 'Paused', 'Occupied'),
+  photos: optional(array(roomPhotoSchema)),
+  coverPhotoId: optional(string),
+  createdAt: optional(string),
+  updatedAt: optional(string),
+};
+
+export const roomSchema: Schema<Room> = object<Room>(roomFields);
+
+export const roomListingSchema: Schema<RoomListing> = object<RoomListing>({
+  ...roomFields,
+  malikName: string,
+});
+
+export const savedSearchFiltersSchema: Schema<SavedSearchFilters> = object<SavedSearchFilters>({
+  q: optional(string),
+  area: optional(string),
+  cast: optional(string),
+  minFamily: optional(number),
+  maxFamily: optional(number),
+  status: optional(literal('Waiting', 'Approved')),
+  registeredFrom: optional(string),
+  registeredTo: optional(string),
+});
+
+export const savedSearchSchema: Schema<SavedSearch> = object<SavedSearch>({
+  id: string,
+  malikId: string,
+  name: string,
+  filters: savedSearchFiltersSchema,
+  newMatchCount: number,
+  lastViewedAt: optional(string),
+  createdAt: optional(string),
+});
+
+export const savedSearchDigestSchema: Schema<SavedSearchDigest> = object<SavedSearchDigest>({
+  search: savedSearchSchema,
+  matches: array(bhadotSchema),
+});
+
+export const shortlistEntrySchema: Schema<ShortlistEntry> = object<ShortlistEntry>({
+  bhadotId: string,
+  bhadot: bhadotSchema,
+  note: optional(string),
+  seenActive: boolean,
+  addedAt: string,
+});
+
+export const tenancySchema: Schema<Tenancy> = object<Tenancy>({
+  id: string,
+  malikId: string,
+  malikName: optional(string),
+  roomId: string,
+  roomTitle: optional(string),
+  bhadotId: string,
+  bhadotName: optional(string),
+  bhadotMobile: optional(string),
+  requestId: optional(string),
+  monthlyRent: number,
+  dueDay: number,
+  deposit: number,
+  startDate: string,
+  endDate: optional(string),
+  status: literal<Tenancy['status']>('Active', 'Ended'),
+});
+
+export const rentPaymentSchema: Schema<RentPayment> = object<RentPayment>({
+  id: string,
+  tenancyId: string,
+  month: string,
+  amount: number,
+  method: literal<RentPayment['method']>('Cash', 'UPI'),
+  paidOn: string,
+  reference: optional(string),
+  note: optional(string),
+});
+
+export const tenancyStatementSchema: Schema<TenancyStatement> = object<TenancyStatement>({
+  tenancy: tenancySchema,
+  payments: array(rentPaymentSchema),
+});
+
+export const visitSlotSchema: Schema<VisitSlot> = object<VisitSlot>({
+  id: string,
+  roomId: string,
+  start: string,
+  end: string,
+  bookedBy: optional(string),
+  bookedByName: optional(string),
+});
+
+export const visitSchema: Schema<Visit> = object<Visit>({
+  id: string,
+  requestId: string,
+  slotId: string,
+  roomId: string,
+  roomTitle: optional(string),
+  roomAddress: optional(string),
+  malikId: string,
+  malikName: optional(string),
+  bhadotId: string,
+  bhadotName: optional(string),
+  start: string,
+  end: string,
+  status: literal<Visit['status']>('Booked', 'Cancelled'),
+});
+
+export const offerTermsSchema: Schema<OfferTerms> = object<OfferTerms>({
+  rent: optional(number),
+  moveInDate: optional(string),
+  occupants: optional(number),
+});
+
+export const requestOfferSchema: Schema<RequestOffer> = object<RequestOffer>({
+  id: string,
+  from: literal<RequestOffer['from']>('Malik', 'Bhadot'),
+  terms: offerTermsSchema,
+  note: optional(string),
+  status: literal<RequestOffer['status']>('Open', 'Accepted', 'Declined', 'Countered'),
+  createdAt: string,
+});
+
+export const requestOutcomeSchema: Schema<RequestOutcome> = object<RequestOutcome>({
+  result: literal<RequestOutcome['result']>('MovedIn', 'DidNotWork'),
+  reason: optional(literal<OutcomeReason>('RentTooHigh', 'RoomNotAsDescribed', 'FoundAnother', 'NoResponse', 'Other')),
+  note: optional(string),
+  reportedAt: string,
+});
+
+export const requestEventSchema: Schema<RequestEvent> = object<RequestEvent>({
+  type: literal<RequestEvent['type']>('Created', 'Viewed', 'Nudged', 'Countered', 'Accepted', 'Rejected', 'Expired', 'Withdrawn'),
+  at: string,
+  actor: literal<RequestEvent['actor']>('Malik', 'Bhadot', 'Admin', 'System'),
+  actorName: optional(string),
+});
+
+export const rentRequestSchema: Schema<RentRequest> = object<RentRequest>({
+  id: string,
+  malikId: string,
+  bhadotId: string,
+  status: requestStatus,
+  timestamp: string,
+  initiatedBy: optional(literal<NonNullable<RentRequest['initiatedBy']>>('Malik', 'Bhadot')),
+  roomId: optional(string),
+  message: optional(string),
+  withdrawnAt: optional(string),
+  seenAt: optional(string),
+  nudgedAt: optional(string),
+  offers: optional(array(requestOfferSchema)),
+  malikOutcome: optional(requestOutcomeSchema),
+  bhadotOutcome: optional(requestOutcomeSchema),
+  history: optional(array(requestEventSchema)),
+});
+
+export const rentRequestWithDetailsSchema: Schema<RentRequestWithDetails> = object<RentRequestWithDetails>({
+  id: string,
+  malikId: string,
+  bhadotId: string,
+  status: requestStatus,
+  timestamp: string,
+  initiatedBy: optional(literal<NonNullable<RentRequest['initiatedBy']>>('Malik', 'Bhadot')),
+  withdrawnAt: optional(string),
+  seenAt: optional(string),
+  nudgedAt: optional(string),
+  offers: optional(array(requestOfferSchema)),
+  malikOutcome: optional(requestOutcomeSchema),
+  bhadotOutcome: optional(requestOutcomeSchema),
+  history: optional(array(requestEventSchema)),
+  roomId: optional(string),
+  roomTitle: optional(string),
+  roomArea: optional(string),
+  roomRent: optional(number),
+  roomType: optional(roomType),
+  message: optional(string),
+  malikName: optional(string),
+  malikWhatsapp: optional(string),
+  malikAddress: optional(string),
+  bhadotName: optional(string),
+  bhadotMobile: optional(string),
+  bhadotArea: optional(string),
+  bhadotCast: optional(string),
+  bhadotTotalFamilyMembers: optional(number),
+});
+
+export const requestPolicySchema: Schema<ServerRequestPolicy> = object<ServerRequestPolicy>({
+  maxPending: number,
+  pendingWindowHours: number,
+  tenantCooldownHours: number,
+  acceptedExpiryDays: number,
+  nudgeAfterHours: optional(number),
+  maxInterestsPerDay: optional(number),
+});
+
+export const adminStatsSchema: Schema<AdminStats> = object<AdminStats>({
+  totalMaliks: number,
+  totalBhadots: number,
+  totalRequests: number,
+  pendingRequests: number,
+  acceptedRequests: number,
+  everAccepted: number,
+  movedIn: number,
+  didNotWork: number,
+  awaitingOutcome: number,
+});
+
+export const userSchema: Schema<User> = object<User>({
+  id: string,
+  name: string,
+  role: literal('Malik', 'Bhadot'),
+  whatsapp: optional(string),
+  mobile: optional(string),
+  address: optional(string),
+  area: optional(string),
+  status: optional(string),
+  createdAt: optional(string),
+});
+
+export const transactionSchema: Schema<Transaction> = object<Transaction>({
+  id: string,
+  malikName: string,
+  bhadotName: string,
+  status: string,
+  timestamp: string,
+});
+
+export const searchResultSchema: Schema<SearchResult> = (value, path) => {
+  // The user payload's shape depends on the role it was found under
+  const { role } = object<Pick<SearchResult, 'role'>>({ role: optional(literal('Malik', 'Bhadot')) })(value, path);
+  const foundUserSchema: Schema<Malik | Bhadot> = role === 'Bhadot' ? bhadotSchema : malikSchema;
+  return object<SearchResult>({
+    found: boolean,
+    role: optional(literal('Malik', 'Bhadot')),
+    user: optional(foundUserSchema),
+  })(value, path);
+};
+
+export const healthStatusSchema: Schema<HealthStatus> = object<HealthStatus>({
+  status: string,
+  database: string,
+  timestamp: optional(string),
+});
+
+export const chatMessageSchema: Schema<ChatMessage> = object<ChatMessage>({
+  _id: string,
+  senderId: string,
+  senderRole: string,
+  content: string,
+  timestamp: string,
+  isRead: boolean,
+});
+
+export const conversationSchema: Schema<Conversation> = object<Conversation>({
+  _id: string,
+  role: string,
+  name: string,
+  contact: string,
+  unreadCount: number,
+  lastMessage: string,
+  timestamp: string,
+});
+
+// ---------------------------------------------------------------------------
+// Response schemas
+// ---------------------------------------------------------------------------
+
+export const successSchema: Schema<SuccessResponse> = object<SuccessResponse>({
+  success: boolean,
+  message: optional(string),
+});
+
+export const paginated = <T>(item: Schema<T>): Schema<Paginated<T>> => object<Paginated<T>>({
+  items: array(item),
+  total: number,
+  page: number,
+  pageSize: number,
+});
+
+export const countSchema: Schema<CountResponse> = object<CountResponse>({
+  count: number,
+});
+
+export const adminLoginResponseSchema: Schema<AdminLoginResponse> = object<AdminLoginResponse>({
+  success: boolean,
+  message: optional(string),
+  token: string,
+});
+
+export const refreshTokenResponseSchema: Schema<RefreshTokenResponse> = object<RefreshTokenResponse>({
+  success: boolean,
+  message: optional(string),
+  token: string,
+});
+
+export const malikAuthResponseSchema: Schema<MalikAuthResponse> = object<MalikAuthResponse>({
+  success: boolean,
+  message: optional(string),
+  token: string,
+  malik: malikSchema,
+});
+
+export const malikResponseSchema: Schema<MalikResponse> = object<MalikResponse>({
+  success: boolean,
+  message: optional(string),
+  malik: malikSchema,
+});
+
+export const bhadotAuthResponseSchema: Schema<BhadotAuthResponse> = object<BhadotAuthResponse>({
+  success: boolean,
+  message: optional(string),
+  token: string,
+  bhadot: bhadotSchema,
+});
+
+export const bhadotResponseSchema: Schema<BhadotResponse> = object<BhadotResponse>({
+  success: boolean,
+  message: optional(string),
+  bhadot: bhadotSchema,
+});
+
+export const rentRequestResponseSchema: Schema<RentRequestResponse> = object<RentRequestResponse>({
+  success: boolean,
+  message: optional(string),
+  request: rentRequestSchema,
+});
+
+export const requestPolicyResponseSchema: Schema<RequestPolicyResponse> = object<RequestPolicyResponse>({
+  success: boolean,
+  message: optional(string),
+  policy: requestPolicySchema,
+});
+
+export const roomResponseSchema: Schema<RoomResponse> = object<RoomResponse>({
+  success: boolean,
+  message: optional(string),
+  room: roomSchema,
+});
+
+export const savedSearchResponseSchema: Schema<SavedSearchResponse> = object<SavedSearchResponse>({
+  success: boolean,
+  message: optional(string),
+  savedSearch: savedSearchSchema,
+});
+
+export const shortlistEntryResponseSchema: Schema<ShortlistEntryResponse> = object<ShortlistEntryResponse>({
+  success: boolean,
+  message: optional(string),
+  entry: shortlistEntrySchema,
+});
+
+export const tenancyResponseSchema: Schema<TenancyResponse> = object<TenancyResponse>({
+  success: boolean,
+  message: optional(string),
+  tenancy: tenancySchema,
+});
+
+export const rentPaymentResponseSchema: Schema<RentPaymentResponse> = object<RentPaymentResponse>({
+  success: boolean,
+  message: optional(string),
+  payment: rentPaymentSchema,
+});
+
+export const visitSlotResponseSchema: Schema<VisitSlotResponse> = object<VisitSlotResponse>({
+  success: boolean,
+  message: optional(string),
+  slot: visitSlotSchema,
+});
+
+export const visitResponseSchema: Schema<VisitResponse> = object<VisitResponse>({
+  success: boolean,
+  message: optional(string),
+  visit: visitSchema,
+});
+
+export const uploadResponseSchema: Schema<UploadResponse> = object<UploadResponse>({
+  success: boolean,
+  message: optional(string),
+  id: string,
+  url: string,
+});
+
+export const sendMessageResponseSchema: Schema<SendMessageResponse> = object<SendMessageResponse>({
+  success: boolean,
+  message: optional(string),
+  data: chatMessageSchema,
+});
+
+export const adminUsersSchema = object<{ maliks: User[]; bhadots: User[] }>({
+  maliks: array(userSchema),
+  bhadots: array(userSchema),
+});
+
+export const otpRequestResponseSchema: Schema<OtpRequestResponse> = object<OtpRequestResponse>({
+  success: boolean,
+  message: optional(string),
+  expiresInSeconds: number,
+  resendAfterSeconds: number,
+  attemptsRemaining: number,
+  devCode: optional(string),
+});
+
+export const otpVerifyResponseSchema: Schema<OtpVerifyResponse> = object<OtpVerifyResponse>({
+  success: boolean,
+  message: optional(string),
+  verificationToken: string,
+});
@@ -0,0 +1,155 @@
+/**
+ * Structured API errors.
+ *
+ * Every failed request is normalised into an ApiError by the axios response
+ * interceptor in `api.ts`. Pages never parse backend bodies themselves: they
+ * read `status`/`code`/`details` for control flow and pass the error to
+ * `tError` from LanguageContext to get a translated toast message.
+ */
+import axios from 'axios';
+
+export type ApiErrorCode =
+  | 'NETWORK_ERROR'
+  | 'BAD_REQUEST'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'REQUEST_LIMIT_REACHED'
+  | 'TENANT_COOLDOWN'
+  | 'REQUEST_WITHDRAWN'
+  | 'NUDGE_NOT_ALLOWED'
+  | 'INTEREST_LIMIT_REACHED'
+  | 'OFFER_CLOSED'
+  | 'SLOT_TAKEN'
+  | 'RATE_LIMITED'
+  | 'OTP_INVALID'
+  | 'OTP_EXPIRED'
+  | 'OTP_ATTEMPTS_EXCEEDED'
+  | 'CONTRACT_VIOLATION'
+  | 'SERVER_ERROR'
+  | 'UNKNOWN';
+
+/** Typed extra fields the backend may attach to an error body */
+export interface ApiErrorDetails {
+  hoursRemaining?: number;
+  maxPending?: number;
+  pendingWindowHours?: number;
+  maxInterestsPerDay?: number;
+  retryAfterSeconds?: number;
+  attemptsRemaining?: number;
+}
+
+/** Translation key used for each error code */
+const MESSAGE_KEYS: Record<ApiErrorCode, string> = {
+  NETWORK_ERROR: 'errorNetwork',
+  BAD_REQUEST: 'errorBadRequest',
+  UNAUTHORIZED: 'errorUnauthorized',
+  FORBIDDEN: 'errorForbidden',
+  NOT_FOUND: 'errorNotFound',
+  CONFLICT: 'errorConflict',
+  REQUEST_LIMIT_REACHED: 'errorRequestLimit',
+  TENANT_COOLDOWN: 'errorTenantCooldown',
+  REQUEST_WITHDRAWN: 'errorRequestWithdrawn',
+  NUDGE_NOT_ALLOWED: 'errorNudgeNotAllowed',
+  INTEREST_LIMIT_REACHED: 'errorInterestLimit',
+  OFFER_CLOSED: 'errorOfferClosed',
+  SLOT_TAKEN: 'errorSlotTaken',
+  RATE_LIMITED: 'errorRateLimited',
+  OTP_INVALID: 'errorOtpInvalid',
+  OTP_EXPIRED: 'errorOtpExpired',
+  OTP_ATTEMPTS_EXCEEDED: 'errorOtpAttemptsExceeded',
+  CONTRACT_VIOLATION: 'errorContractViolation',
+  SERVER_ERROR: 'errorServer',
+  UNKNOWN: 'errorUnknown',
+};
+
+const isApiErrorCode = (value: unknown): value is ApiErrorCode =>
+  typeof value === 'string' && value in MESSAGE_KEYS;
+
+export class ApiError extends Error {
+  /** HTTP status, or 0 when the server could not be reached */
+  readonly status: number;
+  readonly code: ApiErrorCode;
+  /** LanguageContext key describing this error to the user */
+  readonly messageKey: string;
+  readonly details: ApiErrorDetails;
+  /** Raw message from the backend body, kept for logging only */
+  readonly serverMessage?: string;
+
+  constructor(status: number, code: ApiErrorCode, details: ApiErrorDetails = {}, serverMessage?: string) {
+    super(serverMessage || code);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.messageKey = MESSAGE_KEYS[code];
+    this.details = details;
+    this.serverMessage = serverMessage;
+  }
+
+  /** Normalise anything thrown by an API call into an ApiError */
+  static from(error: unknown): ApiError {
+    if (error instanceof ApiError) return error;
+
+    if (axios.isAxiosError(error)) {
+      if (!error.response) {
+        return new ApiError(0, 'NETWORK_ERROR', {}, error.message);
+      }
+      const { status, data } = error.response;
+      const body = (typeof data === 'object' && data !== null ? data : {}) as Record<string, unknown>;
+      const details: ApiErrorDetails = {};
+      if (typeof body.hoursRemaining === 'number') details.hoursRemaining = body.hoursRemaining;
+      if (typeof body.maxPending === 'number') details.maxPending = body.maxPending;
+      if (typeof body.pendingWindowHours === 'number') details.pendingWindowHours = body.pendingWindowHours;
+      if (typeof body.maxInterestsPerDay === 'number') details.maxInterestsPerDay = body.maxInterestsPerDay;
+      if (typeof body.retryAfterSeconds === 'number') details.retryAfterSeconds = body.retryAfterSeconds;
+      if (typeof body.attemptsRemaining === 'number') details.attemptsRemaining = body.attemptsRemaining;
+      const serverMessage = typeof body.error === 'string' ? body.error
+        : typeof body.message === 'string' ? body.message
+          : undefined;
+      const code = isApiErrorCode(body.code) ? body.code : inferCode(status, details);
+      return new ApiError(status, code, details, serverMessage);
+    }
+
+    return new ApiError(0, 'UNKNOWN', {}, error instanceof Error ? error.message : undefined);
+  }
+}
+
+/** Fallback for backends that do not send a `code` yet */
+function inferCode(status: number, details: ApiErrorDetails): ApiErrorCode {
+  if (details.hoursRemaining !== undefined) return 'TENANT_COOLDOWN';
+  if (details.maxPending !== undefined) return 'REQUEST_LIMIT_REACHED';
+  if (details.maxInterestsPerDay !== undefined) return 'INTEREST_LIMIT_REACHED';
+  if (status === 400 || status === 422) return 'BAD_REQUEST';
+  if (status === 401) return 'UNAUTHORIZED';
+  if (status === 403) return 'FORBIDDEN';
+  if (status === 404) return 'NOT_FOUND';
+  if (status === 409) return 'CONFLICT';
+  if (status === 429) return 'RATE_LIMITED';
+  if (status >= 500) return 'SERVER_ERROR';
+  return 'UNKNOWN';
+}
+
+/** Raised when a response body does not match its runtime contract */
+export class ContractViolationError extends ApiError {
+  readonly endpoint: string;
+  readonly field: string;
+  readonly expected: string;
+  readonly received: unknown;
+
+  constructor(status: number, endpoint: string, field: string, expected: string, received: unknown) {
+    super(status, 'CONTRACT_VIOLATION');
+    this.message = `Contract violation on ${endpoint}: "${field}" expected ${expected}, received ${describe(received)}`;
+    this.name = 'ContractViolationError';
+    this.endpoint = endpoint;
+    this.field = field;
+    this.expected = expected;
+    this.received = received;
+  }
+}
+
+const describe = (value: unknown) => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
@@ -0,0 +1,129 @@
+/**
+ * Session token storage and decoding.
+ *
+ * The backend issues a JWT on login. Its payload carries the user's id and
+ * role; the client reads them to guard routes but never trusts them for
+ * anything the server does not re-check.
+ */
+
+export type SessionRole = 'Malik' | 'Bhadot' | 'Admin';
+
+export interface Session {
+  role: SessionRole;
+  id: string;
+  /** Epoch ms, or null when the token has no `exp` claim */
+  expiresAt: number | null;
+}
+
+const TOKEN_KEY = 'token';
+
+/** Login page for each role, used by guards and session-expiry redirects */
+export const LOGIN_PATHS: Record<SessionRole, string> = {
+  Malik: '/malik/register',
+  Bhadot: '/bhadot/register',
+  Admin: '/admin/login',
+};
+
+/** Dashboard path for a session, used to send users back to their own data */
+export const dashboardPath = (session: Pick<Session, 'role' | 'id'>) => {
+  if (session.role === 'Admin') return '/admin/dashboard';
+  return session.role === 'Malik' ? `/malik/dashboard/${session.id}` : `/bhadot/dashboard/${session.id}`;
+};
+
+export const getStoredToken = () => localStorage.getItem(TOKEN_KEY);
+
+export const storeToken = (token: string) => localStorage.setItem(TOKEN_KEY, token);
+
+export const clearStoredToken = () => localStorage.removeItem(TOKEN_KEY);
+
+const normalizeRole = (role: unknown): SessionRole | null => {
+  if (typeof role !== 'string') return null;
+  switch (role.toLowerCase()) {
+    case 'malik': return 'Malik';
+    case 'bhadot': return 'Bhadot';
+    case 'admin': return 'Admin';
+    default: return null;
+  }
+};
+
+/**
+ * Decode a JWT payload without verifying it.
+ * Returns null for malformed tokens or tokens without a known role/id.
+ */
+export function decodeToken(token: string): Session | null {
+  try {
+    const [, payload] = token.split('.');
+    if (!payload) return null;
+    const json = atob(payload.replace(/-/g, '+').replace(/_/g, '/'));
+    const claims = JSON.parse(json) as Record<string, unknown>;
+
+    const role = normalizeRole(claims.role);
+    const id = claims.id ?? claims.userId ?? claims.sub;
+    if (!role || (typeof id !== 'string' && typeof id !== 'number')) return null;
+
+    return {
+      role,
+      id: String(id),
+      expiresAt: typeof claims.exp === 'number' ? claims.exp * 1000 : null,
+    };
+  } catch {
+    return null;
+  }
+}
+
+export const isExpired = (session: Session, now = Date.now()) =>
+  session.expiresAt !== null && session.expiresAt <= now;
+
+/**
+ * The current session from storage, or null if missing/malformed.
+ * An expired access token still counts: the API client refreshes it on the
+ * first 401 and ends the session via `expireSession` if that fails.
+ */
+export const readSession = (): Session | null => {
+  const token = getStoredToken();
+  return token ? decodeToken(token) : null;
+};
+
+type SessionRefreshedListener = (session: Session | null) => void;
+
+const refreshedListeners = new Set<SessionRefreshedListener>();
+
+/** Subscribe to silent token refreshes; returns an unsubscribe function */
+export const onSessionRefreshed = (listener: SessionRefreshedListener) => {
+  refreshedListeners.add(listener);
+  return () => {
+    refreshedListeners.delete(listener);
+  };
+};
+
+/** Store a token issued by a silent refresh and notify listeners with its session */
+export function refreshSession(token: string) {
+  storeToken(token);
+  const session = decodeToken(token);
+  refreshedListeners.forEach((listener) => listener(session));
+}
+
+type SessionExpiredListener = (role: SessionRole | null) => void;
+
+const expiredListeners = new Set<SessionExpiredListener>();
+
+/** Subscribe to session expiry; returns an unsubscribe function */
+export const onSessionExpired = (listener: SessionExpiredListener) => {
+  expiredListeners.add(listener);
+  return () => {
+    expiredListeners.delete(listener);
+  };
+};
+
+/**
+ * Clear the stored token and notify listeners with the role it belonged to.
+ * Safe to call from several failing requests at once: only the first call
+ * (while a token is still stored) notifies.
+ */
+export function expireSession() {
+  const token = getStoredToken();
+  if (!token) return;
+  const role = decodeToken(token)?.role ?? null;
+  clearStoredToken();
+  expiredListeners.forEach((listener) => listener(role));
+}
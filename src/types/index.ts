@@ -6,32 +6,265 @@ export interface Malik {
   createdAt?: string;
 }
 
+/** What a tenant is looking for; every field is optional */
+export interface TenantPreferences {
+  budgetMin?: number;
+  budgetMax?: number;
+  preferredAreas?: string[];
+  moveInDate?: string; // YYYY-MM-DD
+  roomTypeWanted?: RoomType;
+  occupation?: string;
+  hasPets?: boolean;
+  vegetarian?: boolean;
+}
+
+/**
+ * Preferences as sent on save: every field is present, `null` when cleared
+ * An omitted field would be dropped from the JSON and the backend would keep the old value.
+ */
+export type TenantPreferencesUpdate = { [K in keyof TenantPreferences]-?: TenantPreferences[K] | null };
+
 export interface Bhadot {
   id: string;
   name: string;
   mobile: string;
-  area: string;
+  area?: string;
   cast?: string;
   totalFamilyMembers?: number;
+  preferences?: TenantPreferences;
   status: 'Waiting' | 'Approved';
   isActive?: boolean;
   createdAt?: string;
 }
 
+export type RoomType = '1RK' | '1BHK' | '2BHK' | '3BHK' | 'Shared';
+
+/** Available rooms are listed to tenants; Paused and Occupied ones are not */
+export type RoomStatus = 'Available' | 'Paused' | 'Occupied';
+
+export interface RoomPhoto {
+  id: string;
+  url: string;
+}
+
+export interface Room {
+  id: string;
+  malikId: string;
+  title: string;
+  area: string;
+  address?: string;
+  rent: number;
+  deposit: number;
+  roomType: RoomType;
+  maxOccupants: number;
+  amenities: string[];
+  availableFrom: string;
+  status: RoomStatus;
+  photos?: RoomPhoto[]; // In display order
+  coverPhotoId?: string; // Falls back to the first photo when unset
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/** Available listing as shown to tenants browsing rooms */
+export interface RoomListing extends Room {
+  malikName: string;
+}
+
+export type RoomSort = 'newest' | 'rentAsc' | 'rentDesc' | 'availableSoonest';
+
+export interface RoomSearchParams {
+  area?: string;
+  minRent?: number;
+  maxRent?: number;
+  roomType?: RoomType;
+  occupants?: number; // Rooms that fit at least this many people
+  sort?: RoomSort;
+  page?: number;
+  pageSize?: number;
+}
+
+/** Server-side filters for the Malik's "All Tenants" list */
+export interface BhadotSearchParams {
+  q?: string; // Name search
+  area?: string;
+  cast?: string;
+  minFamily?: number;
+  maxFamily?: number;
+  status?: Bhadot['status'];
+  registeredFrom?: string; // YYYY-MM-DD, inclusive
+  registeredTo?: string; // YYYY-MM-DD, inclusive
+  matchRoomId?: string; // Rank every matching tenant by fit for this room before paging
+  page?: number;
+  pageSize?: number;
+}
+
+/** Tenant filters a Malik can save; paging and ranking are not part of a saved search */
+export type SavedSearchFilters = Omit<BhadotSearchParams, 'matchRoomId' | 'page' | 'pageSize'>;
+
+export interface SavedSearch {
+  id: string;
+  malikId: string;
+  name: string;
+  filters: SavedSearchFilters;
+  newMatchCount: number; // Tenants registered or re-activated since lastViewedAt
+  lastViewedAt?: string;
+  createdAt?: string;
+}
+
+/** New matches for one saved search, as shown in the alerts digest */
+export interface SavedSearchDigest {
+  search: SavedSearch;
+  matches: Bhadot[];
+}
+
+/** A tenant the Malik starred, with a note only the Malik can see */
+export interface ShortlistEntry {
+  bhadotId: string;
+  bhadot: Bhadot;
+  note?: string;
+  seenActive: boolean; // bhadot.isActive as of the Malik's last look; a difference raises a notice
+  addedAt: string;
+}
+
+/** A tenant living in one of the Malik's rooms, with the agreed rent */
+export interface Tenancy {
+  id: string;
+  malikId: string;
+  malikName?: string;
+  roomId: string;
+  roomTitle?: string;
+  bhadotId: string;
+  bhadotName?: string;
+  bhadotMobile?: string;
+  requestId?: string; // Accepted request the tenancy came from
+  monthlyRent: number;
+  dueDay: number; // Day of the month rent is due, 1-28
+  deposit: number;
+  startDate: string;
+  endDate?: string; // Set once the tenant moved out
+  status: 'Active' | 'Ended';
+}
+
+/** Rent received for one month; a month can be paid in several parts */
+export interface RentPayment {
+  id: string;
+  tenancyId: string;
+  month: string; // YYYY-MM the payment counts towards
+  amount: number;
+  method: 'Cash' | 'UPI';
+  paidOn: string;
+  reference?: string; // UPI transaction ID
+  note?: string;
+}
+
+/** A tenancy with every payment recorded against it */
+export interface TenancyStatement {
+  tenancy: Tenancy;
+  payments: RentPayment[];
+}
+
+/** A time window in which the Malik can show a room */
+export interface VisitSlot {
+  id: string;
+  roomId: string;
+  start: string;
+  end: string;
+  bookedBy?: string; // Bhadot ID, when the slot is taken
+  bookedByName?: string;
+}
+
+/** A tenant's booking of a visit slot, for an Accepted request */
+export interface Visit {
+  id: string;
+  requestId: string;
+  slotId: string;
+  roomId: string;
+  roomTitle?: string;
+  roomAddress?: string;
+  malikId: string;
+  malikName?: string;
+  bhadotId: string;
+  bhadotName?: string;
+  start: string;
+  end: string;
+  status: 'Booked' | 'Cancelled';
+}
+
+/** What a side proposes while negotiating; unset fields keep the previous terms */
+export interface OfferTerms {
+  rent?: number;
+  moveInDate?: string;
+  occupants?: number;
+}
+
+/** One proposal in a request's negotiation thread */
+export interface RequestOffer {
+  id: string;
+  from: 'Malik' | 'Bhadot';
+  terms: OfferTerms;
+  note?: string;
+  status: 'Open' | 'Accepted' | 'Declined' | 'Countered'; // Only the latest offer can be Open
+  createdAt: string;
+}
+
+/** Why an accepted contact did not become a tenancy */
+export type OutcomeReason = 'RentTooHigh' | 'RoomNotAsDescribed' | 'FoundAnother' | 'NoResponse' | 'Other';
+
+/** What one side reports after an Accepted request */
+export interface RequestOutcome {
+  result: 'MovedIn' | 'DidNotWork';
+  reason?: OutcomeReason; // Only for DidNotWork
+  note?: string;
+  reportedAt: string;
+}
+
+/** One step in a request's life, recorded by the backend */
+export interface RequestEvent {
+  type: 'Created' | 'Viewed' | 'Nudged' | 'Countered' | 'Accepted' | 'Rejected' | 'Expired' | 'Withdrawn';
+  at: string;
+  actor: 'Malik' | 'Bhadot' | 'Admin' | 'System'; // System for automatic changes such as expiry
+  actorName?: string;
+}
+
 export interface RentRequest {
   id: string;
   malikId: string;
   bhadotId: string;
-  status: 'Pending' | 'Accepted' | 'Rejected' | 'Expired';
+  status: 'Pending' | 'Accepted' | 'Rejected' | 'Expired' | 'Withdrawn';
   timestamp: string;
+  initiatedBy?: 'Malik' | 'Bhadot'; // Who sent the request; missing means Malik
+  roomId?: string; // Listing the request is about, if any
+  message?: string; // Personal note from the sender
+  withdrawnAt?: string; // Set when the Malik withdrew a Pending request
+  seenAt?: string; // When the Bhadot first opened the offer
+  nudgedAt?: string; // When the Malik sent their one reminder
+  offers?: RequestOffer[]; // Negotiation thread, oldest first; the request stays Pending until an offer is accepted
+  malikOutcome?: RequestOutcome; // Each side confirms separately once the request is Accepted
+  bhadotOutcome?: RequestOutcome;
+  history?: RequestEvent[]; // Oldest first; missing on requests from older backends
 }
 
 export interface RentRequestWithDetails {
   id: string;
   malikId: string;
   bhadotId: string;
-  status: 'Pending' | 'Accepted' | 'Rejected' | 'Expired';
+  status: 'Pending' | 'Accepted' | 'Rejected' | 'Expired' | 'Withdrawn';
   timestamp: string;
+  initiatedBy?: 'Malik' | 'Bhadot';
+  withdrawnAt?: string;
+  seenAt?: string;
+  nudgedAt?: string;
+  offers?: RequestOffer[];
+  malikOutcome?: RequestOutcome;
+  bhadotOutcome?: RequestOutcome;
+  history?: RequestEvent[];
+  roomId?: string;
+  roomTitle?: string;
+  roomArea?: string;
+  roomRent?: number;
+  roomType?: RoomType;
+  message?: string;
   malikName?: string;
   malikWhatsapp?: string | null;
   malikAddress?: string | null;
@@ -42,12 +275,30 @@ export interface RentRequestWithDetails {
    bhadotTotalFamilyMembers?: number;
 }
 
+/** Limits on Malik -> Bhadot requests; enforced by the backend, mirrored in the UI */
+export interface RequestPolicy {
+  maxPending: number; // Pending requests a Malik may have inside the window
+  pendingWindowHours: number; // How long a sent Pending request counts towards maxPending
+  tenantCooldownHours: number; // Wait before the same tenant can be contacted again
+  acceptedExpiryDays: number; // An Accepted request expires, and the tenant goes inactive, this long after acceptance
+  nudgeAfterHours: number; // How long a Pending request must stay unseen before the Malik can send a reminder
+  maxInterestsPerDay: number; // Interest requests a Bhadot may send in any 24 hours
+}
+
+/** The policy as the backend sends it; a backend that predates a setting leaves it out */
+export type ServerRequestPolicy = Omit<RequestPolicy, 'nudgeAfterHours' | 'maxInterestsPerDay'> &
+  Partial<Pick<RequestPolicy, 'nudgeAfterHours' | 'maxInterestsPerDay'>>;
+
 export interface AdminStats {
   totalMaliks: number;
   totalBhadots: number;
   totalRequests: number;
   pendingRequests: number;
-  acceptedRequests: number;
+  acceptedRequests: number; // Currently Accepted
+  everAccepted: number; // Accepted at some point, including those that have since expired
+  movedIn: number; // Accepted requests confirmed as a tenancy by either side
+  didNotWork: number; // Accepted requests reported as not working out, and none as moved in
+  awaitingOutcome: number; // Requests ever accepted that nobody has reported on yet
 }
 
 export interface User {
@@ -76,3 +327,244 @@ export interface SearchResult {
   user?: Malik | Bhadot;
 }
 
+
+export interface HealthStatus {
+  status: string;
+  database: 'connected' | 'disconnected' | string;
+  timestamp?: string;
+}
+
+export interface ChatMessage {
+  _id: string;
+  senderId: string;
+  senderRole: string;
+  content: string;
+  timestamp: string;
+  isRead: boolean;
+}
+
+export interface Conversation {
+  _id: string;
+  role: string;
+  name: string;
+  contact: string;
+  unreadCount: number;
+  lastMessage: string;
+  timestamp: string;
+}
+
+// ---------------------------------------------------------------------------
+// API request/response contracts
+// ---------------------------------------------------------------------------
+
+export interface SuccessResponse {
+  success: boolean;
+  message?: string;
+}
+
+export interface AdminLoginPayload {
+  id: string;
+  password: string;
+}
+
+export interface AdminLoginResponse extends SuccessResponse {
+  token: string;
+}
+
+/** Fresh access token issued against the httpOnly refresh cookie */
+export interface RefreshTokenResponse extends SuccessResponse {
+  token: string;
+}
+
+export type OtpChannel = 'whatsapp' | 'sms';
+
+export interface OtpRequestPayload {
+  phone: string;
+  role: 'Malik' | 'Bhadot';
+  channel: OtpChannel;
+}
+
+export interface OtpRequestResponse extends SuccessResponse {
+  expiresInSeconds: number;
+  resendAfterSeconds: number;
+  attemptsRemaining: number;
+  /** Only returned by the development console sender */
+  devCode?: string;
+}
+
+export interface OtpVerifyPayload {
+  phone: string;
+  role: 'Malik' | 'Bhadot';
+  code: string;
+}
+
+export interface OtpVerifyResponse extends SuccessResponse {
+  /** Short-lived proof that the phone was verified, required by login/register */
+  verificationToken: string;
+}
+
+export interface MalikRegisterPayload {
+  name: string;
+  whatsapp: string;
+  address: string;
+  verificationToken: string;
+}
+
+export interface MalikLoginPayload {
+  whatsapp: string;
+  verificationToken: string;
+}
+
+export interface MalikAuthResponse extends SuccessResponse {
+  token: string;
+  malik: Malik;
+}
+
+export type MalikUpdatePayload = Partial<Pick<Malik, 'name' | 'whatsapp' | 'address'>>;
+
+export interface MalikResponse extends SuccessResponse {
+  malik: Malik;
+}
+
+export interface BhadotRegisterPayload {
+  name: string;
+  mobile: string;
+  cast: string;
+  totalFamilyMembers: number;
+  preferences?: TenantPreferencesUpdate;
+  verificationToken: string;
+}
+
+export interface BhadotLoginPayload {
+  mobile: string;
+  verificationToken: string;
+}
+
+export interface BhadotAuthResponse extends SuccessResponse {
+  token: string;
+  bhadot: Bhadot;
+}
+
+export type BhadotUpdatePayload = Partial<Pick<Bhadot, 'name' | 'mobile' | 'area' | 'status' | 'cast' | 'totalFamilyMembers'>> & {
+  preferences?: TenantPreferencesUpdate;
+};
+
+export interface BhadotResponse extends SuccessResponse {
+  bhadot: Bhadot;
+}
+
+export type RoomPayload = Pick<
+  Room,
+  'title' | 'area' | 'address' | 'rent' | 'deposit' | 'roomType' | 'maxOccupants' | 'amenities' | 'availableFrom'
+>;
+
+export interface RoomResponse extends SuccessResponse {
+  room: Room;
+}
+
+export interface RoomPhotosPayload {
+  photos: RoomPhoto[];
+  coverPhotoId?: string;
+}
+
+/** Stored image returned by the photo storage endpoint */
+export interface UploadResponse extends SuccessResponse {
+  id: string;
+  url: string;
+}
+
+export interface CreateRentRequestPayload {
+  malikId: string;
+  bhadotId: string;
+  message?: string;
+  roomId?: string; // One of the Malik's listings to show the tenant
+}
+
+export type RequestOutcomePayload = Omit<RequestOutcome, 'reportedAt'>;
+
+export interface OfferPayload {
+  terms: OfferTerms;
+  note?: string;
+}
+
+export interface RentRequestResponse extends SuccessResponse {
+  request: RentRequest;
+}
+
+/** Tenant-initiated request: the Bhadot asks a Malik to connect, about one room or in general */
+export interface ExpressInterestPayload {
+  bhadotId: string;
+  roomId?: string; // Set to ask about a listing; the backend finds its Malik
+  malikId?: string; // Set instead of roomId to contact the owner about any room
+  message?: string;
+}
+
+export interface SavedSearchPayload {
+  name: string;
+  filters: SavedSearchFilters;
+}
+
+export interface SavedSearchResponse extends SuccessResponse {
+  savedSearch: SavedSearch;
+}
+
+export type ShortlistUpdatePayload = Partial<Pick<ShortlistEntry, 'note' | 'seenActive'>>;
+
+export interface ShortlistEntryResponse extends SuccessResponse {
+  entry: ShortlistEntry;
+}
+
+export type TenancyPayload = Pick<Tenancy, 'roomId' | 'bhadotId' | 'requestId' | 'monthlyRent' | 'dueDay' | 'deposit' | 'startDate'>;
+
+export type RentPaymentPayload = Omit<RentPayment, 'id' | 'tenancyId'>;
+
+export interface TenancyResponse extends SuccessResponse {
+  tenancy: Tenancy;
+}
+
+export interface RentPaymentResponse extends SuccessResponse {
+  payment: RentPayment;
+}
+
+export interface VisitSlotPayload {
+  start: string;
+  end: string;
+}
+
+export interface BookVisitPayload {
+  requestId: string;
+  slotId: string;
+}
+
+export interface VisitSlotResponse extends SuccessResponse {
+  slot: VisitSlot;
+}
+
+export interface VisitResponse extends SuccessResponse {
+  visit: Visit;
+}
+
+export interface RequestPolicyResponse extends SuccessResponse {
+  policy: ServerRequestPolicy;
+}
+
+export interface Paginated<T> {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export interface CountResponse {
+  count: number;
+}
+
+export interface SendMessagePayload {
+  receiverId: string;
+  receiverRole: string;
+  content: string;
+}
+
+export interface SendMessageResponse extends SuccessResponse {
+  data: ChatMessage;
+}
@@ -0,0 +1,95 @@
+/**
+ * iCalendar (.ics) export for room visits, so they can be added to a phone calendar.
+ */
+import { downloadFile } from './download';
+import type { Visit } from '../types';
+
+interface CalendarEvent {
+  uid: string;
+  start: string;
+  end: string;
+  title: string;
+  description?: string;
+  location?: string;
+}
+
+// 20250601T103000Z
+const toIcsDate = (iso: string) => new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Commas, semicolons, backslashes and newlines must be escaped in text values
+const escapeText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const encoder = new TextEncoder();
+
+/**
+ * Fold a content line longer than 75 octets (RFC 5545 §3.1)
+ * Continuation lines start with a space; multi-byte characters are never split.
+ */
+const foldLine = (line: string) => {
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    // The leading space of a continuation line counts towards its 75 octets
+    const limit = parts.length === 0 ? 75 : 74;
+    if (size + bytes > limit) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += bytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+/** A single-event VCALENDAR; every line, the last included, ends with CRLF as the format requires */
+export const toIcs = (event: CalendarEvent) =>
+  [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Room Rent//Visits//EN',
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${toIcsDate(new Date().toISOString())}`,
+    `DTSTART:${toIcsDate(event.start)}`,
+    `DTEND:${toIcsDate(event.end)}`,
+    `SUMMARY:${escapeText(event.title)}`,
+    event.description && `DESCRIPTION:${escapeText(event.description)}`,
+    event.location && `LOCATION:${escapeText(event.location)}`,
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ]
+    .filter((line): line is string => Boolean(line))
+    .map(foldLine)
+    .join('\r\n') + '\r\n';
+
+/** Save a visit as an .ics file the phone can open in its calendar app */
+export const downloadVisitIcs = (visit: Visit, title: string, description?: string) => {
+  const ics = toIcs({
+    uid: `visit-${visit.id}@roomrent`,
+    start: visit.start,
+    end: visit.end,
+    title,
+    description,
+    location: visit.roomAddress,
+  });
+  downloadFile(ics, 'text/calendar;charset=utf-8', `visit-${visit.start.slice(0, 10)}.ics`);
+};
+
+/** "Sat, 1 Jun · 10:30 – 11:00" in the browser's locale */
+export const formatSlot = (start: string, end: string) => {
+  const from = new Date(start);
+  const day = from.toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' });
+  const time = (date: Date) => date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+  return `${day} · ${time(from)} – ${time(new Date(end))}`;
+};
+
+/** Visits still ahead of us, soonest first */
+export const upcomingVisits = (visits: Visit[], now = new Date()) =>
+  visits
+    .filter((visit) => visit.status === 'Booked' && new Date(visit.end) > now)
+    .sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime());
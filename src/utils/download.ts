@@ -0,0 +1,16 @@
+/**
+ * Save generated content as a file
+ * The link has to be in the document for Firefox and Safari to follow it, and
+ * revoking the URL straight after click() can cancel the download on iOS.
+ */
+export const downloadFile = (content: string, type: string, filename: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.style.display = 'none';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
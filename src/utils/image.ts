@@ -0,0 +1,40 @@
+/**
+ * Client-side image compression for room photos.
+ *
+ * Phone cameras produce multi-megabyte JPEGs; listings only need a screen-
+ * sized image. Photos are scaled down to fit `maxDimension` and re-encoded as
+ * WebP (or JPEG on browsers that cannot encode WebP) before upload.
+ */
+
+interface CompressOptions {
+  maxDimension?: number;
+  quality?: number;
+}
+
+const toBlob = (canvas: HTMLCanvasElement, type: string, quality: number) =>
+  new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, quality));
+
+export async function compressImage(file: File, { maxDimension = 1600, quality = 0.8 }: CompressOptions = {}): Promise<Blob> {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not supported');
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  // Browsers without a WebP encoder silently fall back to PNG, which is larger
+  let blob = await toBlob(canvas, 'image/webp', quality);
+  if (!blob || blob.type !== 'image/webp') {
+    blob = await toBlob(canvas, 'image/jpeg', quality);
+  }
+  if (!blob) throw new Error('Image could not be encoded');
+
+  // Never upload something bigger than what the user picked
+  return blob.size < file.size || !['image/jpeg', 'image/png', 'image/webp'].includes(file.type) ? blob : file;
+}
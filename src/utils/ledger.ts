@@ -0,0 +1,127 @@
+/**
+ * Rent ledger for a tenancy: which months are owed, what was paid against
+ * each, and which are overdue. The backend stores only the tenancy and the
+ * payments; months and balances are worked out here from the rent and due day.
+ */
+import { downloadFile } from './download';
+import { parseLocalDate } from './time';
+import type { RentPayment, Tenancy } from '../types';
+
+export type LedgerMonthStatus = 'Paid' | 'Overdue' | 'Upcoming';
+
+export interface LedgerMonth {
+  month: string; // YYYY-MM
+  dueDate: Date;
+  rent: number;
+  paid: number; // Payments tagged with this month
+  carriedIn: number; // Overpayment from earlier months applied to this one
+  balance: number; // Still owed for the month, never negative
+  status: LedgerMonthStatus;
+  payments: RentPayment[];
+}
+
+export interface LedgerSummary {
+  totalPaid: number;
+  outstanding: number; // Owed for months already past their due date
+  overdueMonths: number;
+  credit: number; // Paid beyond the last month shown, counts towards the months after it
+  nextDue?: LedgerMonth; // Earliest month not fully paid
+}
+
+// 2025-06
+const monthKey = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+/** The due date of a month; a due day past the month's end falls on its last day */
+const dueDateOf = (month: string, dueDay: number) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const lastDay = new Date(year, monthIndex, 0).getDate();
+  return new Date(year, monthIndex - 1, Math.min(dueDay, lastDay), 23, 59, 59);
+};
+
+/**
+ * One row per month from the move-in month to this month (or the move-out month)
+ * Active tenancies also get the next month so rent paid in advance can be recorded,
+ * and any month a payment was tagged with is always shown. Paying more than a
+ * month's rent carries the rest into the following months. A month turns Overdue
+ * only after its due day has passed without full payment.
+ */
+export const ledgerMonths = (tenancy: Tenancy, payments: RentPayment[], now = new Date()): LedgerMonth[] => {
+  const moveOut = tenancy.endDate ? parseLocalDate(tenancy.endDate) : undefined;
+  const last = moveOut && moveOut < now ? moveOut : now;
+  const paymentMonths = payments.map((payment) => payment.month).sort();
+  const endMonths = [monthKey(last), ...paymentMonths.slice(-1)];
+  if (tenancy.status === 'Active') {
+    endMonths.push(monthKey(new Date(now.getFullYear(), now.getMonth() + 1, 1)));
+  }
+  // YYYY-MM keys sort in date order
+  const firstMonth = [monthKey(parseLocalDate(tenancy.startDate)), ...paymentMonths.slice(0, 1)].sort()[0];
+  const lastMonth = endMonths.sort()[endMonths.length - 1];
+
+  const months: LedgerMonth[] = [];
+  let credit = 0;
+  const [startYear, startMonth] = firstMonth.split('-').map(Number);
+  for (let cursor = new Date(startYear, startMonth - 1, 1); monthKey(cursor) <= lastMonth; cursor.setMonth(cursor.getMonth() + 1)) {
+    const month = monthKey(cursor);
+    const monthPayments = payments.filter((payment) => payment.month === month);
+    const paid = monthPayments.reduce((sum, payment) => sum + payment.amount, 0);
+    const dueDate = dueDateOf(month, tenancy.dueDay);
+    const carriedIn = credit;
+    const covered = Math.min(paid + carriedIn, tenancy.monthlyRent);
+    const balance = tenancy.monthlyRent - covered;
+    credit = paid + carriedIn - covered;
+
+    months.push({
+      month,
+      dueDate,
+      rent: tenancy.monthlyRent,
+      paid,
+      carriedIn,
+      balance,
+      status: balance === 0 ? 'Paid' : dueDate < now ? 'Overdue' : 'Upcoming',
+      payments: monthPayments,
+    });
+  }
+
+  return months;
+};
+
+/** Totals shown above the ledger and on the tenancy cards */
+export const summarizeLedger = (months: LedgerMonth[]): LedgerSummary => {
+  const overdue = months.filter((row) => row.status === 'Overdue');
+  const totalPaid = months.reduce((sum, row) => sum + row.paid, 0);
+  const lastRow = months[months.length - 1];
+  return {
+    totalPaid,
+    outstanding: overdue.reduce((sum, row) => sum + row.balance, 0),
+    overdueMonths: overdue.length,
+    credit: lastRow ? lastRow.paid + lastRow.carriedIn - (lastRow.rent - lastRow.balance) : 0,
+    nextDue: months.find((row) => row.balance > 0),
+  };
+};
+
+/** "June 2025" in the browser's locale */
+export const formatMonth = (month: string) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(year, monthIndex - 1, 1).toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+};
+
+// Quote every cell so names and notes with commas stay in one column
+const csvRow = (cells: (string | number)[]) => cells.map((cell) => `"${String(cell).replace(/"/g, '""')}"`).join(',');
+
+/** Save the per-tenant statement as a CSV that opens in any spreadsheet app */
+export const downloadStatementCsv = (tenancy: Tenancy, months: LedgerMonth[], headers: string[]) => {
+  const rows = months.flatMap((row) =>
+    row.payments.length > 0
+      ? row.payments.map((payment) =>
+          csvRow([row.month, row.rent, payment.amount, payment.method, payment.paidOn.slice(0, 10), payment.reference ?? '', row.status])
+        )
+      : [csvRow([row.month, row.rent, 0, '', '', '', row.status])]
+  );
+  // The byte order mark makes Excel read the file as UTF-8, so Hindi headers and names survive
+  const csv = '\uFEFF' + [csvRow(headers), ...rows].join('\r\n');
+  downloadFile(
+    csv,
+    'text/csv;charset=utf-8',
+    `rent-statement-${(tenancy.bhadotName ?? tenancy.bhadotId).replace(/\s+/g, '-').toLowerCase()}.csv`
+  );
+};
@@ -0,0 +1,95 @@
+import type { Bhadot, Room } from '../types';
+
+export type MatchFactorKey = 'area' | 'budget' | 'occupancy' | 'moveIn';
+
+export interface MatchFactor {
+  key: MatchFactorKey;
+  points: number;
+  max: number;
+  reason: string; // Translation key explaining the points
+}
+
+export interface MatchScore {
+  total: number; // 0-100, the sum of every factor's points
+  factors: MatchFactor[];
+}
+
+// Points each factor contributes to a perfect 100
+const WEIGHTS: Record<MatchFactorKey, number> = { area: 30, budget: 30, occupancy: 20, moveIn: 20 };
+
+// Rent this far above the tenant's maximum scores nothing for budget
+const BUDGET_TOLERANCE = 0.25;
+// A room becoming free this many days after the tenant's move-in date scores nothing for timing
+const MOVE_IN_TOLERANCE_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const sameArea = (a: string, b: string) => {
+  const x = a.trim().toLowerCase();
+  const y = b.trim().toLowerCase();
+  return !!x && !!y && (x.includes(y) || y.includes(x));
+};
+
+const factor = (key: MatchFactorKey, share: number, reason: string): MatchFactor => ({
+  key,
+  points: Math.round(WEIGHTS[key] * Math.min(1, Math.max(0, share))),
+  max: WEIGHTS[key],
+  reason,
+});
+
+const scoreArea = (room: Room, bhadot: Bhadot) => {
+  const preferred = bhadot.preferences?.preferredAreas ?? [];
+  if (preferred.some((area) => sameArea(area, room.area))) return factor('area', 1, 'matchAreaPreferred');
+  if (bhadot.area && sameArea(bhadot.area, room.area)) return factor('area', 2 / 3, 'matchAreaCurrent');
+  if (preferred.length > 0) return factor('area', 0, 'matchAreaElsewhere');
+  return factor('area', 0.5, 'matchAreaUnknown');
+};
+
+const scoreBudget = (room: Room, bhadot: Bhadot) => {
+  const { budgetMin, budgetMax } = bhadot.preferences ?? {};
+  if (budgetMin === undefined && budgetMax === undefined) return factor('budget', 0.5, 'matchBudgetUnknown');
+  if (budgetMax !== undefined && room.rent > budgetMax) {
+    const over = (room.rent - budgetMax) / Math.max(budgetMax, 1);
+    return factor('budget', 1 - over / BUDGET_TOLERANCE, 'matchBudgetOver');
+  }
+  // Cheaper than the tenant planned for is still a good fit, just not a perfect one
+  if (budgetMin !== undefined && room.rent < budgetMin) return factor('budget', 5 / 6, 'matchBudgetUnder');
+  return factor('budget', 1, 'matchBudgetWithin');
+};
+
+const scoreOccupancy = (room: Room, bhadot: Bhadot) => {
+  if (!bhadot.totalFamilyMembers) return factor('occupancy', 0.5, 'matchFamilyUnknown');
+  if (bhadot.totalFamilyMembers <= room.maxOccupants) return factor('occupancy', 1, 'matchFamilyFits');
+  return factor('occupancy', 0, 'matchFamilyTooLarge');
+};
+
+const scoreMoveIn = (room: Room, bhadot: Bhadot) => {
+  const moveInDate = bhadot.preferences?.moveInDate;
+  if (!moveInDate) return factor('moveIn', 0.5, 'matchMoveInUnknown');
+  const lateDays = (new Date(room.availableFrom).getTime() - new Date(moveInDate).getTime()) / DAY_MS;
+  if (lateDays <= 0) return factor('moveIn', 1, 'matchMoveInReady');
+  return factor('moveIn', 1 - lateDays / MOVE_IN_TOLERANCE_DAYS, 'matchMoveInLater');
+};
+
+/**
+ * Score how well a tenant fits one of the Malik's rooms. Missing tenant
+ * details earn half the factor's points, so an incomplete profile ranks
+ * between a clear fit and a clear mismatch.
+ */
+export const scoreMatch = (room: Room, bhadot: Bhadot): MatchScore => {
+  const factors = [
+    scoreArea(room, bhadot),
+    scoreBudget(room, bhadot),
+    scoreOccupancy(room, bhadot),
+    scoreMoveIn(room, bhadot),
+  ];
+  return { total: factors.reduce((sum, f) => sum + f.points, 0), factors };
+};
+
+/**
+ * Tenants paired with their score for the room, in the order given
+ * The server ranks across all tenants before paging, using the same weights, so
+ * the list is not re-sorted here; the scores only drive the breakdown shown per tenant.
+ */
+export const scoreTenants = (room: Room, bhadots: Bhadot[]) =>
+  bhadots.map((bhadot) => ({ bhadot, score: scoreMatch(room, bhadot) }));
@@ -0,0 +1,27 @@
+import { formatRupees } from './rooms';
+import { parseLocalDate } from './time';
+import type { OfferTerms, RentRequest, RequestOffer } from '../types';
+
+/** The offer waiting for an answer, if the request is being negotiated */
+export const openOffer = (request: Pick<RentRequest, 'status' | 'offers'>): RequestOffer | undefined => {
+  if (request.status !== 'Pending') return undefined;
+  const latest = request.offers?.[request.offers.length - 1];
+  return latest?.status === 'Open' ? latest : undefined;
+};
+
+/**
+ * Terms in force after the whole thread
+ * Each offer only states what it changes, so later offers override earlier ones
+ */
+export const currentTerms = (offers: RequestOffer[] = [], initial: OfferTerms = {}): OfferTerms =>
+  offers.reduce<OfferTerms>((terms, offer) => ({ ...terms, ...offer.terms }), initial);
+
+/** "₹5,000/month · from 1/6/2025 · 3 people" */
+export const describeTerms = (terms: OfferTerms, t: (key: string) => string) =>
+  [
+    terms.rent !== undefined && `${formatRupees(terms.rent)}${t('perMonth')}`,
+    terms.moveInDate && t('moveInFrom').replace('{date}', parseLocalDate(terms.moveInDate).toLocaleDateString()),
+    terms.occupants !== undefined && t('occupantsCount').replace('{count}', String(terms.occupants)),
+  ]
+    .filter(Boolean)
+    .join(' · ');
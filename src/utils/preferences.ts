@@ -0,0 +1,47 @@
+import type { RoomType, TenantPreferences, TenantPreferencesUpdate } from '../types';
+
+/** Form-friendly copy of TenantPreferences: every input is a string */
+export interface PreferencesDraft {
+  budgetMin: string;
+  budgetMax: string;
+  preferredAreas: string[];
+  moveInDate: string;
+  roomTypeWanted: RoomType | '';
+  occupation: string;
+  hasPets: '' | 'yes' | 'no';
+  vegetarian: '' | 'yes' | 'no';
+}
+
+const toChoice = (value?: boolean): '' | 'yes' | 'no' => (value === undefined ? '' : value ? 'yes' : 'no');
+const fromChoice = (value: '' | 'yes' | 'no') => (value === '' ? null : value === 'yes');
+
+export const toPreferencesDraft = (preferences: TenantPreferences = {}): PreferencesDraft => ({
+  budgetMin: preferences.budgetMin?.toString() ?? '',
+  budgetMax: preferences.budgetMax?.toString() ?? '',
+  preferredAreas: preferences.preferredAreas ?? [],
+  moveInDate: preferences.moveInDate?.slice(0, 10) ?? '',
+  roomTypeWanted: preferences.roomTypeWanted ?? '',
+  occupation: preferences.occupation ?? '',
+  hasPets: toChoice(preferences.hasPets),
+  vegetarian: toChoice(preferences.vegetarian),
+});
+
+/** Cleared inputs become `null` so saving actually removes them on the backend */
+export const fromPreferencesDraft = (draft: PreferencesDraft): TenantPreferencesUpdate => ({
+  budgetMin: draft.budgetMin ? parseInt(draft.budgetMin) : null,
+  budgetMax: draft.budgetMax ? parseInt(draft.budgetMax) : null,
+  preferredAreas: draft.preferredAreas.length > 0 ? draft.preferredAreas : null,
+  moveInDate: draft.moveInDate || null,
+  roomTypeWanted: draft.roomTypeWanted || null,
+  occupation: draft.occupation.trim() || null,
+  hasPets: fromChoice(draft.hasPets),
+  vegetarian: fromChoice(draft.vegetarian),
+});
+
+/** A budget range is valid unless both ends are set and reversed */
+export const isBudgetRangeValid = (draft: PreferencesDraft) =>
+  !draft.budgetMin || !draft.budgetMax || parseInt(draft.budgetMin) <= parseInt(draft.budgetMax);
+
+/** True when the tenant has filled in at least one preference */
+export const hasPreferences = (preferences?: TenantPreferences) =>
+  !!preferences && Object.values(preferences).some((value) => value !== undefined);
@@ -0,0 +1,28 @@
+import type { RentRequest, RequestEvent } from '../types';
+
+/**
+ * Events for a request, oldest first
+ * Requests from before the backend kept a history only have their creation
+ * and withdrawal times, so those are all the fallback can show.
+ */
+export const requestHistory = (
+  request: Pick<RentRequest, 'timestamp' | 'initiatedBy' | 'withdrawnAt' | 'history'>
+): RequestEvent[] => {
+  if (request.history && request.history.length > 0) {
+    return [...request.history].sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+  }
+
+  const events: RequestEvent[] = [{ type: 'Created', at: request.timestamp, actor: request.initiatedBy ?? 'Malik' }];
+  if (request.withdrawnAt) {
+    events.push({ type: 'Withdrawn', at: request.withdrawnAt, actor: 'Malik' });
+  }
+  return events;
+};
+
+/**
+ * Whether the request was accepted at some point, even if it has since expired
+ * Pending requests expire too, so an Expired status alone proves nothing; only
+ * a recorded Accepted event does.
+ */
+export const wasAccepted = (request: Pick<RentRequest, 'status' | 'history'>) =>
+  request.status === 'Accepted' || !!request.history?.some((event) => event.type === 'Accepted');
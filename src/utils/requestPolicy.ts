@@ -0,0 +1,146 @@
+/**
+ * Request-limit rules shared by the dashboards and the admin settings.
+ *
+ * The backend owns the policy and enforces it; the client reads it with
+ * `policyApi.getRequestPolicy` and uses these helpers so countdowns and
+ * disabled buttons agree with what the server will accept.
+ */
+import { policyApi } from '../services/api';
+import type { RentRequest, RequestPolicy, ServerRequestPolicy } from '../types';
+
+/** Values the backend used before the policy became configurable */
+export const DEFAULT_REQUEST_POLICY: RequestPolicy = {
+  maxPending: 2,
+  pendingWindowHours: 24,
+  tenantCooldownHours: 24,
+  acceptedExpiryDays: 5,
+  nudgeAfterHours: 12,
+  maxInterestsPerDay: 3,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Fill settings the backend did not send with their defaults
+ * Every value the backend did send is kept, so limits still match what it enforces.
+ */
+export const withPolicyDefaults = (policy: ServerRequestPolicy): RequestPolicy => ({
+  ...DEFAULT_REQUEST_POLICY,
+  ...Object.fromEntries(Object.entries(policy).filter(([, value]) => value !== undefined)),
+});
+
+/**
+ * Read the policy from the backend
+ * Falls back to the defaults so an older backend does not break the dashboards
+ */
+export const loadRequestPolicy = async (): Promise<RequestPolicy> => {
+  try {
+    const response = await policyApi.getRequestPolicy();
+    return withPolicyDefaults(response.data);
+  } catch (error) {
+    console.error('Failed to load request policy:', error);
+    return DEFAULT_REQUEST_POLICY;
+  }
+};
+
+export interface TenantCooldown {
+  until: Date;
+  hoursRemaining: number;
+}
+
+export interface RequestLimitStatus {
+  pendingCount: number; // Pending requests still inside the window
+  canSendMore: boolean;
+  nextAvailableTime: Date | null; // When enough Pending requests leave the window to send one more; null while allowed
+  tenantCooldowns: Record<string, TenantCooldown>; // Keyed by Bhadot ID
+}
+
+/**
+ * Work out the Malik's request limits from their requests
+ * Every request starts a cooldown for its tenant, whatever its status; a
+ * withdrawn request frees its pending slot but not the cooldown.
+ */
+export const evaluateRequestLimits = (
+  requests: Pick<RentRequest, 'bhadotId' | 'status' | 'timestamp'>[],
+  policy: RequestPolicy,
+  now = new Date()
+): RequestLimitStatus => {
+  const windowStart = now.getTime() - policy.pendingWindowHours * HOUR_MS;
+  const inWindow = requests
+    .filter((req) => req.status === 'Pending')
+    .map((req) => new Date(req.timestamp).getTime())
+    .filter((time) => time > windowStart)
+    .sort((a, b) => a - b);
+  const pendingCount = inWindow.length;
+  const canSendMore = pendingCount < policy.maxPending;
+
+  const tenantCooldowns: Record<string, TenantCooldown> = {};
+  requests.forEach((req) => {
+    const until = new Date(new Date(req.timestamp).getTime() + policy.tenantCooldownHours * HOUR_MS);
+    const diff = until.getTime() - now.getTime();
+    const hoursRemaining = Math.ceil(diff / HOUR_MS);
+    // Track the most recent cooldown for each tenant
+    if (diff > 0 && (!tenantCooldowns[req.bhadotId] || tenantCooldowns[req.bhadotId].until < until)) {
+      tenantCooldowns[req.bhadotId] = { until, hoursRemaining };
+    }
+  });
+
+  return {
+    pendingCount,
+    canSendMore,
+    // Older Pending requests outside the window no longer count, so only those inside it decide when a slot frees up
+    nextAvailableTime: canSendMore
+      ? null
+      : new Date(inWindow[inWindow.length - policy.maxPending] + policy.pendingWindowHours * HOUR_MS),
+    tenantCooldowns,
+  };
+};
+
+export interface InterestLimitStatus {
+  sentToday: number; // Interests sent in the last 24 hours
+  canSendMore: boolean;
+  nextAvailableTime: Date | null; // When enough of today's interests stop counting to send one more; null while allowed
+}
+
+/** Work out how many more interest requests a Bhadot may send right now */
+export const evaluateInterestLimits = (
+  interests: Pick<RentRequest, 'timestamp'>[],
+  policy: RequestPolicy,
+  now = new Date()
+): InterestLimitStatus => {
+  const recent = interests
+    .map((req) => new Date(req.timestamp).getTime())
+    .filter((time) => time > now.getTime() - 24 * HOUR_MS)
+    .sort((a, b) => a - b);
+
+  const canSendMore = recent.length < policy.maxInterestsPerDay;
+
+  return {
+    sentToday: recent.length,
+    canSendMore,
+    // With more than the limit in the window (the admin lowered it), older interests alone do not free a slot
+    nextAvailableTime: canSendMore ? null : new Date(recent[recent.length - policy.maxInterestsPerDay] + 24 * HOUR_MS),
+  };
+};
+
+/**
+ * Whether the Malik may send a reminder for a request
+ * Only once, and only while the request is Pending and still unseen after nudgeAfterHours
+ */
+export const canNudge = (
+  request: Pick<RentRequest, 'status' | 'timestamp' | 'seenAt' | 'nudgedAt'>,
+  policy: RequestPolicy,
+  now = new Date()
+) =>
+  request.status === 'Pending' &&
+  !request.seenAt &&
+  !request.nudgedAt &&
+  now.getTime() - new Date(request.timestamp).getTime() >= policy.nudgeAfterHours * HOUR_MS;
+
+/** When a request accepted at `timestamp` expires */
+export const acceptedExpiresAt = (timestamp: string, policy: RequestPolicy) =>
+  new Date(new Date(timestamp).getTime() + policy.acceptedExpiryDays * 24 * HOUR_MS);
+
+/** Fill `{maxPending}`, `{pendingWindowHours}`, ... placeholders in a translated string */
+export const describePolicy = (text: string, policy: RequestPolicy) =>
+  Object.entries(policy).reduce((message, [name, value]) => message.split(`{${name}}`).join(String(value)), text);
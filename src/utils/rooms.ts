@@ -0,0 +1,34 @@
+/**
+ * Room listing constants and display helpers shared by the Malik and Bhadot
+ * sides of the app.
+ */
+import type { Room, RoomStatus, RoomType } from '../types';
+
+export const ROOM_TYPES: RoomType[] = ['1RK', '1BHK', '2BHK', '3BHK', 'Shared'];
+
+/** Amenity ids stored on a Room; each id is also its translation key */
+export const AMENITIES = [
+  'water',
+  'electricity',
+  'parking',
+  'wifi',
+  'furnished',
+  'attachedBathroom',
+  'kitchen',
+] as const;
+
+/** Tailwind badge classes per listing status */
+export const ROOM_STATUS_STYLES: Record<RoomStatus, string> = {
+  Available: 'bg-green-100 text-green-800',
+  Paused: 'bg-gray-100 text-gray-700',
+  Occupied: 'bg-blue-100 text-blue-800',
+};
+
+/** Format an amount in rupees, e.g. 4500 -> "₹4,500" */
+export const formatRupees = (amount: number) => `₹${amount.toLocaleString('en-IN')}`;
+
+/** The photo shown on listing cards: the chosen cover, else the first photo */
+export const coverPhoto = (room: Pick<Room, 'photos' | 'coverPhotoId'>) => {
+  const photos = room.photos ?? [];
+  return photos.find((photo) => photo.id === room.coverPhotoId) ?? photos[0];
+};
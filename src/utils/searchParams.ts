@@ -0,0 +1,33 @@
+/**
+ * Helpers for list pages that keep their filters in the URL query string.
+ */
+
+/** Parse an integer query value; missing or malformed values become undefined */
+export const toNumber = (value: string | null) => {
+  const parsed = value ? parseInt(value) : NaN;
+  return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+/** Copy of `current` with `changes` applied; empty values remove the key */
+export const withParams = (current: URLSearchParams, changes: Record<string, string | undefined>) => {
+  const next = new URLSearchParams(current);
+  Object.entries(changes).forEach(([key, value]) => {
+    if (value) {
+      next.set(key, value);
+    } else {
+      next.delete(key);
+    }
+  });
+  return next;
+};
+
+/** Filter values as query entries, skipping empty ones, sorted by key */
+export const toParamEntries = (filters: object): [string, string][] =>
+  Object.entries(filters)
+    .filter(([, value]) => value !== undefined && value !== null && value !== '')
+    .map(([key, value]): [string, string] => [key, String(value)])
+    .sort(([a], [b]) => a.localeCompare(b));
+
+/** True when two filter objects select the same thing, ignoring empty values */
+export const sameFilters = (a: object, b: object) =>
+  JSON.stringify(toParamEntries(a)) === JSON.stringify(toParamEntries(b));
@@ -0,0 +1,24 @@
+const MINUTE_MS = 60 * 1000;
+
+/** "5m ago", "2h ago", "3d ago" for a past ISO timestamp, in the current language */
+export const formatTimeAgo = (iso: string, t: (key: string) => string, now = new Date()) => {
+  const minutes = Math.floor((now.getTime() - new Date(iso).getTime()) / MINUTE_MS);
+  if (minutes < 1) return t('justNow');
+  if (minutes < 60) return t('minutesAgo').replace('{count}', String(minutes));
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return t('hoursAgo').replace('{count}', String(hours));
+  return t('daysAgo').replace('{count}', String(Math.floor(hours / 24)));
+};
+
+/**
+ * A `YYYY-MM-DD` date (or the date part of an ISO timestamp) as local midnight
+ * `new Date('2025-06-01')` is UTC midnight, which is still 31 May west of UTC.
+ */
+export const parseLocalDate = (value: string) => {
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+/** `YYYY-MM-DD` for a date in the user's time zone; `toISOString()` would give the UTC day */
+export const toLocalDateString = (date = new Date()) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
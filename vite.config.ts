@@ -1,8 +1,9 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import devUploadStorage from './plugins/devUploadStorage'
 
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), devUploadStorage()],
   build: {
     outDir: 'dist',
   },